@@ -0,0 +1,252 @@
+import { Alert, AlertRule, AlertRuleState, LatencySketch, OriginPool, ServiceMetrics } from './types';
+import { diffLatencySketches, latencyQuantile } from './latency-sketch';
+
+interface BackendCounters {
+  requests: number;
+  failedRequests: number;
+  latencySketch?: LatencySketch;
+}
+
+interface RuleTarget {
+  id: string;
+  poolId: string;
+  backendId?: string;
+  value: number | undefined; // undefined = no data this interval, state is left untouched
+}
+
+export interface AlertRuleEvaluation {
+  fired: Alert[];
+  resolved: Alert[];
+}
+
+/**
+ * Evaluates AlertRules against live metrics. Latency and error-rate rules look at the traffic
+ * since the previous evaluation, so the first pass after a restart only takes a baseline.
+ */
+export class AlertRuleEvaluator {
+  private previous = new Map<string, BackendCounters>();
+  private states = new Map<string, AlertRuleState>();
+
+  constructor(states: AlertRuleState[] = []) {
+    states.forEach(state => this.states.set(this.stateKey(state.ruleId, state.target), state));
+  }
+
+  getStates(ruleId?: string): AlertRuleState[] {
+    const states = Array.from(this.states.values());
+    return ruleId ? states.filter(state => state.ruleId === ruleId) : states;
+  }
+
+  /** Forget state for a rule, e.g. after it was edited or deleted */
+  resetRule(ruleId: string): void {
+    for (const state of this.getStates(ruleId)) {
+      this.states.delete(this.stateKey(state.ruleId, state.target));
+    }
+  }
+
+  /**
+   * An alert `isSuppressed` holds back (e.g. during maintenance) does not count as fired: the rule stays
+   * pending and fires on the first pass after the suppression lifts, if the condition still holds.
+   */
+  evaluate(
+    rules: AlertRule[],
+    pools: OriginPool[],
+    metrics: ServiceMetrics,
+    now: number = Date.now(),
+    isSuppressed: (alert: Alert) => boolean = () => false
+  ): AlertRuleEvaluation {
+    const deltas = this.takeDeltas(metrics);
+    const result: AlertRuleEvaluation = { fired: [], resolved: [] };
+
+    const liveKeys = new Set<string>();
+
+    for (const rule of rules) {
+      if (!rule.enabled) continue;
+
+      for (const target of this.getTargets(rule, pools, deltas)) {
+        const key = this.stateKey(rule.id, target.id);
+        liveKeys.add(key);
+        if (target.value === undefined) continue;
+
+        const state: AlertRuleState = this.states.get(key) || {
+          ruleId: rule.id,
+          target: target.id,
+          poolId: target.poolId,
+          firing: false,
+          lastEvaluated: now
+        };
+        state.lastValue = target.value;
+        state.lastEvaluated = now;
+        this.states.set(key, state);
+
+        if (this.compare(target.value, rule.conditions.comparison, rule.conditions.threshold)) {
+          state.pendingSince = state.pendingSince ?? now;
+          const heldFor = now - state.pendingSince;
+          if (!state.firing && heldFor >= rule.conditions.duration * 1000) {
+            const alert = this.buildAlert(rule, target, now);
+            if (isSuppressed(alert)) continue;
+            state.firing = true;
+            state.firedAt = now;
+            state.alertId = alert.id;
+            result.fired.push(alert);
+          }
+        } else {
+          state.pendingSince = undefined;
+          if (state.firing) {
+            result.resolved.push(this.buildResolution(rule, target, state, now, this.formatValue(rule, target.value)));
+            state.firing = false;
+            state.firedAt = undefined;
+            state.alertId = undefined;
+          }
+        }
+      }
+    }
+
+    // Drop state for rules that no longer exist, and for targets (backends, pools) an enabled rule no
+    // longer covers. A target that fired is resolved on its way out so its alert does not stay open.
+    const rulesById = new Map(rules.map(rule => [rule.id, rule]));
+    for (const [key, state] of this.states) {
+      const rule = rulesById.get(state.ruleId);
+      if (rule && (!rule.enabled || liveKeys.has(key))) continue;
+
+      if (rule && state.firing) {
+        const poolRule = rule.type === 'pool_down' || rule.type === 'insufficient_origins';
+        const target: RuleTarget = {
+          id: state.target,
+          poolId: state.poolId || rule.poolId || '',
+          backendId: poolRule ? undefined : state.target,
+          value: state.lastValue
+        };
+        result.resolved.push(this.buildResolution(rule, target, state, now, 'no longer in the configuration'));
+      }
+      this.states.delete(key);
+    }
+
+    return result;
+  }
+
+  private stateKey(ruleId: string, target: string): string {
+    return `${ruleId}|${target}`;
+  }
+
+  /**
+   * Per-backend traffic since the previous call; a backend seen for the first time has no delta
+   */
+  private takeDeltas(metrics: ServiceMetrics): Map<string, { requests: number; failedRequests: number; p95?: number }> {
+    const deltas = new Map<string, { requests: number; failedRequests: number; p95?: number }>();
+
+    for (const [backendId, bm] of Object.entries(metrics.backendMetrics)) {
+      const previous = this.previous.get(backendId);
+      if (previous && bm.requests >= previous.requests) {
+        const window = bm.latencySketch && previous.latencySketch
+          ? diffLatencySketches(bm.latencySketch, previous.latencySketch)
+          : undefined;
+        deltas.set(backendId, {
+          requests: bm.requests - previous.requests,
+          failedRequests: bm.failedRequests - previous.failedRequests,
+          p95: window && window.count > 0 ? latencyQuantile(window, 0.95) : undefined
+        });
+      }
+
+      this.previous.set(backendId, {
+        requests: bm.requests,
+        failedRequests: bm.failedRequests,
+        latencySketch: bm.latencySketch ? JSON.parse(JSON.stringify(bm.latencySketch)) : undefined
+      });
+    }
+
+    return deltas;
+  }
+
+  private getTargets(
+    rule: AlertRule,
+    pools: OriginPool[],
+    deltas: Map<string, { requests: number; failedRequests: number; p95?: number }>
+  ): RuleTarget[] {
+    const scopedPools = pools.filter(pool => !rule.poolId || pool.id === rule.poolId);
+
+    switch (rule.type) {
+      case 'high_latency':
+      case 'high_error_rate':
+        return scopedPools.flatMap(pool => pool.backends
+          .filter(backend => !rule.backendId || backend.id === rule.backendId)
+          .map(backend => {
+            const delta = deltas.get(backend.id);
+            let value: number | undefined;
+            if (delta && delta.requests > 0) {
+              value = rule.type === 'high_latency'
+                ? delta.p95
+                : (delta.failedRequests / delta.requests) * 100;
+            }
+            return { id: backend.id, poolId: pool.id, backendId: backend.id, value };
+          }));
+
+      case 'pool_down':
+      case 'insufficient_origins':
+        return scopedPools.filter(pool => pool.enabled).map(pool => {
+          const healthy = pool.backends.filter(b => b.healthy && b.enabled !== false).length;
+          return {
+            id: pool.id,
+            poolId: pool.id,
+            value: rule.type === 'pool_down' ? healthy : healthy - pool.minimum_origins
+          };
+        });
+
+      default:
+        return [];
+    }
+  }
+
+  private compare(value: number, comparison: AlertRule['conditions']['comparison'], threshold: number): boolean {
+    switch (comparison) {
+      case 'gt': return value > threshold;
+      case 'gte': return value >= threshold;
+      case 'lt': return value < threshold;
+      case 'lte': return value <= threshold;
+      case 'eq': return value === threshold;
+      default: return false;
+    }
+  }
+
+  private formatValue(rule: AlertRule, value: number | undefined): string {
+    if (value === undefined) {
+      return 'no data';
+    }
+    switch (rule.type) {
+      case 'high_latency': return `p95 ${value.toFixed(0)}ms`;
+      case 'high_error_rate': return `${value.toFixed(1)}% errors`;
+      case 'pool_down': return `${value} healthy origins`;
+      case 'insufficient_origins': return `${value >= 0 ? '+' : ''}${value} origins vs. minimum`;
+      default: return String(value);
+    }
+  }
+
+  private buildResolution(rule: AlertRule, target: RuleTarget, state: AlertRuleState, now: number, detail: string): Alert {
+    return {
+      ...this.buildAlert(rule, target, state.firedAt || now),
+      id: state.alertId || `rule-${rule.id}-${target.id}-${now}`,
+      message: `Resolved: ${rule.name} on ${target.id} (${detail})`,
+      resolved: true,
+      resolved_timestamp: now
+    };
+  }
+
+  private buildAlert(rule: AlertRule, target: RuleTarget, now: number): Alert {
+    const poolRule = rule.type === 'pool_down' || rule.type === 'insufficient_origins';
+    return {
+      id: `rule-${rule.id}-${target.id}-${now}`,
+      type: rule.type,
+      severity: rule.severity || (poolRule ? 'high' : 'medium'),
+      message: `${rule.name} on ${target.id}: ${this.formatValue(rule, target.value)} (${rule.conditions.comparison} ${rule.conditions.threshold})`,
+      timestamp: now,
+      resolved: false,
+      metadata: {
+        ruleId: rule.id,
+        poolId: target.poolId,
+        backendId: target.backendId,
+        value: target.value,
+        threshold: rule.conditions.threshold,
+        comparison: rule.conditions.comparison
+      }
+    };
+  }
+}
@@ -0,0 +1,143 @@
+import { Alert } from './types';
+
+export interface AlertQuery {
+  status?: NonNullable<Alert['status']>[];
+  type?: string;
+  severity?: string;
+  poolId?: string;
+  backendId?: string;
+  since?: number; // ms timestamp
+  limit?: number;
+}
+
+const KEY_PREFIX = 'alert:';
+
+/**
+ * Alerts that share type, rule, pool and backend describe the same problem
+ */
+function alertFingerprint(alert: Alert): string {
+  const metadata = alert.metadata || {};
+  return [alert.type, metadata.ruleId || '', metadata.poolId || '', metadata.backendId || ''].join('|');
+}
+
+/**
+ * Alert history persisted in DO storage (one key per alert), with the open -> acknowledged -> resolved
+ * workflow. Repeats of an active alert are folded into it instead of creating new entries.
+ */
+export class AlertStore {
+  private alerts?: Promise<Map<string, Alert>>;
+
+  constructor(
+    private storage: DurableObjectStorage,
+    private maxAlerts: number = 1000
+  ) {}
+
+  private load(): Promise<Map<string, Alert>> {
+    if (!this.alerts) {
+      this.alerts = this.storage.list<Alert>({ prefix: KEY_PREFIX })
+        .then(stored => new Map(Array.from(stored.values()).map(alert => [alert.id, alert])));
+      this.alerts.catch(() => { this.alerts = undefined; });
+    }
+    return this.alerts;
+  }
+
+  private async save(alert: Alert): Promise<void> {
+    await this.storage.put(`${KEY_PREFIX}${alert.id}`, alert);
+  }
+
+  /**
+   * Store a raised or resolved alert. Returns the alert to notify about,
+   * or null when notifications should be suppressed (acknowledged or already resolved).
+   */
+  async record(alert: Alert): Promise<Alert | null> {
+    const alerts = await this.load();
+    const fingerprint = alertFingerprint(alert);
+    const active = Array.from(alerts.values()).filter(existing =>
+      existing.status !== 'resolved' && (existing.id === alert.id || alertFingerprint(existing) === fingerprint));
+
+    if (alert.resolved) {
+      const resolvedAt = alert.resolved_timestamp || alert.timestamp;
+      if (active.length === 0) {
+        if (alerts.get(alert.id)?.status === 'resolved') {
+          return null;
+        }
+        await this.insert(alerts, { ...alert, status: 'resolved', resolved_timestamp: resolvedAt, resolved_by: 'system' });
+        return alert;
+      }
+
+      for (const existing of active) {
+        Object.assign(existing, { status: 'resolved', resolved: true, resolved_timestamp: resolvedAt, resolved_by: 'system' });
+        await this.save(existing);
+      }
+      return alert;
+    }
+
+    const existing = active[0];
+    if (existing) {
+      existing.occurrences = (existing.occurrences || 1) + 1;
+      existing.last_seen = alert.timestamp;
+      await this.save(existing);
+      return existing.status === 'acknowledged' ? null : { ...alert, id: existing.id };
+    }
+
+    await this.insert(alerts, { ...alert, status: 'open', occurrences: 1, last_seen: alert.timestamp });
+    return alert;
+  }
+
+  async get(id: string): Promise<Alert | undefined> {
+    return (await this.load()).get(id);
+  }
+
+  async list(query: AlertQuery = {}): Promise<Alert[]> {
+    const alerts = Array.from((await this.load()).values()).filter(alert =>
+      (!query.status || query.status.includes(alert.status || 'open')) &&
+      (!query.type || alert.type === query.type) &&
+      (!query.severity || alert.severity === query.severity) &&
+      (!query.poolId || alert.metadata?.poolId === query.poolId) &&
+      (!query.backendId || alert.metadata?.backendId === query.backendId) &&
+      (!query.since || (alert.last_seen || alert.timestamp) >= query.since));
+
+    alerts.sort((a, b) => b.timestamp - a.timestamp);
+    return alerts.slice(0, Math.min(query.limit || 100, this.maxAlerts));
+  }
+
+  /** Acknowledge an open alert; repeats stop notifying until it resolves */
+  async acknowledge(id: string, by: string, now: number = Date.now()): Promise<Alert | undefined> {
+    const alert = await this.get(id);
+    if (!alert || alert.status !== 'open') return alert;
+
+    Object.assign(alert, { status: 'acknowledged', acknowledged_by: by, acknowledged_timestamp: now });
+    await this.save(alert);
+    return alert;
+  }
+
+  /** Manually resolve an alert */
+  async resolve(id: string, by: string, now: number = Date.now()): Promise<Alert | undefined> {
+    const alert = await this.get(id);
+    if (!alert || alert.status === 'resolved') return alert;
+
+    Object.assign(alert, { status: 'resolved', resolved: true, resolved_timestamp: now, resolved_by: by });
+    await this.save(alert);
+    return alert;
+  }
+
+  private async insert(alerts: Map<string, Alert>, alert: Alert): Promise<void> {
+    alerts.set(alert.id, alert);
+    await this.save(alert);
+
+    if (alerts.size <= this.maxAlerts) return;
+
+    // Drop the oldest resolved alerts first
+    const expired = Array.from(alerts.values())
+      .filter(a => a.status === 'resolved')
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .slice(0, alerts.size - this.maxAlerts)
+      .map(a => a.id);
+
+    expired.forEach(expiredId => alerts.delete(expiredId));
+    // storage.delete accepts at most 128 keys per call
+    for (let i = 0; i < expired.length; i += 128) {
+      await this.storage.delete(expired.slice(i, i + 128).map(expiredId => `${KEY_PREFIX}${expiredId}`));
+    }
+  }
+}
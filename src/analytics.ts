@@ -0,0 +1,239 @@
+import { AnalyticsRequest, AnalyticsResponse, BackendMetrics, OriginPool, PoolMetrics } from './types';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const MAX_POINTS = 10000;
+
+export interface AnalyticsRetention {
+  minuteBucketsMs: number; // Raw one-minute buckets are rolled up into hourly buckets after this
+  hourlyBucketsMs: number; // Hourly buckets are dropped after this
+}
+
+const DEFAULT_RETENTION: AnalyticsRetention = {
+  minuteBucketsMs: 24 * HOUR_MS,
+  hourlyBucketsMs: 30 * 24 * HOUR_MS
+};
+
+interface PendingBucket {
+  bucketStart: number;
+  poolId: string;
+  backendId: string;
+  requests: number;
+  errors: number;
+  responseTimeTotalMs: number;
+}
+
+type BucketTotals = {
+  requests: number;
+  errors: number;
+  response_time_total_ms: number;
+};
+
+/**
+ * Per-backend request counters rolled into one-minute buckets in the DO's SQLite storage.
+ * Samples are accumulated in memory and written when the minute rolls over or on flush().
+ */
+export class AnalyticsStore {
+  private pending = new Map<string, PendingBucket>();
+  private pendingBucketStart = 0;
+  private lastCompaction = 0;
+
+  constructor(
+    private sql: SqlStorage,
+    private retention: AnalyticsRetention = DEFAULT_RETENTION
+  ) {
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS analytics_buckets (
+        resolution INTEGER NOT NULL,
+        bucket_start INTEGER NOT NULL,
+        pool_id TEXT NOT NULL,
+        backend_id TEXT NOT NULL,
+        requests INTEGER NOT NULL DEFAULT 0,
+        errors INTEGER NOT NULL DEFAULT 0,
+        response_time_total_ms REAL NOT NULL DEFAULT 0,
+        PRIMARY KEY (resolution, bucket_start, pool_id, backend_id)
+      )
+    `);
+  }
+
+  /**
+   * Count a proxied request. Response time is only accumulated for successes, like BackendMetrics.
+   */
+  record(poolId: string, backendId: string, success: boolean, durationMs: number, now: number = Date.now()): void {
+    const bucketStart = Math.floor(now / MINUTE_MS) * MINUTE_MS;
+    if (this.pending.size > 0 && bucketStart !== this.pendingBucketStart) {
+      this.flush(now);
+    }
+    this.pendingBucketStart = bucketStart;
+
+    const key = `${poolId}|${backendId}`;
+    let bucket = this.pending.get(key);
+    if (!bucket) {
+      bucket = { bucketStart, poolId, backendId, requests: 0, errors: 0, responseTimeTotalMs: 0 };
+      this.pending.set(key, bucket);
+    }
+
+    bucket.requests++;
+    if (success) {
+      bucket.responseTimeTotalMs += durationMs;
+    } else {
+      bucket.errors++;
+    }
+  }
+
+  /**
+   * Write pending counters to storage, compacting old buckets at most once an hour
+   */
+  flush(now: number = Date.now()): void {
+    for (const bucket of this.pending.values()) {
+      this.sql.exec(
+        `INSERT INTO analytics_buckets (resolution, bucket_start, pool_id, backend_id, requests, errors, response_time_total_ms)
+         VALUES (60, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (resolution, bucket_start, pool_id, backend_id) DO UPDATE SET
+           requests = requests + excluded.requests,
+           errors = errors + excluded.errors,
+           response_time_total_ms = response_time_total_ms + excluded.response_time_total_ms`,
+        bucket.bucketStart, bucket.poolId, bucket.backendId, bucket.requests, bucket.errors, bucket.responseTimeTotalMs
+      );
+    }
+    this.pending.clear();
+
+    if (now - this.lastCompaction >= HOUR_MS) {
+      this.compact(now);
+    }
+  }
+
+  /**
+   * Roll minute buckets past retention into hourly buckets and drop expired hourly buckets
+   */
+  compact(now: number = Date.now()): void {
+    this.lastCompaction = now;
+
+    // Hour-aligned so an hour is never split between the two resolutions
+    const minuteCutoff = Math.floor((now - this.retention.minuteBucketsMs) / HOUR_MS) * HOUR_MS;
+    this.sql.exec(
+      `INSERT INTO analytics_buckets (resolution, bucket_start, pool_id, backend_id, requests, errors, response_time_total_ms)
+       SELECT 3600, CAST(bucket_start / ${HOUR_MS} AS INTEGER) * ${HOUR_MS} AS hour_start, pool_id, backend_id,
+              SUM(requests), SUM(errors), SUM(response_time_total_ms)
+       FROM analytics_buckets
+       WHERE resolution = 60 AND bucket_start < ?
+       GROUP BY hour_start, pool_id, backend_id
+       ON CONFLICT (resolution, bucket_start, pool_id, backend_id) DO UPDATE SET
+         requests = requests + excluded.requests,
+         errors = errors + excluded.errors,
+         response_time_total_ms = response_time_total_ms + excluded.response_time_total_ms`,
+      minuteCutoff
+    );
+    this.sql.exec(`DELETE FROM analytics_buckets WHERE resolution = 60 AND bucket_start < ?`, minuteCutoff);
+    this.sql.exec(`DELETE FROM analytics_buckets WHERE resolution = 3600 AND bucket_start < ?`, now - this.retention.hourlyBucketsMs);
+  }
+
+  /**
+   * Answer an AnalyticsRequest. `since`/`until` are Unix timestamps in seconds, `step` is in seconds.
+   * Data older than the minute retention only has hourly resolution.
+   */
+  query(request: AnalyticsRequest, pools: OriginPool[], now: number = Date.now()): AnalyticsResponse {
+    this.flush(now);
+
+    const until = request.until ?? Math.floor(now / 1000);
+    const since = request.since ?? until - 3600;
+    const step = request.step ?? 60;
+
+    if (!Number.isFinite(since) || !Number.isFinite(until) || since >= until) {
+      throw new Error('since must be before until');
+    }
+    if (!Number.isFinite(step) || step < 60 || step % 60 !== 0) {
+      throw new Error('step must be a multiple of 60 seconds');
+    }
+
+    const stepMs = step * 1000;
+    const seriesStart = Math.floor((since * 1000) / stepMs) * stepMs;
+    const seriesEnd = until * 1000;
+    if ((seriesEnd - seriesStart) / stepMs > MAX_POINTS) {
+      throw new Error(`Query would return more than ${MAX_POINTS} points; increase step`);
+    }
+
+    const rows = this.sql.exec<BucketTotals & { ts: number }>(
+      `SELECT CAST(bucket_start / ? AS INTEGER) * ? AS ts,
+              SUM(requests) AS requests, SUM(errors) AS errors, SUM(response_time_total_ms) AS response_time_total_ms
+       FROM analytics_buckets
+       WHERE bucket_start >= ? AND bucket_start < ?
+       GROUP BY ts`,
+      stepMs, stepMs, seriesStart, seriesEnd
+    ).toArray();
+    const byTimestamp = new Map(rows.map(row => [row.ts, row]));
+
+    const fields = new Set(request.metrics?.length ? request.metrics : ['requests', 'errors', 'response_time']);
+    const timeseries: AnalyticsResponse['timeseries'] = [];
+    for (let ts = seriesStart; ts < seriesEnd; ts += stepMs) {
+      const row = byTimestamp.get(ts);
+      const point: Record<string, number> = { timestamp: ts / 1000 };
+      if (fields.has('requests')) point.requests = row?.requests || 0;
+      if (fields.has('errors')) point.errors = row?.errors || 0;
+      if (fields.has('response_time')) point.response_time = row ? averageResponseTime(row) : 0;
+      timeseries.push(point as AnalyticsResponse['timeseries'][number]);
+    }
+
+    const backendRows = this.sql.exec<BucketTotals & { pool_id: string; backend_id: string }>(
+      `SELECT pool_id, backend_id,
+              SUM(requests) AS requests, SUM(errors) AS errors, SUM(response_time_total_ms) AS response_time_total_ms
+       FROM analytics_buckets
+       WHERE bucket_start >= ? AND bucket_start < ?
+       GROUP BY pool_id, backend_id`,
+      seriesStart, seriesEnd
+    ).toArray();
+
+    const backends: Record<string, BackendMetrics> = {};
+    const poolTotals = new Map<string, BucketTotals>();
+    const totals: BucketTotals = { requests: 0, errors: 0, response_time_total_ms: 0 };
+    for (const row of backendRows) {
+      backends[row.backend_id] = {
+        requests: row.requests,
+        successfulRequests: row.requests - row.errors,
+        failedRequests: row.errors,
+        totalResponseTimeMs: row.response_time_total_ms,
+        avgResponseTimeMs: averageResponseTime(row)
+      };
+
+      const pool = poolTotals.get(row.pool_id) || { requests: 0, errors: 0, response_time_total_ms: 0 };
+      for (const target of [pool, totals]) {
+        target.requests += row.requests;
+        target.errors += row.errors;
+        target.response_time_total_ms += row.response_time_total_ms;
+      }
+      poolTotals.set(row.pool_id, pool);
+    }
+
+    const poolMetrics: Record<string, PoolMetrics> = {};
+    for (const [poolId, pool] of poolTotals) {
+      const config = pools.find(p => p.id === poolId);
+      poolMetrics[poolId] = {
+        poolId,
+        totalRequests: pool.requests,
+        totalSuccessfulRequests: pool.requests - pool.errors,
+        totalFailedRequests: pool.errors,
+        activeConnections: 0,
+        avgResponseTime: averageResponseTime(pool),
+        healthyOrigins: config ? config.backends.filter(b => b.healthy).length : 0,
+        totalOrigins: config ? config.backends.length : 0
+      };
+    }
+
+    return {
+      timeseries,
+      totals: {
+        requests: totals.requests,
+        errors: totals.errors,
+        avg_response_time: averageResponseTime(totals),
+        availability: totals.requests > 0 ? ((totals.requests - totals.errors) / totals.requests) * 100 : 100
+      },
+      pools: poolMetrics,
+      backends
+    };
+  }
+}
+
+function averageResponseTime(totals: BucketTotals): number {
+  const successes = totals.requests - totals.errors;
+  return successes > 0 ? totals.response_time_total_ms / successes : 0;
+}
@@ -156,7 +156,7 @@ export function createSmartDefaults(hostname: string, backends: string[]) {
 		retryPolicy: { 
 			enabled: true,
 			max_retries: 1, // Single retry to keep response times low
-			retry_timeout: 5000, // 5 second timeout per retry
+			retry_timeout: 5000, // Retries must start within 5 seconds of the first attempt failing
 			backoff_strategy: 'constant', // Simple constant backoff
 			base_delay: 1000 // 1 second delay
 		},
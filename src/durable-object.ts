@@ -8,9 +8,147 @@ import {
   LoadBalancer,
   CreateLoadBalancerRequest,
   ConfigurationUpdateRequest,
-  LogEntry
+  LogEntry,
+  RateLimitBucket,
+  LatencySketch,
+  AnalyticsRequest,
+  AlertRule,
+  AlertRuleState,
+  Alert,
+  GeographicData,
+  PoolMetrics,
+  TrafficSplitConfig,
+  TrafficSplitSide,
+  ShadowMetrics,
+  ActiveHealthCheckConfig,
+  BackendDashboard,
+  HealthCheckRecord,
+  HealthCheckState,
+  HealthMonitor,
+  HealthOverride,
+  MaintenanceWindow,
+  CustomRule
 } from "./types";
 import { LoadBalancerEngine } from "./load-balancer-engine";
+import { createLatencySketch, recordLatency, mergeLatencySketches, latencyPercentiles, latencyQuantile } from "./latency-sketch";
+import { AnalyticsStore } from "./analytics";
+import { AlertRuleEvaluator } from "./alert-rules";
+import { AlertStore } from "./alert-store";
+import { LogStore, LogQuery } from "./log-store";
+import { LogShipper, validateLogSinks } from "./log-shipper";
+import { TrafficSplitController } from "./traffic-split";
+import { RetryBudget } from "./retry-budget";
+import { runHealthProbeWithRetries, validateActiveHealthCheck, CHECK_REGION_LOCATION_HINTS, ProbeResult } from "./health-probes";
+import { HealthCheckTracker } from "./health-state";
+import { HealthMonitorScheduler, resolveHealthCheck, validateHealthMonitors } from "./health-monitors";
+import {
+  advanceMaintenanceWindow,
+  clearExpiredOverrides,
+  getHealthOverride,
+  getWindowBackends,
+  isAlertSuppressed,
+  nextMaintenanceEvent,
+  nextOverrideExpiry,
+  validateHealthOverride,
+  validateHealthOverrides,
+  validateMaintenanceWindows,
+  withoutWindowState
+} from "./maintenance";
+
+const GEO_OVERRIDE_HEADER = 'X-LB-Geo-Override';
+const DEFAULT_MIRROR_MAX_BODY_BYTES = 1024 * 1024;
+const DEFAULT_HEDGE_DELAY_MS = 200;
+const DEFAULT_MAX_HEDGE_PERCENT = 10;
+const HEDGE_BUDGET_CAP = 10; // Hedges that may be sent back-to-back after a quiet period
+const HEDGE_P95_MIN_SAMPLES = 20;
+const MAX_RETRY_DELAY_MS = 30000;
+const DEFAULT_RETRY_TIMEOUT_MS = 10000;
+const RATE_LIMIT_PERSIST_INTERVAL_MS = 10000;
+// Names of the objects that run check_regions probes. No hostname contains '/', so no service maps to one.
+const REGION_PROBE_PREFIX = '__lb_probe__/';
+
+// Backend status can quote health check responses
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+// Config fields that hold credentials. `headers` maps (log sinks, health checks) often carry Authorization.
+const SECRET_CONFIG_KEYS = new Set(['api_token', 'api_key', 'secret', 'integration_key', 'webhook_url']);
+
+// The config as indented JSON with credentials masked, for display
+function redactConfig(config: LoadBalancerServiceConfig): string {
+  return JSON.stringify(config, (key, value) => {
+    if (SECRET_CONFIG_KEYS.has(key) && typeof value === 'string') {
+      return '[redacted]';
+    }
+    if (key === 'headers' && value && typeof value === 'object') {
+      return Object.fromEntries(Object.keys(value).map(name => [name, '[redacted]']));
+    }
+    return value;
+  }, 2);
+}
+
+// Response body of the admin endpoints
+function json(body: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+// Every mirror must name another existing pool and sample 0-100% of the traffic
+function validateMirrors(pools: Partial<OriginPool>[]): string | null {
+  for (const pool of pools) {
+    const mirror = pool.mirror;
+    if (!mirror) {
+      continue;
+    }
+    if (mirror.pool_id === pool.id || !pools.some(p => p.id === mirror.pool_id)) {
+      return `mirror.pool_id of pool '${pool.id}' must name another existing pool`;
+    }
+    if (typeof mirror.percent !== 'number' || !(mirror.percent >= 0 && mirror.percent <= 100)) {
+      return `mirror.percent of pool '${pool.id}' must be between 0 and 100`;
+    }
+    if (mirror.max_body_bytes !== undefined && !(mirror.max_body_bytes >= 0)) {
+      return `mirror.max_body_bytes of pool '${pool.id}' must not be negative`;
+    }
+  }
+  return null;
+}
+
+// The rate limiter needs a non-negative rate, a bucket of at least one token and a known client key
+function validateRateLimiting(rateLimiting: Partial<NonNullable<LoadBalancerServiceConfig['rateLimiting']>>): string | null {
+  if (rateLimiting.enabled && rateLimiting.requestsPerMinute === undefined) {
+    return 'rateLimiting.requestsPerMinute is required when rate limiting is enabled';
+  }
+  if (rateLimiting.requestsPerMinute !== undefined && !(typeof rateLimiting.requestsPerMinute === 'number' && rateLimiting.requestsPerMinute >= 0)) {
+    return 'rateLimiting.requestsPerMinute must be a non-negative number';
+  }
+  if (rateLimiting.burstSize !== undefined && !(typeof rateLimiting.burstSize === 'number' && rateLimiting.burstSize >= 1)) {
+    return 'rateLimiting.burstSize must be at least 1';
+  }
+  if (rateLimiting.keyBy !== undefined && !['ip', 'header', 'api_key'].includes(rateLimiting.keyBy)) {
+    return 'rateLimiting.keyBy must be ip, header or api_key';
+  }
+  if (rateLimiting.keyBy === 'header' && !rateLimiting.keyHeader) {
+    return 'rateLimiting.keyHeader is required when keying by header';
+  }
+  return null;
+}
+
+// Custom rule expressions are parsed when they are saved, not first when a request evaluates them
+function validateCustomRules(rules: CustomRule[]): string | null {
+  for (const rule of rules) {
+    const error = LoadBalancerEngine.validateExpression(rule.expression);
+    if (error) {
+      return `expression of custom rule '${rule.id}' is invalid: ${error}`;
+    }
+  }
+  return null;
+}
+
+// The response that answered first, the backend that sent it and the routing headers for that backend
+type HedgedResponse = { response: Response; backend: Backend; headers?: Record<string, string>; startedAt: number };
 
 export class LoadBalancerDO implements DurableObject {
   state: DurableObjectState;
@@ -25,20 +163,57 @@ export class LoadBalancerDO implements DurableObject {
   private loadBalancerEngine?: LoadBalancerEngine;
   private logEntries: LogEntry[] = [];
   private maxLogEntries: number = 1000;
+  private rateLimitBuckets = new Map<string, RateLimitBucket>();
+  private dirtyRateLimitKeys = new Set<string>(); // Buckets changed since the alarm last persisted them
+  private analytics?: AnalyticsStore;
+  private logStore?: LogStore;
+  private logShipper: LogShipper;
+  private alertRuleEvaluator = new AlertRuleEvaluator();
+  private alertStore: AlertStore;
+  private alertRuleInterval: number = 60 * 1000; // Used when active health checks don't drive the alarm
+  private trafficSplit = new TrafficSplitController();
+  private hedgeBudget = 0; // Earns max_hedge_percent / 100 per eligible request, each hedge spends 1
+  private retryBudget = new RetryBudget();
+  private retryBudgetLoggedAt = 0;
+  private healthCheckTracker = new HealthCheckTracker();
+  private monitorScheduler = new HealthMonitorScheduler();
 
   constructor(state: DurableObjectState, env: Env) {
     this.state = state;
     this.env = env;
     this.debug = env.DEBUG === 'true';
     this.serviceHostname = state.id.name || "default-service";
+    this.alertStore = new AlertStore(state.storage);
+    this.logShipper = new LogShipper(
+      this.serviceHostname,
+      () => this.config?.logSinks || [],
+      promise => this.state.waitUntil(promise)
+    );
+
+    try {
+      this.analytics = new AnalyticsStore(state.storage.sql);
+    } catch (error) {
+      console.error(`[${this.serviceHostname}] Analytics storage unavailable:`, error);
+    }
+
+    try {
+      this.logStore = new LogStore(state.storage.sql);
+    } catch (error) {
+      console.error(`[${this.serviceHostname}] Log storage unavailable:`, error);
+    }
 
     this.state.blockConcurrencyWhile(async () => {
       try {
         await this.loadState();
+        this.logStore?.setRetentionDays(this.config.observability?.log_retention_days);
+        this.alertRuleEvaluator = new AlertRuleEvaluator(await this.state.storage.get<AlertRuleState[]>("alertRuleStates") || []);
+        this.healthCheckTracker = new HealthCheckTracker(await this.state.storage.get<HealthCheckState[]>("healthCheckStates") || []);
+        this.monitorScheduler = new HealthMonitorScheduler(await this.state.storage.get<Record<string, number>>("healthMonitorSchedule") || {});
         // Initialize the load balancer engine
         this.loadBalancerEngine = new LoadBalancerEngine(this.config);
         // Set the environment for bindings (email, KV, etc.)
         this.loadBalancerEngine.setEnvironment(this.env);
+        this.loadBalancerEngine.setAlertStore(this.alertStore);
         
         // Log successful initialization
         this.addLogEntry('info', `Load balancer initialized for service ${this.serviceHostname}`, 'system', {
@@ -46,14 +221,15 @@ export class LoadBalancerDO implements DurableObject {
           pools: this.config.pools.length,
           backends: this.config.pools.reduce((count, pool) => count + pool.backends.length, 0)
         });
-        // Ensure an alarm is set if active health checks are enabled
-        if (this.config?.activeHealthChecks?.enabled && this.config.activeHealthChecks.interval > 0) {
-          const currentAlarm = await this.state.storage.getAlarm();
-          if (currentAlarm == null) {
-            console.log(`[${this.serviceHostname}] Setting initial alarm for active health checks.`);
-            await this.state.storage.setAlarm(Date.now() + (this.config.activeHealthChecks.interval * 1000));
-          }
+        // Nothing is in flight after a restart, so drains that wait for in-flight requests are over
+        if (this.completeDrains()) {
+          await this.saveConfig();
         }
+        // Ensure an alarm is set for the next due health monitor
+        await this.scheduleHealthCheckAlarm();
+        await this.scheduleAlertRuleAlarm();
+        await this.scheduleTrafficSplitAlarm();
+        await this.scheduleMaintenanceAlarm();
       } catch (error) {
         console.error(`[${this.serviceHostname}] Error during initialization:`, error);
         // Initialize with empty config if loading fails
@@ -61,6 +237,7 @@ export class LoadBalancerDO implements DurableObject {
         // Re-initialize the load balancer engine with the empty config
         this.loadBalancerEngine = new LoadBalancerEngine(this.config);
         this.loadBalancerEngine.setEnvironment(this.env);
+        this.loadBalancerEngine.setAlertStore(this.alertStore);
       }
     });
   }
@@ -310,6 +487,8 @@ export class LoadBalancerDO implements DurableObject {
               b.successfulRequests = b.successfulRequests ?? 0;
               b.failedRequests = b.failedRequests ?? 0;
               b.totalResponseTimeMs = b.totalResponseTimeMs ?? 0;
+              // Requests in flight when the state was saved ended with the instance that served them
+              b.outstandingRequests = 0;
             });
           }
         });
@@ -353,6 +532,7 @@ export class LoadBalancerDO implements DurableObject {
                   avgResponseTimeMs: 0,
                 };
               }
+              this.metrics.backendMetrics[b.id].connectionsActive = 0;
               runningTotalRequests += this.metrics.backendMetrics[b.id].requests;
               runningTotalSuccess += this.metrics.backendMetrics[b.id].successfulRequests;
               runningTotalFailed += this.metrics.backendMetrics[b.id].failedRequests;
@@ -365,6 +545,7 @@ export class LoadBalancerDO implements DurableObject {
       this.metrics.totalFailedRequests = Math.max(this.metrics.totalFailedRequests, runningTotalFailed);
 
       this.calculateAvgResponseTimes();
+      this.calculateLatencyPercentiles();
       this.initialized = true;
       console.log(`[${this.serviceHostname}] DO Initialized. Config loaded for serviceId: ${this.config.serviceId}. Backends: ${this.config.pools.reduce((count, pool) => count + pool.backends.length, 0)}`);
     } catch (error) {
@@ -399,6 +580,8 @@ export class LoadBalancerDO implements DurableObject {
   }
 
   private async saveMetrics() {
+    this.flushAnalytics();
+    this.calculateLatencyPercentiles();
     await this.state.storage.put("metrics", this.metrics);
   }
 
@@ -409,6 +592,47 @@ export class LoadBalancerDO implements DurableObject {
     }
   }
 
+  private flushAnalytics() {
+    try {
+      this.analytics?.flush();
+    } catch (error) {
+      console.error(`[${this.serviceHostname}] Failed to flush analytics:`, error);
+    }
+  }
+
+  /** Derive p50/p95/p99 from the backend and pool latency sketches */
+  private calculateLatencyPercentiles() {
+    const allMetrics = [
+      ...Object.values(this.metrics.backendMetrics),
+      ...Object.values(this.metrics.poolMetrics || {}),
+      ...Object.values(this.metrics.shadowMetrics || {})
+    ];
+    for (const metrics of allMetrics) {
+      if (metrics.latencySketch) {
+        const { p50, p95, p99 } = latencyPercentiles(metrics.latencySketch);
+        metrics.p50ResponseTime = p50;
+        metrics.p95ResponseTime = p95;
+        metrics.p99ResponseTime = p99;
+      }
+    }
+  }
+
+  /** Service-wide latency sketch, merged from every backend */
+  private getServiceLatencySketch(): LatencySketch {
+    const sketch = createLatencySketch();
+    for (const backendId in this.metrics.backendMetrics) {
+      const backendSketch = this.metrics.backendMetrics[backendId].latencySketch;
+      if (backendSketch) {
+        mergeLatencySketches(sketch, backendSketch);
+      }
+    }
+    return sketch;
+  }
+
+  private findPoolForBackend(backendId: string): OriginPool | undefined {
+    return this.config.pools?.find(pool => pool.backends?.some(b => b.id === backendId));
+  }
+
   private recordMetric(backendId: string, success: boolean, durationMs: number) {
     this.metrics.totalRequests++;
     if (!this.metrics.backendMetrics[backendId]) {
@@ -431,12 +655,19 @@ export class LoadBalancerDO implements DurableObject {
       backendMetric.totalResponseTimeMs += durationMs;
       backendMetric.avgResponseTimeMs = backendMetric.totalResponseTimeMs / backendMetric.successfulRequests;
       backendMetric.lastSuccessTimestamp = Date.now();
+      this.recordLatencySample(backendId, durationMs);
     } else {
       this.metrics.totalFailedRequests++;
       backendMetric.failedRequests++;
       backendMetric.lastFailureTimestamp = Date.now();
     }
 
+    try {
+      this.analytics?.record(this.findPoolForBackend(backendId)?.id || 'unknown', backendId, success, durationMs);
+    } catch (error) {
+      console.error(`[${this.serviceHostname}] Failed to record analytics:`, error);
+    }
+
     const backendInConfig = this.findBackendInPools(backendId);
     if (backendInConfig) {
       backendInConfig.requests = backendMetric.requests;
@@ -453,6 +684,43 @@ export class LoadBalancerDO implements DurableObject {
     }
   }
 
+  /** Feed a successful response time into the backend and pool latency sketches */
+  private recordLatencySample(backendId: string, durationMs: number) {
+    const backendMetric = this.metrics.backendMetrics[backendId];
+    if (!backendMetric.latencySketch) {
+      backendMetric.latencySketch = createLatencySketch();
+    }
+    recordLatency(backendMetric.latencySketch, durationMs);
+
+    const pool = this.findPoolForBackend(backendId);
+    if (!pool) return;
+
+    const poolMetric = this.getPoolMetrics(pool);
+    if (!poolMetric.latencySketch) {
+      poolMetric.latencySketch = createLatencySketch();
+    }
+    recordLatency(poolMetric.latencySketch, durationMs);
+  }
+
+  private getPoolMetrics(pool: OriginPool): PoolMetrics {
+    if (!this.metrics.poolMetrics) {
+      this.metrics.poolMetrics = {};
+    }
+    if (!this.metrics.poolMetrics[pool.id]) {
+      this.metrics.poolMetrics[pool.id] = {
+        poolId: pool.id,
+        totalRequests: 0,
+        totalSuccessfulRequests: 0,
+        totalFailedRequests: 0,
+        activeConnections: 0,
+        avgResponseTime: 0,
+        healthyOrigins: pool.backends.filter(b => b.healthy).length,
+        totalOrigins: pool.backends.length
+      };
+    }
+    return this.metrics.poolMetrics[pool.id];
+  }
+
   private findBackendInPools(backendId: string): Backend | undefined {
     if (!this.config.pools) return undefined;
     
@@ -469,235 +737,705 @@ export class LoadBalancerDO implements DurableObject {
     return request.headers.get("CF-Connecting-IP");
   }
 
-  private selectBackend(request: Request): Backend | null {
-    if (!this.config || !this.config.pools.length) {
-      console.warn(`[${this.serviceHostname}] SelectBackend: No pools configured.`);
-      return null;
+  /**
+   * Geolocation for steering and rule conditions, read from request.cf. When TRUST_GEO_OVERRIDE_HEADER
+   * is "true", fields from an X-LB-Geo-Override JSON header replace it (request.cf is absent locally).
+   */
+  private getGeographicData(request: Request): GeographicData | undefined {
+    const cf = (request as { cf?: IncomingRequestCfProperties }).cf;
+    let geo: GeographicData | undefined = cf?.country ? {
+      country: String(cf.country),
+      region: cf.region || '',
+      regionCode: cf.regionCode,
+      city: cf.city,
+      postalCode: cf.postalCode,
+      continent: cf.continent,
+      latitude: Number(cf.latitude) || 0,
+      longitude: Number(cf.longitude) || 0,
+      asn: cf.asn,
+      isp: cf.asOrganization,
+      timezone: cf.timezone,
+      colo: cf.colo
+    } : undefined;
+
+    const override = request.headers.get(GEO_OVERRIDE_HEADER);
+    if (override && this.env.TRUST_GEO_OVERRIDE_HEADER === 'true') {
+      try {
+        const fields = JSON.parse(override) as Partial<GeographicData>;
+        geo = { country: '', region: '', latitude: 0, longitude: 0, ...geo, ...fields };
+        geo.latitude = Number(geo.latitude) || 0;
+        geo.longitude = Number(geo.longitude) || 0;
+        if (geo.asn !== undefined) geo.asn = Number(geo.asn);
+      } catch {
+        console.warn(`[${this.serviceHostname}] Ignoring malformed ${GEO_OVERRIDE_HEADER} header`);
+      }
     }
 
-    const sessionAffinity = this.config.load_balancer.session_affinity;
-    
-    // Get all healthy backends from all pools
-    let configChangedDueToHealthRevival = false;
-    const healthyBackends: Backend[] = [];
-    this.config.pools.forEach(pool => {
-      pool.backends.forEach((b: Backend) => {
-        if (b.healthy) {
-          healthyBackends.push(b);
-        } else if (Date.now() - (b.lastFailureTimestamp || 0) > this.config.passiveHealthChecks.failure_timeout_ms) {
-          console.log(`[${this.serviceHostname}] Select: Backend ${b.id} failure timeout expired. Marking as healthy.`);
-          b.healthy = true; 
-          b.consecutiveFailures = 0; 
-          configChangedDueToHealthRevival = true;
-          healthyBackends.push(b);
-        }
-      });
-    });
+    return geo;
+  }
 
-    if (healthyBackends.length === 0) {
-      if (configChangedDueToHealthRevival) this.state.waitUntil(this.saveConfig()); // Save revivals before returning null
-      console.warn(`[${this.serviceHostname}] SelectBackend: No healthy backends remain after filtering.`);
-      return null;
-    }
-    
-    // 1. Session Affinity Check - Only use if enabled, healthy backends available, and respecting weights
-    if (sessionAffinity && sessionAffinity.type !== 'none' && sessionAffinity.enabled) {
-      let stickyBackendId: string | null = null;
-      
-      if (sessionAffinity.type === 'cookie' && sessionAffinity.cookieName) {
-        const cookieHeader = request.headers.get("Cookie");
-        if (cookieHeader) {
-          const cookies = cookieHeader.split(';');
-          for (const cookie of cookies) {
-            const [name, value] = cookie.trim().split('=');
-            if (name === sessionAffinity.cookieName) {
-              stickyBackendId = value;
-              break;
-            }
-          }
-        }
-      } else if (sessionAffinity.type === 'ip_cookie') {
-        const clientIp = this.getClientIp(request);
-        if (clientIp) {
-          // Hash the client IP to get a consistent value
-          let hash = 0;
-          for (let i = 0; i < clientIp.length; i++) { 
-            hash = ((hash << 5) - hash) + clientIp.charCodeAt(i); 
-            hash |= 0; 
-          }
-          
-          // Use weighted selection based on the client IP hash
-          // This ensures consistent backend selection for the same client
-          // while still respecting backend weights
-          
-          // Calculate total weight
-          const totalWeight = healthyBackends.reduce((sum, b) => sum + b.weight, 0);
-          
-          // Use the hash to get a consistent position in the weight range
-          const position = Math.abs(hash) % totalWeight;
-          let currentWeight = 0;
-          
-          for (const backend of healthyBackends) {
-            currentWeight += backend.weight;
-            if (position < currentWeight) {
-              stickyBackendId = backend.id;
-              break;
-            }
-          }
-          
-          // If somehow we didn't select a backend (shouldn't happen), use the first one
-          if (!stickyBackendId && healthyBackends.length > 0) {
-            stickyBackendId = healthyBackends[0].id;
-          }
-        }
-      }
+  /**
+   * Resolve the rate-limit key for a request. Header and API-key modes fall back to the client IP
+   * when the request does not carry the configured header.
+   */
+  private async getRateLimitKey(request: Request): Promise<string> {
+    const rateLimiting = this.config.rateLimiting!;
+    const keyBy = rateLimiting.keyBy || 'ip';
 
-      if (stickyBackendId) {
-        const stickyBackend = this.findBackendInPools(stickyBackendId);
-        // Only use sticky backend if it's actually healthy
-        if (stickyBackend && stickyBackend.healthy) {
-          console.log(`[${this.serviceHostname}] Affinity: Using healthy backend ${stickyBackend.id} with weight ${stickyBackend.weight}`);
-          
-          if (configChangedDueToHealthRevival) this.state.waitUntil(this.saveConfig());
-          return stickyBackend;
-        } else if (stickyBackend && !stickyBackend.healthy) {
-          console.log(`[${this.serviceHostname}] Affinity: Sticky backend ${stickyBackend.id} is unhealthy, falling back to weighted selection`);
-        }
+    if (keyBy === 'header' && rateLimiting.keyHeader) {
+      const value = request.headers.get(rateLimiting.keyHeader);
+      if (value) return `header:${value}`;
+    } else if (keyBy === 'api_key') {
+      const bearer = request.headers.get('Authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+      const apiKey = request.headers.get(rateLimiting.keyHeader || 'X-API-Key') || bearer;
+      if (apiKey) {
+        // Never persist raw credentials as storage keys
+        const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(apiKey));
+        const hash = Array.from(new Uint8Array(digest).slice(0, 16), b => b.toString(16).padStart(2, '0')).join('');
+        return `key:${hash}`;
       }
     }
-    
-    // Implement Smooth Weighted Round-Robin algorithm for optimal distribution
-    const hasWeights = healthyBackends.some(b => b.weight !== 1);
-    let selected: Backend;
 
-    if (hasWeights) {
-      // Smooth Weighted Round-Robin (SWRR) algorithm
-      // This provides better distribution than simple weighted round-robin
-      // Initialize current weights if not present
-      if (!this.config.backendCurrentWeights) {
-        this.config.backendCurrentWeights = {};
-      }
-      
-      // Calculate total weight
-      const totalWeight = healthyBackends.reduce((sum, b) => sum + b.weight, 0);
-      
-      // Update current weights and find the backend with highest current weight
-      let maxCurrentWeight = -1;
-      selected = healthyBackends[0]; // fallback
-      
-      for (const backend of healthyBackends) {
-        // Initialize current weight if not present
-        if (this.config.backendCurrentWeights[backend.id] === undefined) {
-          this.config.backendCurrentWeights[backend.id] = 0;
-        }
-        
-        // Add the backend's weight to its current weight
-        this.config.backendCurrentWeights[backend.id] += backend.weight;
-        
-        // Track the backend with the highest current weight
-        if (this.config.backendCurrentWeights[backend.id] > maxCurrentWeight) {
-          maxCurrentWeight = this.config.backendCurrentWeights[backend.id];
-          selected = backend;
-        }
-      }
-      
-      // Reduce the selected backend's current weight by the total weight
-      this.config.backendCurrentWeights[selected.id] -= totalWeight;
-      
-      // Clean up weights for backends that are no longer healthy
-      const healthyBackendIds = new Set(healthyBackends.map(b => b.id));
-      for (const backendId in this.config.backendCurrentWeights) {
-        if (!healthyBackendIds.has(backendId)) {
-          delete this.config.backendCurrentWeights[backendId];
-        }
+    return `ip:${this.getClientIp(request) || 'unknown'}`;
+  }
+
+  /**
+   * Token-bucket rate limit check. Buckets live in memory; the alarm persists the ones that changed
+   * so limits survive DO eviction without a storage write per request.
+   */
+  private async checkRateLimit(request: Request): Promise<{ allowed: boolean; key: string; headers: Record<string, string> }> {
+    const { requestsPerMinute, burstSize } = this.config.rateLimiting!;
+    const capacity = Math.max(1, burstSize ?? requestsPerMinute);
+    const refillPerMs = requestsPerMinute / 60000;
+    const key = await this.getRateLimitKey(request);
+    const now = Date.now();
+
+    let bucket = this.rateLimitBuckets.get(key);
+    if (!bucket) {
+      bucket = await this.state.storage.get<RateLimitBucket>(`ratelimit:${key}`) || { tokens: capacity, updatedAt: now };
+      this.rateLimitBuckets.set(key, bucket);
+    }
+
+    bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+
+    const allowed = bucket.tokens >= 1;
+    if (allowed) {
+      bucket.tokens -= 1;
+    }
+    const firstChange = this.dirtyRateLimitKeys.size === 0;
+    this.dirtyRateLimitKeys.add(key);
+    if (firstChange) {
+      this.state.waitUntil(this.scheduleRateLimitAlarm());
+    }
+
+    const headers: Record<string, string> = {
+      'RateLimit-Limit': String(capacity),
+      'RateLimit-Remaining': String(Math.floor(bucket.tokens)),
+      'RateLimit-Reset': String(Math.ceil((capacity - bucket.tokens) / refillPerMs / 1000))
+    };
+    if (!allowed) {
+      headers['Retry-After'] = String(Math.max(1, Math.ceil((1 - bucket.tokens) / refillPerMs / 1000)));
+    }
+
+    return { allowed, key, headers };
+  }
+
+  /**
+   * Write the buckets that changed since the last alarm
+   */
+  private async persistRateLimitBuckets(): Promise<void> {
+    if (this.dirtyRateLimitKeys.size === 0) return;
+
+    const entries: Record<string, RateLimitBucket> = {};
+    for (const key of this.dirtyRateLimitKeys) {
+      const bucket = this.rateLimitBuckets.get(key);
+      if (bucket) entries[`ratelimit:${key}`] = { ...bucket };
+    }
+    this.dirtyRateLimitKeys.clear();
+    await this.state.storage.put(entries);
+  }
+
+  /**
+   * Make sure the alarm fires soon enough to persist changed buckets
+   */
+  private async scheduleRateLimitAlarm(): Promise<void> {
+    if (this.dirtyRateLimitKeys.size === 0) return;
+
+    const next = Date.now() + RATE_LIMIT_PERSIST_INTERVAL_MS;
+    const currentAlarm = await this.state.storage.getAlarm();
+    if (currentAlarm == null || currentAlarm <= Date.now() || currentAlarm > next) {
+      await this.state.storage.setAlarm(next);
+    }
+  }
+
+  /**
+   * Drop buckets that have refilled completely - they are indistinguishable from a fresh bucket
+   */
+  private async pruneRateLimitBuckets(): Promise<void> {
+    const rateLimiting = this.config.rateLimiting;
+    const now = Date.now();
+    const isFull = (bucket: RateLimitBucket) => !rateLimiting || rateLimiting.requestsPerMinute <= 0 ||
+      bucket.tokens + (now - bucket.updatedAt) * (rateLimiting.requestsPerMinute / 60000) >=
+        Math.max(1, rateLimiting.burstSize ?? rateLimiting.requestsPerMinute);
+
+    for (const [key, bucket] of this.rateLimitBuckets) {
+      if (isFull(bucket)) this.rateLimitBuckets.delete(key);
+    }
+
+    const stored = await this.state.storage.list<RateLimitBucket>({ prefix: 'ratelimit:', limit: 1000 });
+    const expiredKeys = [...stored].filter(([, bucket]) => isFull(bucket)).map(([key]) => key);
+    if (expiredKeys.length > 0) {
+      await this.state.storage.delete(expiredKeys);
+    }
+  }
+
+  /**
+   * Pick another backend for a retry through the engine's routing pipeline, skipping backends
+   * already tried. Rules were applied to the first attempt and are not evaluated again. Returns
+   * null when no backend is left.
+   */
+  private async selectRetryBackend(
+    request: Request,
+    tried: ReadonlySet<string>
+  ): Promise<{ backend: Backend; headers: Record<string, string> } | null> {
+    if (!this.loadBalancerEngine) return null;
+
+    try {
+      const clientIp = this.getClientIp(request) || '127.0.0.1';
+      return await this.loadBalancerEngine.routeRequest(request, clientIp, this.getGeographicData(request), tried, true);
+    } catch (error) {
+      if (this.debug) {
+        console.log(`[${this.serviceHostname}] No backend left for retry: ${error instanceof Error ? error.message : error}`);
       }
-    } else {
-      // Simple round-robin when all weights are equal
-      this.config.currentRoundRobinIndex = (this.config.currentRoundRobinIndex + 1) % healthyBackends.length;
-      selected = healthyBackends[this.config.currentRoundRobinIndex];
+      return null;
+    }
+  }
+
+  private releaseOutstandingRequest(backend: Backend): void {
+    backend.outstandingRequests = Math.max(0, (backend.outstandingRequests || 0) - 1);
+    // Drains without a deadline end as soon as nothing is in flight
+    if (backend.draining && backend.drainDeadline === undefined && backend.outstandingRequests === 0 && this.completeDrains()) {
+      this.state.waitUntil(this.saveConfig());
+    }
+  }
+
+  /**
+   * Add headers to a response. Set-Cookie is appended so the backend's own cookies survive.
+   */
+  private withResponseHeaders(response: Response, extraHeaders: Record<string, string>): Response {
+    if (Object.keys(extraHeaders).length === 0) {
+      return response;
     }
 
-    if (configChangedDueToHealthRevival) this.state.waitUntil(this.saveConfig()); // Save index and any revived health status
-    else this.state.waitUntil(this.state.storage.put("state.currentRoundRobinIndex", this.config.currentRoundRobinIndex)); // Optimization: save only index if no health changes
+    const headers = new Headers(response.headers);
+    Object.entries(extraHeaders).forEach(([key, value]) => {
+      if (key.toLowerCase() === 'set-cookie') {
+        headers.append(key, value);
+      } else {
+        headers.set(key, value);
+      }
+    });
 
-    return selected;
+    return new Response(response.body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      webSocket: response.webSocket // Keep upgraded sockets attached
+    });
   }
 
-  private async forwardRequest(request: Request, backend: Backend, attempt: number = 0): Promise<Response> {
-    const requestStartTime = Date.now();
-    
-    // Clone the request to modify it
+  /**
+   * Build the upstream request for a backend: same path and query, rewritten Host
+   * and the X-Forwarded-* headers.
+   */
+  private buildForwardRequest(request: Request, backend: Backend): Request {
     const url = new URL(request.url);
     const backendUrl = new URL(backend.url);
-    
+
     // Apply backend hostname but keep original path
     const forwardUrl = new URL(url.pathname + url.search, backend.url);
-    
+
     // Prepare request headers
     const headers = new Headers(request.headers);
-    
+    headers.delete(GEO_OVERRIDE_HEADER);
+
     // Apply Host header rewrite if configured
     if (this.config.hostHeaderRewrite === 'backend_hostname') {
       headers.set('Host', backendUrl.host);
     } else if (this.config.hostHeaderRewrite !== 'preserve' && typeof this.config.hostHeaderRewrite === 'string') {
       headers.set('Host', this.config.hostHeaderRewrite);
     }
-    
+
     // Add custom headers
     headers.set('X-Forwarded-For', this.getClientIp(request) || '');
     headers.set('X-Forwarded-Proto', url.protocol.replace(':', ''));
     headers.set('X-Forwarded-Host', url.host);
-    
-    // Construct the new request
-    const newRequest = new Request(forwardUrl.toString(), {
+
+    return new Request(forwardUrl.toString(), {
       method: request.method,
       headers,
       body: request.body,
       redirect: 'manual' // Don't follow redirects automatically
     });
-    
+  }
+
+  private isWebSocketUpgrade(request: Request): boolean {
+    return request.headers.get('Upgrade')?.toLowerCase() === 'websocket';
+  }
+
+  private isEventStreamRequest(request: Request): boolean {
+    return (request.headers.get('Accept') || '').includes('text/event-stream');
+  }
+
+  private isEventStreamResponse(response: Response): boolean {
+    return (response.headers.get('Content-Type') || '').startsWith('text/event-stream');
+  }
+
+  /**
+   * Track a long-lived connection (WebSocket or SSE stream) against a backend.
+   * Feeds both the DO metrics and the engine so least_connections steering sees live counts.
+   */
+  private trackConnectionOpened(backendId: string): void {
+    const backendMetric = this.metrics.backendMetrics[backendId];
+    if (backendMetric) {
+      backendMetric.connectionsActive = (backendMetric.connectionsActive || 0) + 1;
+      backendMetric.connectionsTotal = (backendMetric.connectionsTotal || 0) + 1;
+    }
+    this.loadBalancerEngine?.trackActiveConnection(backendId, 1);
+  }
+
+  private trackConnectionClosed(backendId: string): void {
+    const backendMetric = this.metrics.backendMetrics[backendId];
+    if (backendMetric) {
+      backendMetric.connectionsActive = Math.max(0, (backendMetric.connectionsActive || 0) - 1);
+    }
+    this.loadBalancerEngine?.trackActiveConnection(backendId, -1);
+  }
+
+  /**
+   * Proxy a WebSocket upgrade through a WebSocketPair so the DO can observe the socket lifetime.
+   */
+  private async proxyWebSocket(request: Request, backend: Backend): Promise<Response> {
+    const requestStartTime = Date.now();
+    const url = new URL(request.url);
+
     try {
-      // Apply enhanced timeout based on configuration
-      const controller = new AbortController();
-      const timeoutMs = this.config.passiveHealthChecks.connection_error_handling?.connection_timeout_ms || 30000;
-      const timeout = setTimeout(() => controller.abort(), timeoutMs);
-      
-      const isNonIdempotent = ['POST', 'PUT', 'PATCH'].includes(request.method);
-      
-      // Forward the request
-      const response = await fetch(newRequest, { signal: controller.signal });
-      clearTimeout(timeout);
-      
+      const backendResponse = await fetch(this.buildForwardRequest(request, backend));
       const responseTime = Date.now() - requestStartTime;
-      
-      // Record metrics for this request
-      this.recordMetric(backend.id, response.ok && response.status < 400, responseTime);
-      
-      // Check if this is a successful response
-      if (response.ok || (response.status < 500 && !this.config.passiveHealthChecks.retryable_status_codes.includes(response.status))) {
-        // Handle successful response using load balancer engine
-        if (this.loadBalancerEngine) {
-          this.loadBalancerEngine.handleBackendSuccess(backend, responseTime);
-        } else {
-          // Fallback to original logic
-          if (backend.consecutiveFailures > 0 || !backend.healthy) {
-            console.log(`[${this.serviceHostname}] Backend ${backend.id} healthy again after success.`);
-            backend.consecutiveFailures = 0; 
-            backend.healthy = true; 
-            backend.status = "Healthy";
-            this.state.waitUntil(this.saveConfig());
-          }
-        }
-        
-        // Prepare response headers
-        const newHeaders = new Headers(response.headers);
-        
-        // Add debugging headers if configured
-        if (this.config.observability.add_backend_header) {
-          newHeaders.set('X-Backend-Used', backend.id);
-        }
-        
-        // Log successful request
+      const backendSocket = backendResponse.webSocket;
+
+      if (!backendSocket) {
+        // Backend refused the upgrade - surface its response as-is
+        this.recordMetric(backend.id, false, responseTime);
+        this.loadBalancerEngine?.handleBackendError(backend, backendResponse, responseTime);
+        this.addLogEntry('warn', `Backend ${backend.id} refused WebSocket upgrade with status ${backendResponse.status}`, 'request', {
+          backendId: backend.id,
+          statusCode: backendResponse.status,
+          responseTime,
+          clientIp: this.getClientIp(request) || undefined,
+          path: url.pathname
+        });
+        return backendResponse;
+      }
+
+      this.recordMetric(backend.id, true, responseTime);
+      this.loadBalancerEngine?.handleBackendSuccess(backend, responseTime);
+
+      const pair = new WebSocketPair();
+      const [client, server] = Object.values(pair);
+      server.accept();
+      backendSocket.accept();
+
+      this.trackConnectionOpened(backend.id);
+      const openedAt = Date.now();
+      let closed = false;
+
+      const closeBoth = (code: number, reason: string) => {
+        if (closed) return;
+        closed = true;
+        this.trackConnectionClosed(backend.id);
+        // 1005/1006 are reserved and cannot be sent in a close frame
+        const closeCode = code === 1005 || code === 1006 ? 1000 : code;
+        try { server.close(closeCode, reason); } catch { /* already closed */ }
+        try { backendSocket.close(closeCode, reason); } catch { /* already closed */ }
+        this.addLogEntry('info', `WebSocket to backend ${backend.id} closed`, 'request', {
+          backendId: backend.id,
+          closeCode: code,
+          durationMs: Date.now() - openedAt,
+          path: url.pathname
+        });
+      };
+
+      server.addEventListener('message', event => {
+        try { backendSocket.send(event.data); } catch { closeBoth(1011, 'Backend send failed'); }
+      });
+      backendSocket.addEventListener('message', event => {
+        try { server.send(event.data); } catch { closeBoth(1011, 'Client send failed'); }
+      });
+      server.addEventListener('close', event => closeBoth(event.code, event.reason));
+      backendSocket.addEventListener('close', event => closeBoth(event.code, event.reason));
+      server.addEventListener('error', () => closeBoth(1011, 'Client socket error'));
+      backendSocket.addEventListener('error', () => closeBoth(1011, 'Backend socket error'));
+
+      this.addLogEntry('info', `WebSocket proxied to backend ${backend.id}`, 'request', {
+        backendId: backend.id,
+        responseTime,
+        clientIp: this.getClientIp(request) || undefined,
+        path: url.pathname
+      });
+
+      const headers = new Headers();
+      if (this.config.observability.add_backend_header) {
+        headers.set('X-Backend-Used', backend.id);
+      }
+
+      return new Response(null, { status: 101, webSocket: client, headers });
+    } catch (error) {
+      const responseTime = Date.now() - requestStartTime;
+      this.recordMetric(backend.id, false, responseTime);
+      this.loadBalancerEngine?.handleBackendError(backend, error as Error, responseTime);
+      this.addLogEntry('error', `WebSocket connection error for backend ${backend.id}`, 'error', {
+        backendId: backend.id,
+        responseTime,
+        clientIp: this.getClientIp(request) || undefined,
+        path: url.pathname,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw new Error(`Connection error upgrading WebSocket to backend ${backend.id}: ${error}`);
+    }
+  }
+
+  /**
+   * Wrap a streaming (SSE) body so the connection is counted until the stream ends.
+   */
+  private trackStreamingBody(body: ReadableStream, backendId: string): ReadableStream {
+    const { readable, writable } = new TransformStream();
+    this.trackConnectionOpened(backendId);
+    this.state.waitUntil(
+      body.pipeTo(writable)
+        .catch(() => { /* client or backend went away */ })
+        .finally(() => this.trackConnectionClosed(backendId))
+    );
+    return readable;
+  }
+
+  /**
+   * Send a sampled copy of the request to the pool's shadow pool under waitUntil, discarding the response.
+   * Bodies are buffered (up to max_body_bytes) so both copies can be sent; returns the request to forward.
+   */
+  private async mirrorRequest(request: Request, pool: OriginPool): Promise<Request> {
+    const mirror = pool.mirror!;
+    const shadowPool = this.config.pools.find(p => p.id === mirror.pool_id);
+    if (!shadowPool || shadowPool.id === pool.id || this.isWebSocketUpgrade(request) || !(Math.random() * 100 < mirror.percent)) {
+      return request;
+    }
+
+    const shadowMetrics = this.getShadowMetrics(shadowPool.id);
+    // Same availability as routing: health overrides, the circuit breaker and draining all apply
+    const engine = this.loadBalancerEngine;
+    const candidates = shadowPool.enabled && engine ? shadowPool.backends.filter(b => engine.isBackendAvailable(b)) : [];
+    const contentLength = request.headers.get('Content-Length');
+    const maxBodyBytes = mirror.max_body_bytes ?? DEFAULT_MIRROR_MAX_BODY_BYTES;
+    if (candidates.length === 0 || (request.body && (contentLength === null || Number(contentLength) > maxBodyBytes))) {
+      shadowMetrics.skippedRequests++;
+      return request;
+    }
+
+    let primary = request;
+    let copy = request;
+    if (request.body) {
+      const body = await request.arrayBuffer();
+      primary = new Request(request, { body });
+      copy = new Request(request, { body: body.slice(0) });
+    }
+
+    const shadowBackend = candidates[Math.floor(Math.random() * candidates.length)];
+    const shadowRequest = this.buildForwardRequest(copy, shadowBackend);
+    shadowRequest.headers.set('X-LB-Shadow', '1');
+    this.state.waitUntil(this.sendShadowRequest(shadowRequest, shadowBackend, shadowMetrics));
+
+    return primary;
+  }
+
+  /** Shadow responses only feed ShadowMetrics: no backend health, circuit breaker or request log updates */
+  private async sendShadowRequest(request: Request, backend: Backend, shadowMetrics: ShadowMetrics): Promise<void> {
+    const startTime = Date.now();
+    const timeoutMs = this.config.passiveHealthChecks.connection_error_handling?.connection_timeout_ms || 30000;
+    shadowMetrics.requests++;
+
+    try {
+      const response = await fetch(request, { signal: AbortSignal.timeout(timeoutMs) });
+      const responseTime = Date.now() - startTime;
+      await response.body?.cancel();
+
+      shadowMetrics.statusCodes[response.status] = (shadowMetrics.statusCodes[response.status] || 0) + 1;
+      shadowMetrics.totalResponseTimeMs += responseTime;
+      if (!shadowMetrics.latencySketch) {
+        shadowMetrics.latencySketch = createLatencySketch();
+      }
+      recordLatency(shadowMetrics.latencySketch, responseTime);
+    } catch (error) {
+      shadowMetrics.errors++;
+      if (this.debug) {
+        console.warn(`[${this.serviceHostname}] Shadow request to ${backend.id} failed:`, error);
+      }
+    }
+  }
+
+  private getShadowMetrics(poolId: string): ShadowMetrics {
+    if (!this.metrics.shadowMetrics) {
+      this.metrics.shadowMetrics = {};
+    }
+    if (!this.metrics.shadowMetrics[poolId]) {
+      this.metrics.shadowMetrics[poolId] = {
+        poolId,
+        requests: 0,
+        errors: 0,
+        skippedRequests: 0,
+        statusCodes: {},
+        totalResponseTimeMs: 0
+      };
+    }
+    return this.metrics.shadowMetrics[poolId];
+  }
+
+  /** Fetch from a backend, counting the request as in flight until the backend answers */
+  private async fetchTracked(request: Request, backend: Backend, signal: AbortSignal): Promise<Response> {
+    backend.outstandingRequests = (backend.outstandingRequests || 0) + 1;
+    try {
+      return await fetch(request, { signal });
+    } finally {
+      this.releaseOutstandingRequest(backend);
+    }
+  }
+
+  /**
+   * Race the first backend against a duplicate sent to another backend once the hedge delay passes.
+   * Whichever answers first wins and the other is aborted; hedges are capped by hedgeBudget and,
+   * since each one is an extra request to the backends, spend from the retry budget like a retry.
+   */
+  private fetchWithHedge(
+    request: Request,
+    primaryRequest: Request,
+    backend: Backend,
+    signal: AbortSignal,
+    tried: Set<string>
+  ): Promise<HedgedResponse> {
+    const hedging = this.config.retryPolicy.hedging!;
+    this.hedgeBudget = Math.min(HEDGE_BUDGET_CAP, this.hedgeBudget + (hedging.max_hedge_percent ?? DEFAULT_MAX_HEDGE_PERCENT) / 100);
+
+    const primaryController = new AbortController();
+    const hedgeController = new AbortController();
+    const abortBoth = () => {
+      primaryController.abort();
+      hedgeController.abort();
+    };
+    signal.addEventListener('abort', abortBoth);
+
+    return new Promise((resolve, reject) => {
+      let inFlight = 1;
+      let settled = false;
+      let hedgeTimer: ReturnType<typeof setTimeout> | null = null;
+      const finish = () => {
+        settled = true;
+        clearTimeout(hedgeTimer);
+        signal.removeEventListener('abort', abortBoth);
+      };
+      const answer = (result: HedgedResponse, loser: AbortController) => {
+        if (settled) return;
+        finish();
+        loser.abort();
+        resolve(result);
+      };
+      // A failure only surfaces once nothing else is in flight; a pending hedge is not sent after the first attempt failed
+      const fail = (error: unknown) => {
+        if (settled || --inFlight > 0) return;
+        finish();
+        reject(error);
+      };
+
+      const primaryStartedAt = Date.now();
+      this.fetchTracked(primaryRequest, backend, primaryController.signal)
+        .then(response => answer({ response, backend, startedAt: primaryStartedAt }, hedgeController), fail);
+
+      hedgeTimer = setTimeout(async () => {
+        if (settled || this.hedgeBudget < 1) return;
+        const next = await this.selectRetryBackend(request, tried);
+        if (!next || settled) return;
+        if (!this.retryBudget.tryAcquire(this.config.retryPolicy.retry_budget)) {
+          this.metrics.retryBudgetExhausted = (this.metrics.retryBudgetExhausted || 0) + 1;
+          return;
+        }
+
+        tried.add(next.backend.id);
+        inFlight++;
+        this.hedgeBudget -= 1;
+        this.metrics.hedgedRequests = (this.metrics.hedgedRequests || 0) + 1;
+        const hedgeStartedAt = Date.now();
+        this.fetchTracked(this.buildForwardRequest(request, next.backend), next.backend, hedgeController.signal)
+          .then(response => {
+            if (!settled) {
+              this.metrics.hedgeWins = (this.metrics.hedgeWins || 0) + 1;
+            }
+            answer({ response, backend: next.backend, headers: next.headers, startedAt: hedgeStartedAt }, primaryController);
+          }, fail);
+      }, this.getHedgeDelay(backend));
+    });
+  }
+
+  /** Hedge delay for a backend: fixed, or its p95 response time once it has enough samples */
+  private getHedgeDelay(backend: Backend): number {
+    const hedging = this.config.retryPolicy.hedging!;
+    const fixedDelay = hedging.delay_ms ?? DEFAULT_HEDGE_DELAY_MS;
+    const sketch = this.metrics.backendMetrics[backend.id]?.latencySketch;
+    if (hedging.delay_source === 'p95' && sketch && sketch.count >= HEDGE_P95_MIN_SAMPLES) {
+      return latencyQuantile(sketch, 0.95);
+    }
+    return fixedDelay;
+  }
+
+  /**
+   * Take a retry from the budget and wait out its delay. Returns false, without waiting, when the
+   * budget is spent or the delay would end past the deadline.
+   */
+  private async waitForRetry(attempt: number, baseDelay: number, deadline: number, retryAfter?: string | null): Promise<boolean> {
+    const delay = this.getRetryDelay(attempt, baseDelay, retryAfter);
+    const now = Date.now();
+    if (now + delay >= deadline) {
+      return false;
+    }
+
+    const budget = this.config.retryPolicy.retry_budget;
+    if (!this.retryBudget.tryAcquire(budget, now)) {
+      this.metrics.retryBudgetExhausted = (this.metrics.retryBudgetExhausted || 0) + 1;
+      // One log entry per budget window is enough to show the budget is being hit
+      if (now - this.retryBudgetLoggedAt >= (budget?.window ?? 10) * 1000) {
+        this.retryBudgetLoggedAt = now;
+        this.addLogEntry('warn', 'Retry budget exhausted, failing requests without retrying', 'request', {
+          maxRetryRatio: budget?.max_retry_ratio,
+          window: budget?.window,
+          skippedRetries: this.metrics.retryBudgetExhausted
+        });
+      }
+      return false;
+    }
+
+    this.metrics.retries = (this.metrics.retries || 0) + 1;
+    if (delay > 0) {
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+    return true;
+  }
+
+  /**
+   * Delay before retry number attempt + 1: the backend's Retry-After when present, otherwise
+   * base_delay (doubled per attempt for 'exponential') with equal jitter so retries spread out
+   */
+  private getRetryDelay(attempt: number, baseDelay: number, retryAfter?: string | null): number {
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      const retryAfterMs = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(retryAfter) - Date.now();
+      if (Number.isFinite(retryAfterMs)) {
+        return Math.max(0, retryAfterMs);
+      }
+    }
+
+    const delay = this.config.retryPolicy.backoff_strategy === 'exponential'
+      ? Math.min(baseDelay * Math.pow(2, attempt), MAX_RETRY_DELAY_MS)
+      : baseDelay;
+    return delay / 2 + Math.random() * (delay / 2);
+  }
+
+  private async forwardRequest(
+    request: Request,
+    backend: Backend,
+    attempt: number = 0,
+    tried: Set<string> = new Set(),
+    routingHeaders: Record<string, string> = {},
+    deadline?: number,
+    splitSide?: TrafficSplitSide // Only for the first attempt: the split judges a side by its own answers, not by retries
+  ): Promise<Response> {
+    if (this.isWebSocketUpgrade(request)) {
+      const upgradeStartedAt = Date.now();
+      const response = await this.proxyWebSocket(request, backend);
+      if (splitSide) {
+        this.trafficSplit.record(splitSide, response.status >= 500, Date.now() - upgradeStartedAt);
+      }
+      return this.withResponseHeaders(response, routingHeaders);
+    }
+
+    tried.add(backend.id);
+
+    const requestStartTime = Date.now();
+    const url = new URL(request.url);
+    const newRequest = this.buildForwardRequest(request, backend);
+    if (attempt === 0) {
+      this.retryBudget.recordRequest(this.config.retryPolicy.retry_budget, requestStartTime);
+    }
+    // Retries have to start before the deadline, and may not run past it. The deadline starts once the
+    // first attempt has finished, so a first attempt that timed out can still be retried.
+    const getRetryDeadline = () => deadline ?? Date.now() + (this.config.retryPolicy.retry_timeout || DEFAULT_RETRY_TIMEOUT_MS);
+
+    try {
+      // Apply enhanced timeout based on configuration. Event streams are long-lived by design,
+      // so they are exempt from the connection timeout.
+      const controller = new AbortController();
+      const connectionTimeoutMs = this.config.passiveHealthChecks.connection_error_handling?.connection_timeout_ms || 30000;
+      const timeoutMs = deadline !== undefined ? Math.max(0, Math.min(connectionTimeoutMs, deadline - requestStartTime)) : connectionTimeoutMs;
+      const timeout = this.isEventStreamRequest(request) ? undefined : setTimeout(() => controller.abort(), timeoutMs);
+
+      const isNonIdempotent = ['POST', 'PUT', 'PATCH'].includes(request.method);
+
+      // Forward the request, hedging first attempts of GET/HEAD when configured
+      const hedging = this.config.retryPolicy.hedging;
+      const hedgeable = hedging?.enabled && attempt === 0 && timeout !== undefined && ['GET', 'HEAD'].includes(request.method);
+      let response: Response;
+      let answeredAfter = requestStartTime;
+      if (hedgeable) {
+        const result = await this.fetchWithHedge(request, newRequest, backend, controller.signal, tried);
+        response = result.response;
+        answeredAfter = result.startedAt;
+        backend = result.backend;
+        routingHeaders = result.headers || routingHeaders;
+      } else {
+        response = await this.fetchTracked(newRequest, backend, controller.signal);
+      }
+      if (timeout !== undefined) clearTimeout(timeout);
+
+      const responseTime = Date.now() - answeredAfter;
+      
+      // Record metrics for this request
+      this.recordMetric(backend.id, response.ok && response.status < 400, responseTime);
+      if (splitSide) {
+        this.trafficSplit.record(splitSide, response.status >= 500, responseTime);
+      }
+      
+      // Check if this is a successful response
+      if (response.ok || (response.status < 500 && !this.config.passiveHealthChecks.retryable_status_codes.includes(response.status))) {
+        // Handle successful response using load balancer engine
+        if (this.loadBalancerEngine) {
+          this.loadBalancerEngine.handleBackendSuccess(backend, responseTime);
+        } else {
+          // Fallback to original logic
+          if (backend.consecutiveFailures > 0 || !backend.healthy) {
+            console.log(`[${this.serviceHostname}] Backend ${backend.id} healthy again after success.`);
+            backend.consecutiveFailures = 0; 
+            backend.healthy = true; 
+            backend.status = "Healthy";
+            this.state.waitUntil(this.saveConfig());
+          }
+        }
+        
+        // Prepare response headers
+        const newHeaders = new Headers(response.headers);
+        
+        // Add debugging headers if configured
+        if (this.config.observability.add_backend_header) {
+          newHeaders.set('X-Backend-Used', backend.id);
+        }
+        
+        // Log successful request
         this.addLogEntry('info', `Request forwarded successfully to backend ${backend.id}`, 'request', {
           backendId: backend.id,
           statusCode: response.status,
@@ -707,28 +1445,15 @@ export class LoadBalancerDO implements DurableObject {
           path: url.pathname
         });
         
-        // Handle session affinity - set cookie for future requests if enabled
-        const sessionAffinity = this.config.load_balancer.session_affinity;
-        if (sessionAffinity && sessionAffinity.enabled && sessionAffinity.type === 'cookie' && sessionAffinity.cookieName) {
-          // Add or update the session cookie with the backend ID
-          const cookieValue = backend.id;
-          const cookieTtl = sessionAffinity.ttl || 86400; // Default to 24 hours
-          const sameSite = 'lax';
-          const secure = true;
-          
-          newHeaders.set('Set-Cookie', 
-            `${sessionAffinity.cookieName}=${cookieValue}; Path=/; Max-Age=${cookieTtl}; SameSite=${sameSite}; ${secure ? 'Secure;' : ''}`);
-            
-          if (this.debug) {
-            console.log(`[${this.serviceHostname}] Setting session affinity cookie: ${sessionAffinity.cookieName}=${cookieValue}`);
-          }
-        }
-        
-        return new Response(response.body, {
+        const body = response.body && this.isEventStreamResponse(response)
+          ? this.trackStreamingBody(response.body, backend.id)
+          : response.body;
+
+        return this.withResponseHeaders(new Response(body, {
           status: response.status,
           statusText: response.statusText,
           headers: newHeaders
-        });
+        }), routingHeaders);
       } else {
         // Handle error response using load balancer engine
         if (this.loadBalancerEngine) {
@@ -774,37 +1499,31 @@ export class LoadBalancerDO implements DurableObject {
           (!isNonIdempotent || response.status >= 502) // Only retry non-idempotent on server errors (502+)
         );
         
-        if (shouldRetry) {
-          const retryDelay = isZeroDowntimeTrigger ? 
-            (zeroDowntimeConfig.retry_delay_ms || 500) : 
-            this.config.retryPolicy.base_delay;
-            
+        const baseDelay = isZeroDowntimeTrigger ? 
+          (zeroDowntimeConfig.retry_delay_ms || 500) : 
+          this.config.retryPolicy.base_delay;
+        
+        const retryDeadline = getRetryDeadline();
+        if (shouldRetry && await this.waitForRetry(attempt, baseDelay, retryDeadline, response.headers.get('Retry-After'))) {
           console.log(`[${this.serviceHostname}] Retrying request due to ${response.status} error. Attempt ${attempt + 1}/${maxRetries}`);
           
-          // Add retry delay for zero-downtime failover
-          if (retryDelay > 0) {
-            await new Promise(resolve => setTimeout(resolve, retryDelay));
-          }
-          
           // Try to get a different backend for retry
-          const nextBackend = this.selectBackend(request);
-          if (nextBackend && nextBackend.id !== backend.id) {
-            return this.forwardRequest(request, nextBackend, attempt + 1);
-          } else if (nextBackend && nextBackend.id === backend.id) {
-            // Only one backend available - still retry if it's a critical error like 523
-            if (isZeroDowntimeTrigger || response.status === 523) {
-              console.warn(`[${this.serviceHostname}] Only one backend (${backend.id}) available, retrying same for critical error ${response.status}.`);
-              return this.forwardRequest(request, nextBackend, attempt + 1);
-            }
+          const next = await this.selectRetryBackend(request, tried);
+          if (next) {
+            return this.forwardRequest(request, next.backend, attempt + 1, tried, next.headers, retryDeadline);
+          } else if (isZeroDowntimeTrigger || response.status === 523) {
+            // No other backend available - still retry if it's a critical error like 523
+            console.warn(`[${this.serviceHostname}] No other backend than ${backend.id} available, retrying same for critical error ${response.status}.`);
+            return this.forwardRequest(request, backend, attempt + 1, tried, routingHeaders, retryDeadline);
           }
         }
         
         // Return the error response (no more retries)
-        return new Response(response.body, {
+        return this.withResponseHeaders(new Response(response.body, {
           status: response.status,
           statusText: response.statusText,
           headers: response.headers
-        });
+        }), routingHeaders);
       }
     } catch (error) {
       // Handle connection errors (network errors, timeouts, etc.)
@@ -827,6 +1546,9 @@ export class LoadBalancerDO implements DurableObject {
       
       // Record the failure
       this.recordMetric(backend.id, false, responseTime);
+      if (splitSide) {
+        this.trafficSplit.record(splitSide, true, responseTime);
+      }
       
       // Handle error using load balancer engine
       if (this.loadBalancerEngine) {
@@ -857,25 +1579,21 @@ export class LoadBalancerDO implements DurableObject {
         (!isNonIdempotent || errorType === 'Timeout') // Retry non-idempotent only on timeout
       );
       
-      if (shouldRetry) {
-        const retryDelay = shouldImmediatelyFailover ? 
-          (connectionConfig?.retry_backoff_ms || 1000) : 
-          this.config.retryPolicy.base_delay;
-          
+      const baseDelay = shouldImmediatelyFailover ? 
+        (connectionConfig?.retry_backoff_ms || 1000) : 
+        this.config.retryPolicy.base_delay;
+      
+      const retryDeadline = getRetryDeadline();
+      if (shouldRetry && await this.waitForRetry(attempt, baseDelay, retryDeadline)) {
         console.log(`[${this.serviceHostname}] Retrying request after ${errorType} error. Attempt ${attempt + 1}/${maxRetries}`);
         
-        // Add retry backoff
-        if (retryDelay > 0) {
-          await new Promise(resolve => setTimeout(resolve, retryDelay));
-        }
-        
-        const nextBackend = this.selectBackend(request);
-        if (nextBackend && nextBackend.id !== backend.id) {
-          return this.forwardRequest(request, nextBackend, attempt + 1);
-        } else if (nextBackend && nextBackend.id === backend.id && shouldImmediatelyFailover) {
+        const next = await this.selectRetryBackend(request, tried);
+        if (next) {
+          return this.forwardRequest(request, next.backend, attempt + 1, tried, next.headers, retryDeadline);
+        } else if (shouldImmediatelyFailover) {
           // For connection errors, still retry the same backend once more
-          console.warn(`[${this.serviceHostname}] Only one backend (${backend.id}) available, retrying after ${errorType} error.`);
-          return this.forwardRequest(request, nextBackend, attempt + 1);
+          console.warn(`[${this.serviceHostname}] No other backend than ${backend.id} available, retrying after ${errorType} error.`);
+          return this.forwardRequest(request, backend, attempt + 1, tried, routingHeaders, retryDeadline);
         }
       }
       
@@ -899,10 +1617,13 @@ export class LoadBalancerDO implements DurableObject {
         return this.handleBackendsRequest(request);
       
       case 'health':
+        if (pathParts[2] === 'history') {
+          return this.handleHealthHistoryRequest(request);
+        }
         return this.handleHealthRequest();
       
       case 'metrics':
-        return this.generateMetricsHtml();
+        return this.handleMetricsRequest(request);
       
       case 'config':
         return this.handleConfigRequest(request);
@@ -914,11 +1635,38 @@ export class LoadBalancerDO implements DurableObject {
         if (request.method === 'DELETE') {
           return this.handleClearLogsRequest();
         }
+        if (pathParts[2] === 'export') {
+          return this.handleLogsExportRequest(request);
+        }
         return this.handleLogsRequest(request);
       
       case 'health-metrics':
         return this.handleHealthMetricsRequest();
       
+      case 'analytics':
+        return this.handleAnalyticsRequest(request);
+      
+      case 'alert-rules':
+        return this.handleAlertRulesRequest(request);
+
+      case 'monitors':
+        return this.handleMonitorsRequest(request);
+
+      case 'overrides':
+        return this.handleOverridesRequest(request);
+
+      case 'maintenance':
+        return this.handleMaintenanceRequest(request);
+
+      case 'load-shedding':
+        return this.handleLoadSheddingRequest(request);
+
+      case 'traffic-split':
+        return this.handleTrafficSplitRequest(request);
+      
+      case 'alerts':
+        return this.handleAlertsRequest(request, pathParts[2]);
+      
       default:
         return new Response('Unknown operation', { status: 404 });
     }
@@ -930,11 +1678,15 @@ export class LoadBalancerDO implements DurableObject {
     switch (method) {
       case 'GET':
         // Return all backends across all pools
+        const now = Date.now();
         const allBackends = this.config.pools.flatMap(pool => 
           pool.backends.map(backend => ({
             ...backend,
             poolId: pool.id,
             poolName: pool.name,
+            drainRemainingMs: backend.draining && backend.drainDeadline !== undefined
+              ? Math.max(0, backend.drainDeadline - now)
+              : undefined,
             metrics: this.metrics.backendMetrics[backend.id] || {
               requests: 0,
               successfulRequests: 0,
@@ -949,7 +1701,8 @@ export class LoadBalancerDO implements DurableObject {
           backends: allBackends,
           totalBackends: allBackends.length,
           healthyBackends: allBackends.filter(b => b.healthy).length,
-          unhealthyBackends: allBackends.filter(b => !b.healthy).length
+          unhealthyBackends: allBackends.filter(b => !b.healthy).length,
+          drainingBackends: allBackends.filter(b => b.draining).length
         }), {
           headers: { 'Content-Type': 'application/json' }
         });
@@ -998,6 +1751,13 @@ export class LoadBalancerDO implements DurableObject {
           }
 
           const updates = await request.json() as Partial<Backend>;
+          const overrideError = updates.health_override && validateHealthOverride(updates.health_override);
+          if (overrideError) {
+            return new Response(JSON.stringify({ error: overrideError }), {
+              status: 400,
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
           const updatedBackend = await this.updateBackend(backendId, updates);
           
           if (!updatedBackend) {
@@ -1006,6 +1766,9 @@ export class LoadBalancerDO implements DurableObject {
               headers: { 'Content-Type': 'application/json' }
             });
           }
+          if (updates.health_override) {
+            await this.scheduleMaintenanceAlarm();
+          }
 
           return new Response(JSON.stringify({ 
             success: true, 
@@ -1032,9 +1795,11 @@ export class LoadBalancerDO implements DurableObject {
   private async handleHealthRequest(): Promise<Response> {
     // Perform health checks on all backends and return status
     const healthResults = [];
+    let checked = false;
     
     for (const pool of this.config.pools) {
       for (const backend of pool.backends) {
+        const resolved = resolveHealthCheck(this.config, pool, backend);
         let healthStatus = {
           backendId: backend.id,
           url: backend.url,
@@ -1044,15 +1809,19 @@ export class LoadBalancerDO implements DurableObject {
           consecutiveFailures: backend.consecutiveFailures,
           lastFailureTimestamp: backend.lastFailureTimestamp,
           status: backend.status || 'Unknown',
-          enabled: backend.enabled
+          enabled: backend.enabled,
+          monitor: resolved?.monitorId,
+          override: getHealthOverride(pool, backend)
         };
 
-        // If active health checks are enabled, perform a health check
-        if (this.config.activeHealthChecks?.enabled) {
+        // If the backend's monitor is enabled, perform a health check
+        if (resolved) {
+          checked = true;
           try {
-            const isHealthy = await this.handleActiveHealthCheck(backend);
+            const isHealthy = await this.handleActiveHealthCheck(backend, resolved.check);
+            const [lastCheck] = this.healthCheckTracker.getHistory(backend.id, 1);
             healthStatus.healthy = isHealthy;
-            healthStatus.status = isHealthy ? 'Active check passed' : 'Active check failed';
+            healthStatus.status = lastCheck?.healthy ? 'Active check passed' : `Active check failed${lastCheck?.error ? `: ${lastCheck.error}` : ''}`;
           } catch (error) {
             healthStatus.healthy = false;
             healthStatus.status = `Active check error: ${error instanceof Error ? error.message : 'Unknown error'}`;
@@ -1062,6 +1831,9 @@ export class LoadBalancerDO implements DurableObject {
         healthResults.push(healthStatus);
       }
     }
+    if (checked) {
+      await this.saveHealthCheckStates();
+    }
 
     const summary = {
       totalBackends: healthResults.length,
@@ -1069,6 +1841,7 @@ export class LoadBalancerDO implements DurableObject {
       unhealthyBackends: healthResults.filter(h => !h.healthy).length,
       disabledBackends: healthResults.filter(h => !h.enabled).length,
       activeHealthChecksEnabled: this.config.activeHealthChecks?.enabled || false,
+      enabledMonitors: (this.config.monitors || []).filter(monitor => monitor.enabled).length,
       passiveHealthChecksEnabled: this.config.passiveHealthChecks?.enabled || false
     };
 
@@ -1081,6 +1854,58 @@ export class LoadBalancerDO implements DurableObject {
     });
   }
 
+  /**
+   * GET: active health check history per backend with its state machine counters. ?pool= and ?backend=
+   * filter, ?limit= keeps the newest records per backend.
+   */
+  private async handleHealthHistoryRequest(request: Request): Promise<Response> {
+    if (request.method !== 'GET') {
+      return new Response('Method not allowed', { status: 405 });
+    }
+
+    const url = new URL(request.url);
+    const poolId = url.searchParams.get('pool');
+    const backendId = url.searchParams.get('backend');
+    const limitParam = url.searchParams.get('limit');
+    const limit = limitParam === null ? undefined : Number(limitParam);
+    if (limit !== undefined && !(Number.isInteger(limit) && limit > 0)) {
+      return json({ error: 'limit must be a positive integer' }, 400);
+    }
+
+    const backends = this.config.pools
+      .filter(pool => !poolId || pool.id === poolId)
+      .flatMap(pool => pool.backends
+        .filter(backend => !backendId || backend.id === backendId)
+        .map(backend => {
+          const { latencySketch, ...metrics } = this.metrics.backendMetrics[backend.id] || {
+            requests: 0,
+            successfulRequests: 0,
+            failedRequests: 0,
+            totalResponseTimeMs: 0,
+            avgResponseTimeMs: 0
+          };
+          const state = this.healthCheckTracker.getState(backend.id);
+          const healthHistory = this.healthCheckTracker.getHistory(backend.id, limit);
+          const dashboard: BackendDashboard = { backend, metrics, healthHistory };
+          return {
+            ...dashboard,
+            poolId: pool.id,
+            consecutiveUp: state?.consecutiveUp ?? 0,
+            consecutiveDown: state?.consecutiveDown ?? 0,
+            lastTransition: state?.lastTransition,
+            transitions: healthHistory.filter(record => record.transition).length
+          };
+        }));
+
+    if (backendId && backends.length === 0) {
+      return json({ error: `Backend ${backendId} not found` }, 404);
+    }
+    return json({
+      activeHealthChecksEnabled: this.config.activeHealthChecks?.enabled || false,
+      backends
+    });
+  }
+
   private async handleInitializeRequest(request: Request): Promise<Response> {
     try {
       const initData = await request.json() as {
@@ -1135,7 +1960,13 @@ export class LoadBalancerDO implements DurableObject {
           pools: this.config.pools,
           load_balancer: this.config.load_balancer,
           activeHealthChecks: this.config.activeHealthChecks,
+          monitors: this.config.monitors || [],
+          maintenanceWindows: this.config.maintenanceWindows || [],
           passiveHealthChecks: this.config.passiveHealthChecks,
+          rateLimiting: this.config.rateLimiting,
+          customRules: this.config.customRules || [],
+          alertRules: this.config.alertRules || [],
+          logSinks: this.config.logSinks || [],
           metrics: this.metrics,
           source: this.config.simpleBackends ? 'default' : 'custom'
         }), {
@@ -1147,6 +1978,23 @@ export class LoadBalancerDO implements DurableObject {
         // Update configuration
         try {
           const newConfig = await request.json() as ConfigurationUpdateRequest;
+          const previousPools = this.config.pools;
+
+          const healthCheckError = (newConfig.activeHealthChecks && validateActiveHealthCheck(newConfig.activeHealthChecks))
+            || validateHealthMonitors(newConfig.monitors || this.config.monitors || [], newConfig.pools || this.config.pools)
+            || validateHealthOverrides(newConfig.pools || [])
+            || validateMirrors(newConfig.pools || [])
+            || validateMaintenanceWindows(newConfig.maintenanceWindows || this.config.maintenanceWindows || [], newConfig.pools || this.config.pools)
+            || (newConfig.rateLimiting && validateRateLimiting({ ...this.config.rateLimiting, ...newConfig.rateLimiting }))
+            || (newConfig.load_balancer?.traffic_split && this.validateTrafficSplit(newConfig.load_balancer.traffic_split, newConfig.pools || this.config.pools))
+            || (newConfig.logSinks && validateLogSinks(newConfig.logSinks))
+            || (newConfig.customRules && validateCustomRules(newConfig.customRules));
+          if (healthCheckError) {
+            return new Response(JSON.stringify({ error: healthCheckError }), {
+              status: 400,
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
           
           if (this.debug) {
             console.log(`[${this.serviceHostname}] Updating config with:`, {
@@ -1216,9 +2064,14 @@ export class LoadBalancerDO implements DurableObject {
             // Only update pools if we're not in simple mode with simpleBackends
             this.config.pools = newConfig.pools;
           }
+
+          if (this.config.pools !== previousPools) {
+            this.drainRemovedBackends(previousPools);
+          }
           
           if (newConfig.load_balancer) {
             this.config.load_balancer = { ...this.config.load_balancer, ...newConfig.load_balancer };
+            await this.scheduleTrafficSplitAlarm();
           }
           
           // Handle healthCheck configuration from PowerShell script
@@ -1274,12 +2127,35 @@ export class LoadBalancerDO implements DurableObject {
           if (newConfig.activeHealthChecks) {
             this.config.activeHealthChecks = { ...this.config.activeHealthChecks, ...newConfig.activeHealthChecks };
           }
+
+          if (newConfig.monitors) {
+            this.config.monitors = newConfig.monitors;
+          }
+
+          if (newConfig.maintenanceWindows) {
+            this.replaceMaintenanceWindows(newConfig.maintenanceWindows);
+          }
           
           if (newConfig.passiveHealthChecks) {
             this.config.passiveHealthChecks = { ...this.config.passiveHealthChecks, ...newConfig.passiveHealthChecks };
           }
+
+          if (newConfig.rateLimiting) {
+            this.config.rateLimiting = { ...this.config.rateLimiting, ...newConfig.rateLimiting };
+          }
+
+          if (newConfig.customRules) {
+            this.config.customRules = newConfig.customRules;
+          }
+
+          if (newConfig.logSinks) {
+            this.config.logSinks = newConfig.logSinks;
+          }
           
+          await this.evaluateMaintenance(Date.now());
           await this.saveConfig();
+          await this.scheduleHealthCheckAlarm();
+          await this.scheduleMaintenanceAlarm();
           
           return new Response(JSON.stringify({ success: true }), {
             headers: { 'Content-Type': 'application/json' }
@@ -1306,32 +2182,226 @@ export class LoadBalancerDO implements DurableObject {
     }
   }
 
-  private generateMetricsHtml(): Response {
+  /**
+   * Metrics as HTML by default, JSON for `?format=json` / `Accept: application/json`,
+   * or Prometheus / OpenMetrics text for `?format=prometheus` / `?format=openmetrics`
+   */
+  private handleMetricsRequest(request: Request): Response {
+    const format = new URL(request.url).searchParams.get('format');
+    if (format === 'prometheus' || format === 'openmetrics') {
+      return this.generatePrometheusMetrics(format === 'openmetrics');
+    }
+
+    const wantsJson = format === 'json' ||
+      (!format && (request.headers.get('Accept') || '').includes('application/json'));
+    if (!wantsJson) {
+      return this.generateMetricsHtml(true);
+    }
+
     this.calculateAvgResponseTimes();
-    let html = `
-        <!DOCTYPE html>
-        <html lang="en">
-        <head>
-            <meta charset="UTF-8">
-            <meta name="viewport" content="width=device-width, initial-scale=1.0">
-            <title>Load Balancer Metrics: ${this.serviceHostname}</title>
-            <style>
-                body { font-family: system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Oxygen, Ubuntu, Cantarell, "Open Sans", "Helvetica Neue", sans-serif; margin: 20px; background-color: #F8F9FA; color: #212529; line-height: 1.6; }
-                .container { max-width: 1200px; margin: auto; padding: 20px; }
-                h1, h2 { color: #343A40; border-bottom: 2px solid #DEE2E6; padding-bottom: 0.5em;}
-                table { width: 100%; border-collapse: collapse; margin-bottom: 30px; background-color: #FFF; box-shadow: 0 2px 15px rgba(0,0,0,0.05); }
-                th, td { border: 1px solid #DEE2E6; padding: 12px 15px; text-align: left; vertical-align: top; }
-                th { background-color: #E9ECEF; font-weight: 600; }
-                tr:nth-child(even) { background-color: #F8F9FA; }
-                .healthy { color: #28A745; font-weight: bold; }
-                .unhealthy { color: #DC3545; font-weight: bold; }
-                .status-details { font-size: 0.85em; color: #6C757D; margin-top: 4px; display: block;}
-                .config-section, .summary-section { background-color: #FFF; padding: 20px; margin-bottom: 30px; box-shadow: 0 2px 15px rgba(0,0,0,0.05); border-radius: 8px; }
-                pre { background-color: #E9ECEF; padding: 15px; border: 1px solid #CED4DA; border-radius: 5px; overflow-x: auto; font-size: 0.9em; }
-                footer { text-align: center; margin-top: 40px; font-size: 0.9em; color: #6C757D; }
-                .tag { display: inline-block; padding: .25em .4em; font-size: 75%; font-weight: 700; line-height: 1; text-align: center; white-space: nowrap; vertical-align: baseline; border-radius: .25rem; }
-                .tag-healthy { color: #FFF; background-color: #28A745; }
-                .tag-unhealthy { color: #FFF; background-color: #DC3545; }
+    this.calculateLatencyPercentiles();
+    const { p50, p95, p99 } = latencyPercentiles(this.getServiceLatencySketch());
+
+    // Sketches are internal state; only the derived percentiles are exposed
+    const body = JSON.stringify({
+      ...this.metrics,
+      p50ResponseTime: p50,
+      p95ResponseTime: p95,
+      p99ResponseTime: p99
+    }, (key, value) => key === 'latencySketch' ? undefined : value);
+
+    return new Response(body, {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  /**
+   * Text exposition of service, backend and pool metrics for Prometheus scrapers
+   */
+  private generatePrometheusMetrics(openMetrics: boolean): Response {
+    this.calculateAvgResponseTimes();
+    this.calculateLatencyPercentiles();
+
+    const lines: string[] = [];
+    const service = this.serviceHostname;
+    const escapeLabel = (value: string) => value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+    const formatLabels = (labels: Record<string, string>) =>
+      `{${Object.entries(labels).map(([key, value]) => `${key}="${escapeLabel(value)}"`).join(',')}}`;
+
+    // OpenMetrics names counter families without the _total suffix; the 0.0.4 text format includes it
+    const family = (name: string, type: 'counter' | 'gauge' | 'summary', help: string) => {
+      const familyName = type === 'counter' && !openMetrics ? `${name}_total` : name;
+      lines.push(`# HELP ${familyName} ${help}`, `# TYPE ${familyName} ${type}`);
+    };
+    const sample = (name: string, labels: Record<string, string>, value: number) => {
+      lines.push(`${name}${formatLabels(labels)} ${Number.isFinite(value) ? value : 0}`);
+    };
+
+    const backends = this.config.pools.flatMap(pool => pool.backends.map(backend => ({ pool, backend })));
+    const engineMetrics = this.loadBalancerEngine?.getMetrics();
+    const healthMetrics = this.loadBalancerEngine?.getHealthMetrics() || {};
+
+    family('lb_requests', 'counter', 'Requests proxied to a backend, by outcome.');
+    sample('lb_requests_total', { service, outcome: 'success' }, this.metrics.totalSuccessfulRequests);
+    sample('lb_requests_total', { service, outcome: 'failure' }, this.metrics.totalFailedRequests);
+
+    family('lb_rate_limited_requests', 'counter', 'Requests rejected by the rate limiter.');
+    sample('lb_rate_limited_requests_total', { service }, this.metrics.rateLimitedRequests || 0);
+
+    family('lb_retries', 'counter', 'Retries sent after a failed attempt.');
+    sample('lb_retries_total', { service }, this.metrics.retries || 0);
+    family('lb_retry_budget_exhausted', 'counter', 'Retries and hedges skipped because the service-wide retry budget was spent.');
+    sample('lb_retry_budget_exhausted_total', { service }, this.metrics.retryBudgetExhausted || 0);
+
+    family('lb_hedged_requests', 'counter', 'Duplicate requests sent to a second backend by hedging.');
+    sample('lb_hedged_requests_total', { service }, this.metrics.hedgedRequests || 0);
+    family('lb_hedge_wins', 'counter', 'Hedged duplicates that answered before the first backend.');
+    sample('lb_hedge_wins_total', { service }, this.metrics.hedgeWins || 0);
+
+    family('lb_backend_requests', 'counter', 'Requests proxied to each backend, by outcome.');
+    for (const { pool, backend } of backends) {
+      const bm = this.metrics.backendMetrics[backend.id];
+      sample('lb_backend_requests_total', { service, pool: pool.id, backend: backend.id, outcome: 'success' }, bm?.successfulRequests || 0);
+      sample('lb_backend_requests_total', { service, pool: pool.id, backend: backend.id, outcome: 'failure' }, bm?.failedRequests || 0);
+    }
+
+    family('lb_backend_response_time_seconds', 'summary', 'Response time of successful backend requests.');
+    for (const { pool, backend } of backends) {
+      const bm = this.metrics.backendMetrics[backend.id];
+      if (!bm?.latencySketch) continue;
+      const labels = { service, pool: pool.id, backend: backend.id };
+      sample('lb_backend_response_time_seconds', { ...labels, quantile: '0.5' }, (bm.p50ResponseTime || 0) / 1000);
+      sample('lb_backend_response_time_seconds', { ...labels, quantile: '0.95' }, (bm.p95ResponseTime || 0) / 1000);
+      sample('lb_backend_response_time_seconds', { ...labels, quantile: '0.99' }, (bm.p99ResponseTime || 0) / 1000);
+      sample('lb_backend_response_time_seconds_sum', labels, bm.totalResponseTimeMs / 1000);
+      sample('lb_backend_response_time_seconds_count', labels, bm.successfulRequests);
+    }
+
+    family('lb_backend_healthy', 'gauge', 'Whether the backend is currently considered healthy (1) or not (0).');
+    for (const { pool, backend } of backends) {
+      sample('lb_backend_healthy', { service, pool: pool.id, backend: backend.id }, backend.healthy ? 1 : 0);
+    }
+
+    family('lb_backend_active_connections', 'gauge', 'Open long-lived connections (WebSocket, SSE) per backend.');
+    for (const { pool, backend } of backends) {
+      sample('lb_backend_active_connections', { service, pool: pool.id, backend: backend.id }, this.metrics.backendMetrics[backend.id]?.connectionsActive || 0);
+    }
+
+    family('lb_backend_health_score', 'gauge', 'Passive health score per backend (0-100).');
+    for (const { pool, backend } of backends) {
+      sample('lb_backend_health_score', { service, pool: pool.id, backend: backend.id }, healthMetrics[backend.id]?.healthScore ?? 100);
+    }
+
+    family('lb_backend_circuit_breaker_state', 'gauge', 'Circuit breaker state per backend; 1 for the current state.');
+    for (const { pool, backend } of backends) {
+      const current = healthMetrics[backend.id]?.circuitState || 'closed';
+      for (const state of ['closed', 'open', 'half-open']) {
+        sample('lb_backend_circuit_breaker_state', { service, pool: pool.id, backend: backend.id, state }, current === state ? 1 : 0);
+      }
+    }
+
+    family('lb_pool_healthy_backends', 'gauge', 'Healthy backends per pool.');
+    for (const pool of this.config.pools) {
+      sample('lb_pool_healthy_backends', { service, pool: pool.id }, pool.backends.filter(b => b.healthy).length);
+    }
+
+    family('lb_pool_shed_requests', 'counter', 'Requests diverted away from each pool by load shedding.');
+    for (const pool of this.config.pools) {
+      sample('lb_pool_shed_requests_total', { service, pool: pool.id }, this.metrics.poolMetrics?.[pool.id]?.shedRequests || 0);
+    }
+
+    const shadowMetrics = Object.values(this.metrics.shadowMetrics || {});
+    if (shadowMetrics.length > 0) {
+      family('lb_shadow_requests', 'counter', 'Mirrored requests per shadow pool and status code (code="error" for connection errors).');
+      for (const shadow of shadowMetrics) {
+        for (const [code, count] of Object.entries(shadow.statusCodes)) {
+          sample('lb_shadow_requests_total', { service, pool: shadow.poolId, code }, count);
+        }
+        sample('lb_shadow_requests_total', { service, pool: shadow.poolId, code: 'error' }, shadow.errors);
+      }
+      family('lb_shadow_skipped_requests', 'counter', 'Sampled requests that could not be mirrored.');
+      for (const shadow of shadowMetrics) {
+        sample('lb_shadow_skipped_requests_total', { service, pool: shadow.poolId }, shadow.skippedRequests);
+      }
+    }
+
+    const split = this.config.load_balancer.traffic_split;
+    if (split?.enabled) {
+      family('lb_traffic_split_canary_percent', 'gauge', 'Share of new traffic sent to the canary side of the traffic split.');
+      sample('lb_traffic_split_canary_percent', { service, canary_pool: split.canary.pool_id, status: split.status || 'active' }, split.percent);
+    }
+
+    family('lb_pool_response_time_seconds', 'summary', 'Response time of successful requests per pool.');
+    for (const pool of this.config.pools) {
+      const pm = this.metrics.poolMetrics?.[pool.id];
+      if (!pm?.latencySketch) continue;
+      const labels = { service, pool: pool.id };
+      sample('lb_pool_response_time_seconds', { ...labels, quantile: '0.5' }, (pm.p50ResponseTime || 0) / 1000);
+      sample('lb_pool_response_time_seconds', { ...labels, quantile: '0.95' }, (pm.p95ResponseTime || 0) / 1000);
+      sample('lb_pool_response_time_seconds', { ...labels, quantile: '0.99' }, (pm.p99ResponseTime || 0) / 1000);
+    }
+
+    family('lb_steering_decisions', 'counter', 'Pool selections by steering method.');
+    for (const [method, count] of Object.entries(engineMetrics?.steeringDecisions || {})) {
+      sample('lb_steering_decisions_total', { service, method }, count);
+    }
+
+    family('lb_session_affinity_hits', 'counter', 'Requests routed by an existing session affinity binding.');
+    sample('lb_session_affinity_hits_total', { service }, engineMetrics?.sessionAffinityHits || 0);
+    family('lb_session_affinity_misses', 'counter', 'Requests that did not match a session affinity binding.');
+    sample('lb_session_affinity_misses_total', { service }, engineMetrics?.sessionAffinityMisses || 0);
+
+    const droppedLogs = Object.entries(this.logShipper.getDroppedCounts());
+    if (droppedLogs.length > 0) {
+      family('lb_log_entries_dropped', 'counter', 'Log entries a sink lost to buffer overflow or exhausted retries.');
+      for (const [sink, count] of droppedLogs) {
+        sample('lb_log_entries_dropped_total', { service, sink }, count);
+      }
+    }
+
+    if (openMetrics) {
+      lines.push('# EOF');
+    }
+
+    return new Response(lines.join('\n') + '\n', {
+      headers: {
+        'Content-Type': openMetrics
+          ? 'application/openmetrics-text; version=1.0.0; charset=utf-8'
+          : 'text/plain; version=0.0.4; charset=utf-8',
+        'Cache-Control': 'no-cache, no-store, must-revalidate'
+      }
+    });
+  }
+
+  /** The metrics page. Only the admin API shows the (redacted) config: /metrics is public. */
+  private generateMetricsHtml(showConfig: boolean = false): Response {
+    this.calculateAvgResponseTimes();
+    this.calculateLatencyPercentiles();
+    const serviceLatency = latencyPercentiles(this.getServiceLatencySketch());
+    let html = `
+        <!DOCTYPE html>
+        <html lang="en">
+        <head>
+            <meta charset="UTF-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>Load Balancer Metrics: ${this.serviceHostname}</title>
+            <style>
+                body { font-family: system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Oxygen, Ubuntu, Cantarell, "Open Sans", "Helvetica Neue", sans-serif; margin: 20px; background-color: #F8F9FA; color: #212529; line-height: 1.6; }
+                .container { max-width: 1200px; margin: auto; padding: 20px; }
+                h1, h2 { color: #343A40; border-bottom: 2px solid #DEE2E6; padding-bottom: 0.5em;}
+                table { width: 100%; border-collapse: collapse; margin-bottom: 30px; background-color: #FFF; box-shadow: 0 2px 15px rgba(0,0,0,0.05); }
+                th, td { border: 1px solid #DEE2E6; padding: 12px 15px; text-align: left; vertical-align: top; }
+                th { background-color: #E9ECEF; font-weight: 600; }
+                tr:nth-child(even) { background-color: #F8F9FA; }
+                .healthy { color: #28A745; font-weight: bold; }
+                .unhealthy { color: #DC3545; font-weight: bold; }
+                .status-details { font-size: 0.85em; color: #6C757D; margin-top: 4px; display: block;}
+                .config-section, .summary-section { background-color: #FFF; padding: 20px; margin-bottom: 30px; box-shadow: 0 2px 15px rgba(0,0,0,0.05); border-radius: 8px; }
+                pre { background-color: #E9ECEF; padding: 15px; border: 1px solid #CED4DA; border-radius: 5px; overflow-x: auto; font-size: 0.9em; }
+                footer { text-align: center; margin-top: 40px; font-size: 0.9em; color: #6C757D; }
+                .tag { display: inline-block; padding: .25em .4em; font-size: 75%; font-weight: 700; line-height: 1; text-align: center; white-space: nowrap; vertical-align: baseline; border-radius: .25rem; }
+                .tag-healthy { color: #FFF; background-color: #28A745; }
+                .tag-unhealthy { color: #FFF; background-color: #DC3545; }
             </style>
         </head>
         <body>
@@ -1343,6 +2413,7 @@ export class LoadBalancerDO implements DurableObject {
                     <p><strong>Total Requests Processed:</strong> ${this.metrics.totalRequests}</p>
                     <p><strong>Total Successful Requests:</strong> ${this.metrics.totalSuccessfulRequests}</p>
                     <p><strong>Total Failed Requests:</strong> ${this.metrics.totalFailedRequests}</p>
+                    <p><strong>Response Time p50 / p95 / p99 (ms):</strong> ${serviceLatency.p50.toFixed(2)} / ${serviceLatency.p95.toFixed(2)} / ${serviceLatency.p99.toFixed(2)}</p>
                 </div>
 
                 <h2>Backend Status & Metrics</h2>
@@ -1358,6 +2429,7 @@ export class LoadBalancerDO implements DurableObject {
                             <th>Successful</th>
                             <th>Failed</th>
                             <th>Avg. Resp. Time (ms)</th>
+                            <th>p50 / p95 / p99 (ms)</th>
                             <th>Last Failure</th>
                         </tr>
                     </thead>
@@ -1373,13 +2445,14 @@ export class LoadBalancerDO implements DurableObject {
                     <td>${b.weight}</td>
                     <td>
                         <span class="tag ${b.healthy ? 'tag-healthy' : 'tag-unhealthy'}">${b.healthy ? 'Healthy' : 'Unhealthy'}</span>
-                        ${b.status ? `<span class="status-details">Detail: ${b.status}</span>` : ''}
+                        ${b.status ? `<span class="status-details">Detail: ${escapeHtml(b.status)}</span>` : ''}
                     </td>
                     <td>${b.consecutiveFailures}</td>
                     <td>${metrics.requests}</td>
                     <td>${metrics.successfulRequests}</td>
                     <td>${metrics.failedRequests}</td>
                     <td>${metrics.avgResponseTimeMs.toFixed(2)}</td>
+                    <td>${metrics.latencySketch ? `${(metrics.p50ResponseTime ?? 0).toFixed(2)} / ${(metrics.p95ResponseTime ?? 0).toFixed(2)} / ${(metrics.p99ResponseTime ?? 0).toFixed(2)}` : 'N/A'}</td>
                     <td>${b.lastFailureTimestamp ? new Date(b.lastFailureTimestamp).toLocaleString() : 'N/A'}</td>
                 </tr>`;
       });
@@ -1388,11 +2461,11 @@ export class LoadBalancerDO implements DurableObject {
     html += `
                     </tbody>
                 </table>
-                
+                ${showConfig ? `
                 <div class="config-section">
                     <h2>Current Configuration</h2>
-                    <pre>${JSON.stringify(this.config, null, 2)}</pre>
-                </div>
+                    <pre>${escapeHtml(redactConfig(this.config))}</pre>
+                </div>` : ''}
                 
                 <footer>
                     <p>Metrics for service: <strong>${this.serviceHostname}</strong></p>
@@ -1401,10 +2474,14 @@ export class LoadBalancerDO implements DurableObject {
             </div>
         </body>
         </html>`;
-    return new Response(html, { headers: { "Content-Type": "text/html; charset=utf-f" } });
+    return new Response(html, { headers: { "Content-Type": "text/html; charset=utf-8" } });
   }
 
   async handleRequest(request: Request): Promise<Response> {
+    if (this.serviceHostname.startsWith(REGION_PROBE_PREFIX)) {
+      return this.handleRegionProbeRequest(request);
+    }
+
     if (!this.initialized) {
       await this.loadState();
     }
@@ -1450,18 +2527,49 @@ export class LoadBalancerDO implements DurableObject {
       });
     }
     
+    // Enforce per-client rate limits before doing any routing work
+    let rateLimitHeaders: Record<string, string> = {};
+    if (this.config.rateLimiting?.enabled && this.config.rateLimiting.requestsPerMinute > 0) {
+      const rateLimit = await this.checkRateLimit(request);
+      if (!rateLimit.allowed) {
+        this.metrics.rateLimitedRequests = (this.metrics.rateLimitedRequests || 0) + 1;
+        this.addLogEntry('warn', `Rate limit exceeded for ${rateLimit.key}`, 'request', {
+          statusCode: 429,
+          clientIp: this.getClientIp(request) || undefined,
+          method: request.method,
+          path: url.pathname,
+          rateLimitKey: rateLimit.key
+        });
+        return new Response(JSON.stringify({ error: 'Too many requests' }), {
+          status: 429,
+          headers: { 'Content-Type': 'application/json', ...rateLimit.headers }
+        });
+      }
+      rateLimitHeaders = rateLimit.headers;
+    }
+
     // For a real load balancer - Route the traffic
     try {
       let selectedBackend: Backend | null = null;
-      let responseHeaders: Record<string, string> = {};
+      let routingHeaders: Record<string, string> = {};
+      let splitSide: TrafficSplitSide | undefined;
+      let routedPool: OriginPool | undefined;
       
       // Use the LoadBalancerEngine for sophisticated pool selection and backend routing
       if (this.loadBalancerEngine) {
         try {
           const clientIp = this.getClientIp(request) || '127.0.0.1';
-          const routingResult = await this.loadBalancerEngine.routeRequest(request, clientIp);
+          const routingResult = await this.loadBalancerEngine.routeRequest(request, clientIp, this.getGeographicData(request));
           selectedBackend = routingResult.backend;
-          responseHeaders = routingResult.headers;
+          routingHeaders = routingResult.headers;
+          splitSide = routingResult.splitSide;
+          routedPool = routingResult.pool;
+
+          const shedPool = routingResult.shedFrom && this.config.pools.find(p => p.id === routingResult.shedFrom);
+          if (shedPool) {
+            const poolMetric = this.getPoolMetrics(shedPool);
+            poolMetric.shedRequests = (poolMetric.shedRequests || 0) + 1;
+          }
         } catch (error) {
           // Handle special routing actions (fixed response, redirect)
           if (error instanceof Error) {
@@ -1483,36 +2591,24 @@ export class LoadBalancerDO implements DurableObject {
                   ...redirectResponse.headers
                 }
               });
+            } else if (error.name === 'NoHealthyBackends') {
+              return new Response("No healthy backends available", { status: 503 });
             }
           }
           throw error; // Re-throw if not a special action
         }
       } else {
-        // Fallback to simple backend selection if engine is not available
-        selectedBackend = this.selectBackend(request);
+        return new Response("Load balancer is not initialized", { status: 503 });
       }
       
       if (!selectedBackend) {
         return new Response("No healthy backends available", { status: 503 });
       }
       
-      const response = await this.forwardRequest(request, selectedBackend);
-      
-      // Add any additional headers from the routing engine
-      if (Object.keys(responseHeaders).length > 0) {
-        const newHeaders = new Headers(response.headers);
-        Object.entries(responseHeaders).forEach(([key, value]) => {
-          newHeaders.set(key, value);
-        });
-        
-        return new Response(response.body, {
-          status: response.status,
-          statusText: response.statusText,
-          headers: newHeaders
-        });
-      }
-      
-      return response;
+      // Routing headers follow the backend that finally served the request, retries included
+      const forwardedRequest = routedPool?.mirror ? await this.mirrorRequest(request, routedPool) : request;
+      const response = await this.forwardRequest(forwardedRequest, selectedBackend, 0, new Set(), routingHeaders, undefined, splitSide);
+      return this.withResponseHeaders(response, rateLimitHeaders);
     } catch (error) {
       console.error(`[${this.serviceHostname}] Error routing request: ${error}`);
       return new Response(`Error routing request: ${error}`, { status: 500 });
@@ -1525,38 +2621,292 @@ export class LoadBalancerDO implements DurableObject {
     }
     
     const now = Date.now();
-    
-    if (!this.config.activeHealthChecks?.enabled) {
-      console.log(`[${this.serviceHostname}] Active health checks disabled, not performing checks`);
+
+    await this.persistRateLimitBuckets().catch(error =>
+      console.error(`[${this.serviceHostname}] Failed to persist rate limit buckets:`, error));
+    if (this.config.rateLimiting?.enabled) {
+      await this.pruneRateLimitBuckets().catch(error =>
+        console.error(`[${this.serviceHostname}] Failed to prune rate limit buckets:`, error));
+    }
+
+    this.flushAnalytics();
+
+    try {
+      this.logStore?.prune();
+    } catch (error) {
+      console.error(`[${this.serviceHostname}] Failed to prune logs:`, error);
+    }
+
+    this.state.waitUntil(this.logShipper.flushAll());
+
+    // Before completing drains, so a window that has just started can finish draining right away
+    await this.evaluateMaintenance(now);
+
+    if (this.completeDrains(now)) {
+      await this.saveConfig();
+    }
+
+    await this.evaluateTrafficSplit(now);
+    await this.runDueHealthChecks(now);
+
+    // Evaluate after health checks so pool rules see fresh health state
+    await this.evaluateAlertRules();
+    await this.scheduleHealthCheckAlarm();
+    await this.scheduleAlertRuleAlarm();
+    await this.scheduleDrainAlarm();
+    await this.scheduleTrafficSplitAlarm();
+    await this.scheduleMaintenanceAlarm();
+    await this.scheduleRateLimitAlarm();
+  }
+
+  /**
+   * Start and end maintenance windows that are due and drop expired health overrides
+   */
+  private async evaluateMaintenance(now: number) {
+    let changed = false;
+    for (const window of this.config.maintenanceWindows || []) {
+      const { changed: windowChanged, phase } = advanceMaintenanceWindow(window, now);
+      if (phase === 'start') {
+        this.startMaintenance(window, now);
+      } else if (phase === 'end') {
+        this.endMaintenance(window);
+      }
+      changed = changed || windowChanged;
+    }
+
+    const cleared = clearExpiredOverrides(this.config.pools, now);
+    if (cleared.length > 0) {
+      this.addLogEntry('info', `Health override expired for ${cleared.join(', ')}`, 'health', { targets: cleared });
+      changed = true;
+    }
+
+    if (changed) {
+      await this.saveConfig();
+    }
+  }
+
+  /**
+   * Drain the window's enabled backends; the drain leaves them disabled until the window ends
+   */
+  private startMaintenance(window: MaintenanceWindow, now: number): void {
+    const backends = getWindowBackends(window, this.config.pools).filter(b => b.enabled !== false);
+    window.disabled_backend_ids = backends.map(b => b.id);
+    this.addLogEntry('info', `Maintenance window ${window.name || window.id} started`, 'config', {
+      windowId: window.id,
+      backendIds: window.disabled_backend_ids,
+      endsAt: window.current_end
+    });
+
+    for (const backend of backends) {
+      this.startDrain(backend, false, now);
+    }
+  }
+
+  /**
+   * Re-enable the backends the window disabled. Backends an operator re-enabled or removed meanwhile
+   * are left alone.
+   */
+  private endMaintenance(window: MaintenanceWindow): void {
+    const ids = new Set(window.disabled_backend_ids || []);
+    const backends = this.config.pools.flatMap(pool => pool.backends)
+      .filter(b => ids.has(b.id) && b.enabled === false && !b.removeAfterDrain);
+    for (const backend of backends) {
+      if (backend.draining) {
+        this.endDrain(backend);
+      }
+      backend.enabled = true;
+    }
+    window.disabled_backend_ids = undefined;
+
+    this.addLogEntry('info', `Maintenance window ${window.name || window.id} ended`, 'config', {
+      windowId: window.id,
+      backendIds: backends.map(b => b.id)
+    });
+  }
+
+  /**
+   * Take a new list of windows. Windows in progress keep their state if they stay and are ended if
+   * they were dropped; the rest are scheduled afresh.
+   */
+  private replaceMaintenanceWindows(windows: MaintenanceWindow[]): void {
+    const previous = new Map((this.config.maintenanceWindows || []).map(window => [window.id, window]));
+    this.config.maintenanceWindows = windows.map(window => {
+      const existing = previous.get(window.id);
+      previous.delete(window.id);
+      const settings = withoutWindowState(window);
+      return existing?.status === 'in_progress'
+        ? { ...settings, status: existing.status, current_end: existing.current_end, disabled_backend_ids: existing.disabled_backend_ids }
+        : settings;
+    });
+
+    for (const dropped of previous.values()) {
+      if (dropped.status === 'in_progress') {
+        this.endMaintenance(dropped);
+      }
+    }
+  }
+
+  /**
+   * Make sure the alarm fires for the next maintenance window start or end and the next override expiry
+   */
+  private async scheduleMaintenanceAlarm(): Promise<void> {
+    const events = [nextMaintenanceEvent(this.config.maintenanceWindows || []), nextOverrideExpiry(this.config.pools)]
+      .filter((time): time is number => time !== null);
+    if (events.length === 0) return;
+
+    const now = Date.now();
+    const next = Math.max(now, Math.min(...events));
+    const currentAlarm = await this.state.storage.getAlarm();
+    if (currentAlarm == null || currentAlarm <= now || currentAlarm > next) {
+      await this.state.storage.setAlarm(next);
+    }
+  }
+
+  /**
+   * Backends grouped by the monitor that checks them (OriginPool.monitor, or activeHealthChecks for
+   * pools without one), for enabled monitors only
+   */
+  private getMonitoredBackends(): Map<string, { interval: number; targets: { backend: Backend; check: ActiveHealthCheckConfig }[] }> {
+    const groups = new Map<string, { interval: number; targets: { backend: Backend; check: ActiveHealthCheckConfig }[] }>();
+    for (const pool of this.config.pools) {
+      for (const backend of pool.backends) {
+        const resolved = resolveHealthCheck(this.config, pool, backend);
+        if (!resolved) continue;
+
+        let group = groups.get(resolved.monitorId);
+        if (!group) {
+          group = { interval: resolved.check.interval, targets: [] };
+          groups.set(resolved.monitorId, group);
+        }
+        group.targets.push({ backend, check: resolved.check });
+      }
+    }
+    return groups;
+  }
+
+  /**
+   * Check the backends of every monitor whose interval has elapsed; each monitor keeps its own cadence
+   */
+  private async runDueHealthChecks(now: number) {
+    const groups = this.getMonitoredBackends();
+    this.monitorScheduler.prune(new Set(groups.keys()));
+    const due = [...groups].filter(([monitorId, group]) => this.monitorScheduler.isDue(monitorId, group.interval, now));
+
+    if (due.length > 0) {
+      console.log(`[${this.serviceHostname}] Running active health checks for ${due.map(([monitorId]) => monitorId).join(', ')}`);
+      try {
+        await Promise.all(due.flatMap(([, group]) =>
+          group.targets.map(({ backend, check }) => this.handleActiveHealthCheck(backend, check))));
+        await this.saveConfig();
+        await this.saveHealthCheckStates();
+      } catch (error) {
+        console.error(`[${this.serviceHostname}] Error during active health checks:`, error);
+      }
+      // Still schedule the next run even if this one failed
+      for (const [monitorId, group] of due) {
+        this.monitorScheduler.markRun(monitorId, group.interval, now);
+      }
+    }
+
+    await this.state.storage.put("healthMonitorSchedule", this.monitorScheduler.getNextRuns());
+  }
+
+  /**
+   * Make sure the alarm fires when the next monitor is due
+   */
+  private async scheduleHealthCheckAlarm(): Promise<void> {
+    const now = Date.now();
+    const runs = [...this.getMonitoredBackends()].map(([monitorId, group]) => this.monitorScheduler.nextRun(monitorId, group.interval, now));
+    if (runs.length === 0) return;
+
+    const next = Math.max(now, Math.min(...runs));
+    const currentAlarm = await this.state.storage.getAlarm();
+    if (currentAlarm == null || currentAlarm <= now || currentAlarm > next) {
+      await this.state.storage.setAlarm(next);
+    }
+  }
+
+  /**
+   * Advance the canary split through its steps, or roll it back and raise an alert when it breaches
+   * its thresholds
+   */
+  private async evaluateTrafficSplit(now: number) {
+    const split = this.config.load_balancer.traffic_split;
+    if (!split) return;
+
+    const { changed, message, alert } = this.trafficSplit.evaluate(split, now);
+    if (!changed) return;
+
+    await this.saveConfig();
+    if (alert) {
+      this.addLogEntry('warn', alert.message, 'alert', { alertId: alert.id, type: alert.type, severity: alert.severity, ...alert.metadata });
+      if (this.loadBalancerEngine) {
+        this.state.waitUntil(this.loadBalancerEngine.emitAlert(alert));
+      }
+    } else if (message) {
+      this.addLogEntry('info', message, 'config', { canaryPoolId: split.canary.pool_id, percent: split.percent });
+    }
+  }
+
+  private async scheduleTrafficSplitAlarm(): Promise<void> {
+    const split = this.config.load_balancer.traffic_split;
+    const next = split ? this.trafficSplit.nextEvaluation(split, this.alertRuleInterval) : null;
+    if (next === null) return;
+
+    const currentAlarm = await this.state.storage.getAlarm();
+    if (currentAlarm == null || currentAlarm <= Date.now() || currentAlarm > next) {
+      await this.state.storage.setAlarm(next);
+    }
+  }
+
+  /**
+   * Run the alert rule evaluator and send fired/resolved alerts through the engine's notification channels
+   */
+  private async evaluateAlertRules() {
+    const rules = this.config.alertRules || [];
+    if (rules.length === 0 && this.alertRuleEvaluator.getStates().length === 0) {
       return;
     }
-    
-    console.log(`[${this.serviceHostname}] Running active health checks`);
-    
+
     try {
-      // Check health of all backends
-      const checkPromises: Promise<boolean>[] = [];
-      
-      for (const pool of this.config.pools) {
-        for (const backend of pool.backends) {
-          checkPromises.push(this.handleActiveHealthCheck(backend));
+      const { fired, resolved } = this.alertRuleEvaluator.evaluate(
+        rules,
+        this.config.pools,
+        this.metrics,
+        Date.now(),
+        alert => isAlertSuppressed(alert, this.config.maintenanceWindows, this.config.pools)
+      );
+
+      for (const alert of [...fired, ...resolved]) {
+        this.addLogEntry(alert.resolved ? 'info' : 'warn', alert.message, 'alert', {
+          alertId: alert.id,
+          type: alert.type,
+          severity: alert.severity,
+          ...alert.metadata
+        });
+        if (this.loadBalancerEngine) {
+          this.state.waitUntil(this.loadBalancerEngine.emitAlert(alert));
         }
       }
-      
-      await Promise.all(checkPromises);
-      await this.saveConfig();
-      
-      // Schedule next health check
-      const interval = this.config.activeHealthChecks.interval * 1000;
-      this.state.storage.setAlarm(now + interval);
-      
-      console.log(`[${this.serviceHostname}] Active health checks completed, next check in ${interval / 1000}s`);
+
+      await this.state.storage.put("alertRuleStates", this.alertRuleEvaluator.getStates());
     } catch (error) {
-      console.error(`[${this.serviceHostname}] Error during active health checks:`, error);
-      
-      // Still schedule next check even if this one failed
-      const interval = this.config.activeHealthChecks.interval * 1000;
-      this.state.storage.setAlarm(now + interval);
+      console.error(`[${this.serviceHostname}] Error evaluating alert rules:`, error);
+    }
+  }
+
+  /**
+   * Make sure an alarm fires within one alert rule interval, even when another schedule set a later one
+   */
+  private async scheduleAlertRuleAlarm() {
+    if (!this.config.alertRules?.some(rule => rule.enabled)) {
+      return;
+    }
+    const now = Date.now();
+    const next = now + this.alertRuleInterval;
+    const currentAlarm = await this.state.storage.getAlarm();
+    if (currentAlarm == null || currentAlarm <= now || currentAlarm > next) {
+      await this.state.storage.setAlarm(next);
     }
   }
 
@@ -1860,73 +3210,128 @@ export class LoadBalancerDO implements DurableObject {
     });
   }
 
-  private async handleActiveHealthCheck(backend: Backend): Promise<boolean> {
+  /**
+   * Probe a backend with its monitor (from each of check_regions when set) and feed the outcome through
+   * the health check state machine, which flips the backend only after consecutive_up / consecutive_down checks
+   */
+  private async handleActiveHealthCheck(backend: Backend, config: ActiveHealthCheckConfig): Promise<boolean> {
+    const timestamp = Date.now();
+    let record: HealthCheckRecord;
     try {
-      // Skip if not enabled
-      const config = this.config.activeHealthChecks;
-      if (!config || !config.enabled) return backend.healthy;
+      if (config.check_regions?.length) {
+        record = await this.runRegionalHealthCheck(config, backend, timestamp);
+      } else {
+        const result = await runHealthProbeWithRetries(config, backend, { heloName: this.serviceHostname });
+        record = {
+          timestamp,
+          healthy: result.healthy,
+          responseTime: result.responseTime,
+          statusCode: result.statusCode,
+          error: result.error,
+          failedAssertions: result.failedAssertions,
+          attempts: result.attempts ?? 1,
+          certificateUnknown: result.certificateUnknown
+        };
+      }
+    } catch (error) {
+      console.error(`[${this.serviceHostname}] ActiveHealthCheck error for ${backend.id}: ${error}`);
+      record = { timestamp, healthy: false, error: error instanceof Error ? error.message : String(error), attempts: 1 };
+    }
 
-      // Construct the health check URL
-      const url = new URL(config.path, backend.url).toString();
-      
-      // Send the health check request
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), config.timeout * 1000);
-      
-      const response = await fetch(url, {
-        method: config.method || 'GET',
-        headers: config.headers || {},
-        redirect: config.follow_redirects ? 'follow' : 'manual',
-        signal: controller.signal
+    if (!record.healthy) {
+      console.warn(`[${this.serviceHostname}] ActiveHealthCheck (${config.type}) failed for ${backend.id} after ${record.attempts} attempt(s): ${record.error}`);
+    }
+
+    if (this.healthCheckTracker.record(backend, config, record)) {
+      backend.status = backend.healthy ? 'Healthy' : `Unhealthy (active check: ${record.error})`;
+      const state = this.healthCheckTracker.getState(backend.id)!;
+      const message = backend.healthy
+        ? `ActiveHealthCheck: Backend ${backend.id} is now healthy after ${state.consecutiveUp} passing checks`
+        : `ActiveHealthCheck: Backend ${backend.id} is now unhealthy after ${state.consecutiveDown} failing checks`;
+      this.addLogEntry(backend.healthy ? 'info' : 'warn', message, 'health', {
+        backendId: backend.id,
+        statusCode: record.statusCode,
+        responseTime: record.responseTime,
+        error: record.error,
+        failedAssertions: record.failedAssertions,
+        regions: record.regions
       });
-      
-      clearTimeout(timeoutId);
-      
-      // Check if status code is acceptable
-      const isStatusValid = config.expected_codes 
-        ? config.expected_codes.includes(response.status)
-        : response.status < 400;
-      
-      // Check body content if expected_body is configured
-      let isBodyValid = true;
-      if (config.expected_body) {
-        const body = await response.text();
-        isBodyValid = body.includes(config.expected_body);
-      }
-      
-      // Update backend health based on check results
-      const isHealthy = isStatusValid && isBodyValid;
-      
-      if (isHealthy) {
-        backend.consecutiveFailures = 0;
-        if (!backend.healthy) {
-          backend.healthy = true;
-          console.log(`[${this.serviceHostname}] ActiveHealthCheck: Backend ${backend.id} is now healthy`);
-          await this.saveConfig();
-        }
-      } else {
-        backend.consecutiveFailures++;
-        if (backend.consecutiveFailures >= config.consecutive_down && backend.healthy) {
-          backend.healthy = false;
-          backend.lastFailureTimestamp = Date.now();
-          console.warn(`[${this.serviceHostname}] ActiveHealthCheck: Backend ${backend.id} is now unhealthy`);
-          await this.saveConfig();
-        }
-      }
-      
-      return backend.healthy;
-    } catch (error) {
-      console.error(`[${this.serviceHostname}] ActiveHealthCheck error for ${backend.id}: ${error}`);
-      backend.consecutiveFailures++;
-      
-      if (backend.consecutiveFailures >= (this.config.activeHealthChecks?.consecutive_down || 3) && backend.healthy) {
-        backend.healthy = false;
-        backend.lastFailureTimestamp = Date.now();
-        await this.saveConfig();
-      }
-      
-      return backend.healthy;
+      await this.saveConfig();
+    }
+
+    return backend.healthy;
+  }
+
+  /**
+   * Probe from every region in check_regions through a probe object placed there. The check passes
+   * when more than half of the regions pass; a region that cannot be reached counts as failing.
+   */
+  private async runRegionalHealthCheck(config: ActiveHealthCheckConfig, backend: Backend, timestamp: number): Promise<HealthCheckRecord> {
+    const regions = config.check_regions!;
+    const results = await Promise.all(regions.map(region =>
+      this.probeFromRegion(region, config, backend).catch((error): ProbeResult => ({
+        healthy: false,
+        responseTime: Date.now() - timestamp,
+        error: `Region probe unavailable: ${error instanceof Error ? error.message : String(error)}`
+      }))
+    ));
+
+    const outcome: Record<string, boolean> = {};
+    regions.forEach((region, i) => outcome[region] = results[i].healthy);
+    const passing = results.filter(result => result.healthy).length;
+    const failedIndex = results.findIndex(result => !result.healthy);
+    const reported = results[failedIndex === -1 ? 0 : failedIndex];
+
+    return {
+      timestamp,
+      healthy: passing * 2 > regions.length,
+      responseTime: Math.max(...results.map(result => result.responseTime)),
+      statusCode: reported.statusCode,
+      error: failedIndex === -1 ? undefined : `${regions[failedIndex]}: ${reported.error}`,
+      failedAssertions: reported.failedAssertions,
+      attempts: results.reduce((sum, result) => sum + (result.attempts ?? 1), 0),
+      certificateUnknown: results.find(result => result.certificateUnknown)?.certificateUnknown,
+      regions: outcome
+    };
+  }
+
+  private async probeFromRegion(region: string, config: ActiveHealthCheckConfig, backend: Backend): Promise<ProbeResult> {
+    const namespace = this.env.LOAD_BALANCER_DO;
+    const id = namespace.idFromName(`${REGION_PROBE_PREFIX}${region}/${this.serviceHostname}`);
+    const stub = namespace.get(id, { locationHint: CHECK_REGION_LOCATION_HINTS[region] });
+    const response = await stub.fetch('https://region-probe/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ config, backend: { id: backend.id, url: backend.url }, heloName: this.serviceHostname })
+    });
+    if (!response.ok) {
+      throw new Error(`status ${response.status}`);
+    }
+    return await response.json() as ProbeResult;
+  }
+
+  /**
+   * Entry point of a region probe object: runs one probe, with retries, for the service that created it
+   */
+  private async handleRegionProbeRequest(request: Request): Promise<Response> {
+    if (request.method !== 'POST') {
+      return new Response('Method not allowed', { status: 405 });
     }
+    const { config, backend, heloName } = await request.json() as {
+      config: ActiveHealthCheckConfig;
+      backend: Pick<Backend, 'id' | 'url'>;
+      heloName?: string;
+    };
+    const result = await runHealthProbeWithRetries(config, backend as Backend, { heloName });
+    return new Response(JSON.stringify(result), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  private async saveHealthCheckStates() {
+    const backendIds = new Set(this.config.pools.flatMap(pool => pool.backends.map(backend => backend.id)));
+    this.healthCheckTracker.prune(backendIds);
+    await this.state.storage.put("healthCheckStates", this.healthCheckTracker.getStates());
   }
 
   private async handlePassiveHealthCheck(backend: Backend, statusCode: number, responseTimeMs?: number): Promise<boolean> {
@@ -1974,6 +3379,18 @@ export class LoadBalancerDO implements DurableObject {
 
   async handleUpdateService(request: Request): Promise<Response> {
     const update = await request.json() as UpdateServiceConfigRequest;
+
+    const healthCheckError = (update.activeHealthChecks && validateActiveHealthCheck(update.activeHealthChecks))
+      || validateHealthMonitors(update.monitors || this.config.monitors || [], update.pools || this.config.pools)
+      || validateHealthOverrides(update.pools || [])
+      || validateMirrors(update.pools || [])
+      || validateMaintenanceWindows(update.maintenanceWindows || this.config.maintenanceWindows || [], update.pools || this.config.pools);
+    if (healthCheckError) {
+      return new Response(JSON.stringify({ error: healthCheckError }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
     
     // Apply updates to the config
     if (update.pools) {
@@ -2013,6 +3430,14 @@ export class LoadBalancerDO implements DurableObject {
         ...update.activeHealthChecks
       };
     }
+
+    if (update.monitors) {
+      this.config.monitors = update.monitors;
+    }
+
+    if (update.maintenanceWindows) {
+      this.replaceMaintenanceWindows(update.maintenanceWindows);
+    }
     
     if (update.retryPolicy) {
       this.config.retryPolicy = {
@@ -2030,9 +3455,13 @@ export class LoadBalancerDO implements DurableObject {
         ...this.config.observability,
         ...update.observability
       };
+      this.logStore?.setRetentionDays(this.config.observability.log_retention_days);
     }
     
+    await this.evaluateMaintenance(Date.now());
     await this.saveConfig();
+    await this.scheduleHealthCheckAlarm();
+    await this.scheduleMaintenanceAlarm();
     
     // Update the load balancer engine with new config
     if (this.loadBalancerEngine) {
@@ -2052,18 +3481,124 @@ export class LoadBalancerDO implements DurableObject {
     for (const pool of this.config.pools) {
       const backendIndex = pool.backends.findIndex(b => b.id === backendId);
       if (backendIndex !== -1) {
-        // Update backend properties
-        pool.backends[backendIndex] = {
-          ...pool.backends[backendIndex],
-          ...updates
-        };
+        const backend = pool.backends[backendIndex];
+        const wasEnabled = backend.enabled !== false;
+        // Update backend properties in place so in-flight requests keep counting against it
+        Object.assign(backend, updates);
+        if (updates.enabled === false && wasEnabled) {
+          this.startDrain(backend);
+        } else if (updates.enabled === true && backend.draining) {
+          this.endDrain(backend);
+        }
         await this.saveConfig();
-        return pool.backends[backendIndex];
+        return backend;
       }
     }
     return null; // Backend not found
   }
 
+  /**
+   * Stop sending new sessions to a backend. Pinned sessions and in-flight requests continue until
+   * session_affinity.drain_duration has passed or, without a drain duration, until nothing is in flight.
+   */
+  private startDrain(backend: Backend, remove: boolean = false, now: number = Date.now()): void {
+    const drainMs = (this.config.load_balancer.session_affinity?.drain_duration || 0) * 1000;
+    backend.enabled = false;
+    backend.draining = true;
+    backend.drainStartedAt = now;
+    backend.drainDeadline = drainMs > 0 ? now + drainMs : undefined;
+    backend.removeAfterDrain = remove || undefined;
+
+    this.addLogEntry('info', `Backend ${backend.id} draining${remove ? ' before removal' : ''}`, 'config', {
+      backendId: backend.id,
+      drainDeadline: backend.drainDeadline,
+      outstandingRequests: backend.outstandingRequests || 0
+    });
+
+    if (backend.drainDeadline !== undefined) {
+      this.state.waitUntil(this.scheduleDrainAlarm());
+    } else {
+      this.completeDrains(now);
+    }
+  }
+
+  private endDrain(backend: Backend): void {
+    backend.draining = undefined;
+    backend.drainStartedAt = undefined;
+    backend.drainDeadline = undefined;
+    backend.removeAfterDrain = undefined;
+  }
+
+  /**
+   * Finish drains that are over and drop drained backends that were removed from the config.
+   * Returns true when the config changed.
+   */
+  private completeDrains(now: number = Date.now()): boolean {
+    let changed = false;
+
+    for (const pool of this.config.pools) {
+      for (const backend of pool.backends.filter(b => b.draining)) {
+        const inFlight = (backend.outstandingRequests || 0) + (this.metrics.backendMetrics[backend.id]?.connectionsActive || 0);
+        const done = backend.drainDeadline !== undefined ? now >= backend.drainDeadline : inFlight === 0;
+        if (!done) continue;
+
+        const removed = !!backend.removeAfterDrain;
+        const drainDurationMs = now - (backend.drainStartedAt || now);
+        if (removed) {
+          pool.backends = pool.backends.filter(b => b !== backend);
+        } else {
+          this.endDrain(backend);
+        }
+        changed = true;
+
+        this.addLogEntry('info', `Backend ${backend.id} drained${removed ? ' and removed' : ''}`, 'config', {
+          backendId: backend.id,
+          drainDurationMs,
+          inFlight
+        });
+      }
+    }
+
+    return changed;
+  }
+
+  /**
+   * Make sure the alarm fires by the earliest drain deadline
+   */
+  private async scheduleDrainAlarm(): Promise<void> {
+    const deadlines = this.config.pools.flatMap(pool => pool.backends)
+      .filter(b => b.draining && b.drainDeadline !== undefined)
+      .map(b => b.drainDeadline!);
+    if (deadlines.length === 0) return;
+
+    const earliest = Math.min(...deadlines);
+    const currentAlarm = await this.state.storage.getAlarm();
+    if (currentAlarm == null || currentAlarm > earliest) {
+      await this.state.storage.setAlarm(earliest);
+    }
+  }
+
+  /**
+   * Backends missing from a replaced pool list keep serving their pinned sessions and
+   * in-flight requests: they are put back into their pool as draining and removed once drained.
+   */
+  private drainRemovedBackends(previousPools: OriginPool[]): void {
+    const currentIds = new Set(this.config.pools.flatMap(pool => pool.backends.map(b => b.id)));
+    const drainMs = (this.config.load_balancer.session_affinity?.drain_duration || 0) * 1000;
+
+    for (const previousPool of previousPools) {
+      for (const backend of previousPool.backends) {
+        if (currentIds.has(backend.id) || (backend.enabled === false && !backend.draining)) continue;
+        if (!drainMs && !backend.outstandingRequests) continue;
+
+        const pool = this.config.pools.find(p => p.id === previousPool.id) || this.config.pools[0];
+        if (!pool) continue;
+        pool.backends.push(backend);
+        this.startDrain(backend, true);
+      }
+    }
+  }
+
   /**
    * Add a new backend to a pool
    */
@@ -2191,6 +3726,14 @@ export class LoadBalancerDO implements DurableObject {
       this.logEntries = this.logEntries.slice(0, this.maxLogEntries);
     }
 
+    try {
+      this.logStore?.append(logEntry);
+    } catch (error) {
+      console.error(`[${this.serviceHostname}] Failed to persist log entry:`, error);
+    }
+
+    this.logShipper.enqueue(logEntry);
+
     // Also log to console for debugging
     const logLevel = level.toUpperCase();
     const timestamp = new Date(logEntry.timestamp).toISOString();
@@ -2204,6 +3747,36 @@ export class LoadBalancerDO implements DurableObject {
   async handleLogsRequest(request: Request): Promise<Response> {
     try {
       const url = new URL(request.url);
+
+      // Persisted logs: richer filters and cursor pagination
+      if (this.logStore) {
+        const query = this.parseLogQuery(url.searchParams);
+        const cursor = url.searchParams.get('cursor');
+        if (cursor && !/^\d+$/.test(cursor)) {
+          return new Response(JSON.stringify({
+            success: false,
+            error: "Invalid cursor"
+          }), { status: 400, headers: { "Content-Type": "application/json" } });
+        }
+
+        const limit = Math.max(1, Math.min(parseInt(url.searchParams.get('limit') || '100') || 100, 1000));
+        const offset = Math.max(0, parseInt(url.searchParams.get('offset') || '0') || 0);
+        const page = this.logStore.query({ ...query, cursor: cursor || undefined, offset, limit });
+
+        // total, limit and offset keep the response of the in-memory log; nextCursor is the cheaper way to page
+        return new Response(JSON.stringify({
+          success: true,
+          logs: page.logs,
+          total: page.total,
+          limit,
+          offset,
+          nextCursor: page.nextCursor,
+          filters: query
+        }), {
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+
       const level = url.searchParams.get('level');
       const category = url.searchParams.get('category');
       const limit = Math.min(parseInt(url.searchParams.get('limit') || '100'), 1000);
@@ -2242,12 +3815,59 @@ export class LoadBalancerDO implements DurableObject {
     }
   }
 
+  /**
+   * Export persisted logs matching the same filters as the logs endpoint as NDJSON, oldest first
+   */
+  handleLogsExportRequest(request: Request): Response {
+    if (!this.logStore) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: "Log storage unavailable"
+      }), { status: 503, headers: { "Content-Type": "application/json" } });
+    }
+
+    const query = this.parseLogQuery(new URL(request.url).searchParams);
+    const filename = `${this.serviceHostname}-logs-${new Date().toISOString().replace(/[:.]/g, '-')}.ndjson`;
+
+    return new Response(this.logStore.exportNdjson(query), {
+      headers: {
+        "Content-Type": "application/x-ndjson",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "no-store"
+      }
+    });
+  }
+
+  /**
+   * Log filters: level, category, since/until (ms or ISO 8601), backendId, statusCode, clientIp, q (free text)
+   */
+  private parseLogQuery(params: URLSearchParams): Omit<LogQuery, 'cursor' | 'limit'> {
+    const parseTime = (value: string | null) => {
+      if (!value) return undefined;
+      const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+      return Number.isNaN(time) ? undefined : time;
+    };
+    const statusCode = params.get('statusCode');
+
+    return {
+      level: params.get('level') || undefined,
+      category: params.get('category') || undefined,
+      since: parseTime(params.get('since')),
+      until: parseTime(params.get('until')),
+      backendId: params.get('backendId') || undefined,
+      statusCode: statusCode ? parseInt(statusCode) : undefined,
+      clientIp: params.get('clientIp') || undefined,
+      search: params.get('q') || undefined
+    };
+  }
+
   /**
    * Clear all logs
    */
   async handleClearLogsRequest(): Promise<Response> {
     try {
       this.logEntries = [];
+      this.logStore?.clear();
       this.addLogEntry('info', 'Logs cleared by user request', 'system');
       
       return new Response(JSON.stringify({
@@ -2266,6 +3886,616 @@ export class LoadBalancerDO implements DurableObject {
     }
   }
 
+  /**
+   * Time-series analytics. Accepts an AnalyticsRequest as query parameters (GET) or JSON body (POST).
+   */
+  async handleAnalyticsRequest(request: Request): Promise<Response> {
+    if (!this.analytics) {
+      return new Response(JSON.stringify({
+        error: "Analytics storage unavailable"
+      }), { status: 503, headers: { "Content-Type": "application/json" } });
+    }
+
+    let analyticsRequest: AnalyticsRequest;
+    if (request.method === 'POST') {
+      try {
+        analyticsRequest = await request.json() as AnalyticsRequest;
+      } catch {
+        return new Response(JSON.stringify({ error: "Invalid JSON body" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+    } else if (request.method === 'GET') {
+      const params = new URL(request.url).searchParams;
+      const numberParam = (name: string) => params.has(name) ? Number(params.get(name)) : undefined;
+      analyticsRequest = {
+        since: numberParam('since'),
+        until: numberParam('until'),
+        step: numberParam('step'),
+        metrics: params.get('metrics')?.split(',').map(m => m.trim()).filter(Boolean)
+      };
+    } else {
+      return new Response('Method not allowed', { status: 405 });
+    }
+
+    try {
+      const result = this.analytics.query(analyticsRequest, this.config.pools);
+      return new Response(JSON.stringify(result), {
+        headers: { "Content-Type": "application/json" }
+      });
+    } catch (error: any) {
+      return new Response(JSON.stringify({
+        error: "Invalid analytics query",
+        details: error.message
+      }), { status: 400, headers: { "Content-Type": "application/json" } });
+    }
+  }
+
+  /**
+   * CRUD for alert rules. Individual rules are addressed with `?id=`.
+   */
+  private async handleAlertRulesRequest(request: Request): Promise<Response> {
+    const ruleId = new URL(request.url).searchParams.get('id');
+    const rules = this.config.alertRules || [];
+
+    try {
+      switch (request.method) {
+        case 'GET': {
+          const withState = (rule: AlertRule) => ({ ...rule, state: this.alertRuleEvaluator.getStates(rule.id) });
+          if (ruleId) {
+            const rule = rules.find(r => r.id === ruleId);
+            return rule ? json({ rule: withState(rule) }) : json({ error: 'Alert rule not found' }, 404);
+          }
+          return json({ rules: rules.map(withState) });
+        }
+
+        case 'POST':
+        case 'PUT': {
+          const body = await request.json() as Partial<AlertRule>;
+          const existing = ruleId ? rules.find(r => r.id === ruleId) : undefined;
+          if (ruleId && !existing) {
+            return json({ error: 'Alert rule not found' }, 404);
+          }
+          if (!ruleId && request.method === 'PUT') {
+            return json({ error: 'Alert rule ID is required for updates' }, 400);
+          }
+
+          const rule = { ...existing, ...body, id: existing?.id || body.id || `rule-${crypto.randomUUID()}` } as AlertRule;
+          rule.enabled = rule.enabled ?? true;
+          rule.actions = rule.actions || {};
+          const validationError = this.validateAlertRule(rule);
+          if (validationError) {
+            return json({ error: validationError }, 400);
+          }
+          if (!existing && rules.some(r => r.id === rule.id)) {
+            return json({ error: `Alert rule ${rule.id} already exists` }, 409);
+          }
+
+          this.config.alertRules = existing ? rules.map(r => r.id === rule.id ? rule : r) : [...rules, rule];
+          this.alertRuleEvaluator.resetRule(rule.id);
+          await this.saveConfig();
+          await this.scheduleAlertRuleAlarm();
+          this.addLogEntry('info', `Alert rule ${existing ? 'updated' : 'created'}: ${rule.name}`, 'config', { ruleId: rule.id });
+
+          return json({ success: true, rule }, existing ? 200 : 201);
+        }
+
+        case 'DELETE': {
+          if (!ruleId) {
+            return json({ error: 'Alert rule ID is required' }, 400);
+          }
+          if (!rules.some(r => r.id === ruleId)) {
+            return json({ error: 'Alert rule not found' }, 404);
+          }
+
+          this.config.alertRules = rules.filter(r => r.id !== ruleId);
+          this.alertRuleEvaluator.resetRule(ruleId);
+          await this.saveConfig();
+          await this.state.storage.put("alertRuleStates", this.alertRuleEvaluator.getStates());
+          this.addLogEntry('info', `Alert rule deleted: ${ruleId}`, 'config', { ruleId });
+
+          return json({ success: true });
+        }
+
+        default:
+          return new Response('Method not allowed', { status: 405 });
+      }
+    } catch (error) {
+      return json({
+        error: 'Failed to process alert rule request',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }, 400);
+    }
+  }
+
+  /**
+   * CRUD for named health monitors. Individual monitors are addressed with `?id=`; pools attach one
+   * through their `monitor` field, and a monitor still attached to a pool cannot be deleted.
+   */
+  private async handleMonitorsRequest(request: Request): Promise<Response> {
+    const monitorId = new URL(request.url).searchParams.get('id');
+    const monitors = this.config.monitors || [];
+    const attachedPools = (id: string) => this.config.pools.filter(pool => pool.monitor === id).map(pool => pool.id);
+
+    try {
+      switch (request.method) {
+        case 'GET': {
+          const nextRuns = this.monitorScheduler.getNextRuns();
+          const describe = (monitor: HealthMonitor) => ({ ...monitor, pools: attachedPools(monitor.id), nextRun: nextRuns[monitor.id] });
+          if (monitorId) {
+            const monitor = monitors.find(m => m.id === monitorId);
+            return monitor ? json({ monitor: describe(monitor) }) : json({ error: 'Monitor not found' }, 404);
+          }
+          return json({ monitors: monitors.map(describe) });
+        }
+
+        case 'POST':
+        case 'PUT': {
+          const body = await request.json() as Partial<HealthMonitor>;
+          const existing = monitorId ? monitors.find(m => m.id === monitorId) : undefined;
+          if (monitorId && !existing) {
+            return json({ error: 'Monitor not found' }, 404);
+          }
+          if (!monitorId && request.method === 'PUT') {
+            return json({ error: 'Monitor ID is required for updates' }, 400);
+          }
+
+          const monitor: HealthMonitor = {
+            enabled: true,
+            type: 'http',
+            path: '/',
+            timeout: 5,
+            interval: 60,
+            retries: 1,
+            consecutive_up: 2,
+            consecutive_down: 3,
+            ...existing,
+            ...body,
+            id: existing?.id || body.id || `monitor-${crypto.randomUUID()}`
+          };
+          if (!existing && monitors.some(m => m.id === monitor.id)) {
+            return json({ error: `Monitor ${monitor.id} already exists` }, 409);
+          }
+          const updated = existing ? monitors.map(m => m.id === monitor.id ? monitor : m) : [...monitors, monitor];
+          const validationError = validateHealthMonitors(updated, this.config.pools);
+          if (validationError) {
+            return json({ error: validationError }, 400);
+          }
+
+          this.config.monitors = updated;
+          this.monitorScheduler.reset(monitor.id);
+          await this.saveConfig();
+          await this.scheduleHealthCheckAlarm();
+          this.addLogEntry('info', `Monitor ${existing ? 'updated' : 'created'}: ${monitor.name || monitor.id}`, 'config', { monitorId: monitor.id });
+
+          return json({ success: true, monitor }, existing ? 200 : 201);
+        }
+
+        case 'DELETE': {
+          if (!monitorId) {
+            return json({ error: 'Monitor ID is required' }, 400);
+          }
+          if (!monitors.some(m => m.id === monitorId)) {
+            return json({ error: 'Monitor not found' }, 404);
+          }
+          const pools = attachedPools(monitorId);
+          if (pools.length > 0) {
+            return json({ error: `Monitor ${monitorId} is still attached to pools ${pools.join(', ')}` }, 409);
+          }
+
+          this.config.monitors = monitors.filter(m => m.id !== monitorId);
+          this.monitorScheduler.reset(monitorId);
+          await this.saveConfig();
+          this.addLogEntry('info', `Monitor deleted: ${monitorId}`, 'config', { monitorId });
+
+          return json({ success: true });
+        }
+
+        default:
+          return new Response('Method not allowed', { status: 405 });
+      }
+    } catch (error) {
+      return json({
+        error: 'Failed to process monitor request',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }, 400);
+    }
+  }
+
+  /**
+   * Manual health overrides. GET lists the overrides set; PUT/POST with `?backend=` or `?pool=` sets one
+   * from `{ mode, expires_at?, reason? }`, and DELETE (or mode 'auto') clears it.
+   */
+  private async handleOverridesRequest(request: Request): Promise<Response> {
+    const params = new URL(request.url).searchParams;
+    const backendId = params.get('backend');
+    const poolId = params.get('pool');
+    const now = Date.now();
+
+    try {
+      if (request.method === 'GET') {
+        const overrides = this.config.pools.flatMap(pool => [
+          ...(pool.health_override ? [{ poolId: pool.id, ...pool.health_override }] : []),
+          ...pool.backends.filter(b => b.health_override).map(b => ({
+            poolId: pool.id,
+            backendId: b.id,
+            ...b.health_override,
+            effectiveMode: getHealthOverride(pool, b, now)
+          }))
+        ]);
+        return json({ overrides });
+      }
+
+      if (!['PUT', 'POST', 'DELETE'].includes(request.method)) {
+        return new Response('Method not allowed', { status: 405 });
+      }
+      if (!backendId === !poolId) {
+        return json({ error: 'Specify either ?backend= or ?pool=' }, 400);
+      }
+      const target = backendId
+        ? this.config.pools.flatMap(pool => pool.backends).find(b => b.id === backendId)
+        : this.config.pools.find(pool => pool.id === poolId);
+      if (!target) {
+        return json({ error: `${backendId ? 'Backend' : 'Pool'} not found` }, 404);
+      }
+
+      const body: Partial<HealthOverride> = request.method === 'DELETE' ? { mode: 'auto' } : await request.json();
+      const validationError = validateHealthOverride(body);
+      if (validationError) {
+        return json({ error: validationError }, 400);
+      }
+      if (body.expires_at !== undefined && body.expires_at <= now) {
+        return json({ error: 'expires_at is in the past' }, 400);
+      }
+
+      if (body.mode === 'auto') {
+        delete target.health_override;
+      } else {
+        target.health_override = { mode: body.mode!, expires_at: body.expires_at, reason: body.reason, set_at: now };
+      }
+      await this.saveConfig();
+      await this.scheduleMaintenanceAlarm();
+      this.addLogEntry('info', `Health override for ${backendId ? 'backend' : 'pool'} ${backendId || poolId}: ${body.mode}${body.reason ? ` (${body.reason})` : ''}`, 'health', {
+        backendId: backendId || undefined,
+        poolId: poolId || undefined,
+        mode: body.mode,
+        expiresAt: body.expires_at
+      });
+
+      return json({ success: true, health_override: target.health_override || null });
+    } catch (error) {
+      return json({
+        error: 'Failed to process override request',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }, 400);
+    }
+  }
+
+  /**
+   * CRUD for maintenance windows, addressed with `?id=`. Deleting or disabling a window in progress
+   * re-enables its backends straight away.
+   */
+  private async handleMaintenanceRequest(request: Request): Promise<Response> {
+    const windowId = new URL(request.url).searchParams.get('id');
+    const windows = this.config.maintenanceWindows || [];
+
+    try {
+      switch (request.method) {
+        case 'GET': {
+          if (windowId) {
+            const window = windows.find(w => w.id === windowId);
+            return window ? json({ window }) : json({ error: 'Maintenance window not found' }, 404);
+          }
+          return json({ windows });
+        }
+
+        case 'POST':
+        case 'PUT': {
+          const body = await request.json() as Partial<MaintenanceWindow>;
+          const existing = windowId ? windows.find(w => w.id === windowId) : undefined;
+          if (windowId && !existing) {
+            return json({ error: 'Maintenance window not found' }, 404);
+          }
+          if (!windowId && request.method === 'PUT') {
+            return json({ error: 'Maintenance window ID is required for updates' }, 400);
+          }
+
+          const window = withoutWindowState({
+            enabled: true,
+            ...existing,
+            ...body,
+            id: existing?.id || body.id || `maintenance-${crypto.randomUUID()}`
+          } as MaintenanceWindow);
+          if (!existing && windows.some(w => w.id === window.id)) {
+            return json({ error: `Maintenance window ${window.id} already exists` }, 409);
+          }
+          const updated = existing ? windows.map(w => w.id === window.id ? window : w) : [...windows, window];
+          const validationError = validateMaintenanceWindows(updated, this.config.pools);
+          if (validationError) {
+            return json({ error: validationError }, 400);
+          }
+
+          this.replaceMaintenanceWindows(updated);
+          await this.evaluateMaintenance(Date.now());
+          await this.saveConfig();
+          await this.scheduleMaintenanceAlarm();
+          this.addLogEntry('info', `Maintenance window ${existing ? 'updated' : 'created'}: ${window.name || window.id}`, 'config', { windowId: window.id });
+
+          return json({ success: true, window: this.config.maintenanceWindows!.find(w => w.id === window.id) }, existing ? 200 : 201);
+        }
+
+        case 'DELETE': {
+          if (!windowId) {
+            return json({ error: 'Maintenance window ID is required' }, 400);
+          }
+          if (!windows.some(w => w.id === windowId)) {
+            return json({ error: 'Maintenance window not found' }, 404);
+          }
+
+          this.replaceMaintenanceWindows(windows.filter(w => w.id !== windowId));
+          await this.saveConfig();
+          this.addLogEntry('info', `Maintenance window deleted: ${windowId}`, 'config', { windowId });
+
+          return json({ success: true });
+        }
+
+        default:
+          return new Response('Method not allowed', { status: 405 });
+      }
+    } catch (error) {
+      return json({
+        error: 'Failed to process maintenance window request',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }, 400);
+    }
+  }
+
+  /**
+   * Per-pool load shedding: GET lists settings and shed counters (optionally ?id=<poolId>),
+   * POST/PUT ?id= merges settings, DELETE ?id= turns shedding off
+   */
+  private async handleLoadSheddingRequest(request: Request): Promise<Response> {
+    const poolId = new URL(request.url).searchParams.get('id');
+    const describe = (pool: OriginPool) => ({
+      poolId: pool.id,
+      load_shedding: pool.load_shedding || { default_policy: 'none' },
+      shedRequests: this.metrics.poolMetrics?.[pool.id]?.shedRequests || 0
+    });
+
+    const pool = poolId ? this.config.pools.find(p => p.id === poolId) : undefined;
+    if (poolId && !pool) {
+      return json({ error: 'Pool not found' }, 404);
+    }
+
+    try {
+      switch (request.method) {
+        case 'GET':
+          return pool ? json(describe(pool)) : json({ pools: this.config.pools.map(describe) });
+
+        case 'POST':
+        case 'PUT': {
+          if (!pool) {
+            return json({ error: 'Pool ID is required' }, 400);
+          }
+          const settings = { ...pool.load_shedding, ...await request.json() as OriginPool['load_shedding'] };
+          if (settings.percent !== undefined && !(settings.percent >= 0 && settings.percent <= 100)) {
+            return json({ error: 'percent must be between 0 and 100' }, 400);
+          }
+          if (settings.default_policy && !['none', 'shed_new', 'shed_new_and_existing'].includes(settings.default_policy)) {
+            return json({ error: 'default_policy must be none, shed_new or shed_new_and_existing' }, 400);
+          }
+          if (settings.session_affinity_policy && !['honor', 'shed'].includes(settings.session_affinity_policy)) {
+            return json({ error: 'session_affinity_policy must be honor or shed' }, 400);
+          }
+
+          pool.load_shedding = settings;
+          await this.saveConfig();
+          this.addLogEntry('info', `Load shedding for pool ${pool.id} set to ${settings.percent || 0}% (${settings.default_policy || 'none'})`, 'config', {
+            poolId: pool.id,
+            ...settings
+          });
+          return json({ success: true, ...describe(pool) });
+        }
+
+        case 'DELETE':
+          if (!pool) {
+            return json({ error: 'Pool ID is required' }, 400);
+          }
+          pool.load_shedding = undefined;
+          await this.saveConfig();
+          this.addLogEntry('info', `Load shedding for pool ${pool.id} turned off`, 'config', { poolId: pool.id });
+          return json({ success: true, ...describe(pool) });
+
+        default:
+          return new Response('Method not allowed', { status: 405 });
+      }
+    } catch (error) {
+      return json({
+        error: 'Failed to process load shedding request',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }, 400);
+    }
+  }
+
+  /**
+   * Canary / blue-green split: GET returns the split with per-side counters for the current step,
+   * POST/PUT merges settings and restarts it at its first step, DELETE removes it
+   */
+  private async handleTrafficSplitRequest(request: Request): Promise<Response> {
+    const describe = () => ({
+      traffic_split: this.config.load_balancer.traffic_split || null,
+      counters: this.trafficSplit.getCounters()
+    });
+
+    try {
+      switch (request.method) {
+        case 'GET':
+          return json(describe());
+
+        case 'POST':
+        case 'PUT': {
+          const split = { ...this.config.load_balancer.traffic_split, ...await request.json() as Partial<TrafficSplitConfig> } as TrafficSplitConfig;
+          split.enabled = split.enabled ?? true;
+          split.percent = split.percent ?? 0;
+          const validationError = this.validateTrafficSplit(split);
+          if (validationError) {
+            return json({ error: validationError }, 400);
+          }
+
+          this.trafficSplit.start(split);
+          this.config.load_balancer.traffic_split = split;
+          await this.saveConfig();
+          await this.scheduleTrafficSplitAlarm();
+          this.addLogEntry('info', `Traffic split started: ${split.percent}% to canary pool ${split.canary.pool_id}`, 'config', {
+            baseline: split.baseline,
+            canary: split.canary,
+            steps: split.steps?.length || 0
+          });
+          return json({ success: true, ...describe() });
+        }
+
+        case 'DELETE':
+          this.config.load_balancer.traffic_split = undefined;
+          this.trafficSplit.reset();
+          await this.saveConfig();
+          this.addLogEntry('info', 'Traffic split removed', 'config');
+          return json({ success: true, ...describe() });
+
+        default:
+          return new Response('Method not allowed', { status: 405 });
+      }
+    } catch (error) {
+      return json({
+        error: 'Failed to process traffic split request',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }, 400);
+    }
+  }
+
+  /** `pools` is the pool list the split will run against: a config update may replace the current one */
+  private validateTrafficSplit(split: TrafficSplitConfig, pools: Partial<OriginPool>[] = this.config.pools): string | null {
+    for (const side of ['baseline', 'canary'] as const) {
+      const target = split[side];
+      const pool = target?.pool_id ? pools.find(p => p.id === target.pool_id) : undefined;
+      if (!pool) {
+        return `${side}.pool_id must name an existing pool`;
+      }
+      if (target.backend_id && !pool.backends?.some(b => b.id === target.backend_id)) {
+        return `${side}.backend_id must name a backend in pool ${pool.id}`;
+      }
+    }
+    if (split.baseline.pool_id === split.canary.pool_id && split.baseline.backend_id === split.canary.backend_id) {
+      return 'baseline and canary must differ';
+    }
+    const inRange = (percent: unknown) => typeof percent === 'number' && percent >= 0 && percent <= 100;
+    if (!inRange(split.percent)) {
+      return 'percent must be between 0 and 100';
+    }
+    if (split.steps && (!Array.isArray(split.steps) ||
+        split.steps.some(step => !inRange(step.percent) || typeof step.duration !== 'number' || step.duration < 0))) {
+      return 'steps must each have a percent between 0 and 100 and a duration in seconds';
+    }
+    const rollback = split.rollback;
+    if (rollback && ((rollback.min_requests !== undefined && !(rollback.min_requests >= 1)) ||
+        (rollback.max_error_rate_increase !== undefined && !(rollback.max_error_rate_increase >= 0)) ||
+        (rollback.max_latency_ratio !== undefined && !(rollback.max_latency_ratio >= 1)))) {
+      return 'rollback thresholds must be min_requests >= 1, max_error_rate_increase >= 0 and max_latency_ratio >= 1';
+    }
+    return null;
+  }
+
+  /**
+   * Alert history: GET lists (filters: id, status, type, severity, pool, backend, since, limit);
+   * POST /alerts/acknowledge?id= and /alerts/resolve?id= change state.
+   */
+  private async handleAlertsRequest(request: Request, action?: string): Promise<Response> {
+    const params = new URL(request.url).searchParams;
+
+    if (request.method === 'GET' && !action) {
+      const id = params.get('id');
+      if (id) {
+        const alert = await this.alertStore.get(id);
+        return alert ? json({ alert }) : json({ error: 'Alert not found' }, 404);
+      }
+
+      const status = params.get('status')?.split(',').filter(Boolean) as NonNullable<Alert['status']>[] | undefined;
+      const alerts = await this.alertStore.list({
+        status: status?.length ? status : undefined,
+        type: params.get('type') || undefined,
+        severity: params.get('severity') || undefined,
+        poolId: params.get('pool') || undefined,
+        backendId: params.get('backend') || undefined,
+        since: params.has('since') ? Number(params.get('since')) : undefined,
+        limit: params.has('limit') ? Number(params.get('limit')) : undefined
+      });
+      return json({ alerts, count: alerts.length });
+    }
+
+    if (request.method !== 'POST' || (action !== 'acknowledge' && action !== 'resolve')) {
+      return new Response('Method not allowed', { status: 405 });
+    }
+
+    const body = await request.json().catch(() => ({})) as { id?: string; by?: string };
+    const id = params.get('id') || body.id;
+    if (!id) {
+      return json({ error: 'Alert ID is required' }, 400);
+    }
+    // index.ts sets X-LB-Admin-User from the authenticated caller
+    const by = request.headers.get('X-LB-Admin-User') || body.by || 'admin';
+
+    const existing = await this.alertStore.get(id);
+    if (!existing) {
+      return json({ error: 'Alert not found' }, 404);
+    }
+    const previousStatus = existing.status;
+
+    if (action === 'acknowledge') {
+      if (previousStatus === 'resolved') {
+        return json({ error: 'Alert is already resolved' }, 409);
+      }
+      const alert = await this.alertStore.acknowledge(id, by);
+      if (previousStatus !== 'acknowledged') {
+        this.addLogEntry('info', `Alert acknowledged by ${by}: ${existing.message}`, 'alert', { alertId: id, by });
+      }
+      return json({ success: true, alert });
+    }
+
+    const alert = await this.alertStore.resolve(id, by);
+    if (alert && previousStatus !== 'resolved') {
+      this.addLogEntry('info', `Alert resolved by ${by}: ${alert.message}`, 'alert', { alertId: id, by });
+      if (this.loadBalancerEngine) {
+        this.state.waitUntil(this.loadBalancerEngine.notifyAlert(alert).catch(error =>
+          console.error(`[${this.serviceHostname}] Failed to send resolve notification for alert ${id}:`, error)));
+      }
+    }
+    return json({ success: true, alert });
+  }
+
+  private validateAlertRule(rule: AlertRule): string | null {
+    const supportedTypes: AlertRule['type'][] = ['high_latency', 'high_error_rate', 'pool_down', 'insufficient_origins'];
+    const comparisons = ['gt', 'lt', 'eq', 'gte', 'lte'];
+
+    if (!rule.name || typeof rule.name !== 'string') {
+      return 'name is required';
+    }
+    if (!supportedTypes.includes(rule.type)) {
+      return `type must be one of: ${supportedTypes.join(', ')}`;
+    }
+    if (!rule.conditions || typeof rule.conditions.threshold !== 'number' ||
+        typeof rule.conditions.duration !== 'number' || rule.conditions.duration < 0 ||
+        !comparisons.includes(rule.conditions.comparison)) {
+      return `conditions require a numeric threshold, a non-negative duration and a comparison (${comparisons.join(', ')})`;
+    }
+    if (rule.poolId && !this.config.pools.some(p => p.id === rule.poolId)) {
+      return `Pool ${rule.poolId} not found`;
+    }
+    if (rule.backendId && !this.findBackendInPools(rule.backendId)) {
+      return `Backend ${rule.backendId} not found`;
+    }
+    return null;
+  }
+
   /**
    * Get health metrics including circuit breaker states and health scores
    */
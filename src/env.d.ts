@@ -12,6 +12,8 @@ declare namespace Cloudflare {
     WEB_AUTH_USERNAME: string;
     WEB_AUTH_PASSWORD: string;
     API_SECRET: string;
+    // "true" lets X-LB-Geo-Override replace request.cf geolocation (local testing only)
+    TRUST_GEO_OVERRIDE_HEADER: string;
     // OAuth Configuration
     JWT_SECRET: string;
     GITHUB_CLIENT_ID: string;
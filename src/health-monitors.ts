@@ -0,0 +1,112 @@
+import { ActiveHealthCheckConfig, Backend, HealthMonitor, LoadBalancerServiceConfig, OriginPool } from './types';
+import { validateActiveHealthCheck } from './health-probes';
+
+// Schedule key for the service-wide activeHealthChecks, which cover pools without a monitor
+export const SERVICE_MONITOR_ID = 'activeHealthChecks';
+
+export interface ResolvedHealthCheck {
+  monitorId: string;
+  check: ActiveHealthCheckConfig;
+}
+
+/**
+ * The check that applies to a backend: its pool's monitor, or activeHealthChecks for pools without one,
+ * with the backend's monitor_override applied. Null when that check is disabled or the monitor is missing.
+ */
+export function resolveHealthCheck(config: LoadBalancerServiceConfig, pool: OriginPool, backend: Backend): ResolvedHealthCheck | null {
+  const base = pool.monitor ? config.monitors?.find(monitor => monitor.id === pool.monitor) : config.activeHealthChecks;
+  if (!base?.enabled) {
+    return null;
+  }
+  return {
+    monitorId: pool.monitor || SERVICE_MONITOR_ID,
+    check: backend.monitor_override ? { ...base, ...backend.monitor_override } : base
+  };
+}
+
+/** Reject invalid monitors, pools referring to unknown monitors and invalid backend overrides */
+export function validateHealthMonitors(monitors: HealthMonitor[], pools: Partial<OriginPool>[]): string | null {
+  const ids = new Set<string>();
+  for (const monitor of monitors) {
+    if (!monitor.id || typeof monitor.id !== 'string') {
+      return 'Every monitor needs an id';
+    }
+    if (monitor.id === SERVICE_MONITOR_ID) {
+      return `Monitor id '${SERVICE_MONITOR_ID}' is reserved`;
+    }
+    if (ids.has(monitor.id)) {
+      return `Duplicate monitor id '${monitor.id}'`;
+    }
+    ids.add(monitor.id);
+
+    if (!(monitor.interval > 0) || !(monitor.timeout > 0)) {
+      return `Monitor '${monitor.id}' needs a positive interval and timeout`;
+    }
+    const error = validateActiveHealthCheck(monitor);
+    if (error) {
+      return `Monitor '${monitor.id}': ${error}`;
+    }
+  }
+
+  for (const pool of pools) {
+    if (pool.monitor && !ids.has(pool.monitor)) {
+      return `Pool '${pool.id}' refers to unknown monitor '${pool.monitor}'`;
+    }
+    for (const backend of pool.backends || []) {
+      const error = backend.monitor_override && validateActiveHealthCheck(backend.monitor_override);
+      if (error) {
+        return `monitor_override of backend '${backend.id}': ${error}`;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Next run time of each monitor. A monitor seen for the first time waits one full interval, like the
+ * first check after the service starts.
+ */
+export class HealthMonitorScheduler {
+  private nextRuns = new Map<string, number>();
+
+  constructor(nextRuns: Record<string, number> = {}) {
+    for (const [monitorId, next] of Object.entries(nextRuns)) {
+      this.nextRuns.set(monitorId, next);
+    }
+  }
+
+  getNextRuns(): Record<string, number> {
+    return Object.fromEntries(this.nextRuns);
+  }
+
+  nextRun(monitorId: string, intervalSeconds: number, now: number = Date.now()): number {
+    let next = this.nextRuns.get(monitorId);
+    if (next === undefined) {
+      next = now + intervalSeconds * 1000;
+      this.nextRuns.set(monitorId, next);
+    }
+    return next;
+  }
+
+  isDue(monitorId: string, intervalSeconds: number, now: number = Date.now()): boolean {
+    return this.nextRun(monitorId, intervalSeconds, now) <= now;
+  }
+
+  markRun(monitorId: string, intervalSeconds: number, now: number = Date.now()): void {
+    this.nextRuns.set(monitorId, now + intervalSeconds * 1000);
+  }
+
+  /** Forget a monitor's schedule, e.g. after its interval changed */
+  reset(monitorId: string): void {
+    this.nextRuns.delete(monitorId);
+  }
+
+  /** Drop monitors that are gone */
+  prune(monitorIds: Set<string>): void {
+    for (const monitorId of this.nextRuns.keys()) {
+      if (!monitorIds.has(monitorId)) {
+        this.nextRuns.delete(monitorId);
+      }
+    }
+  }
+}
@@ -0,0 +1,493 @@
+import { connect } from 'cloudflare:sockets';
+import { ActiveHealthCheckConfig, Backend, HealthCheckAssertionFailure } from './types';
+import { readCertificateExpiry } from './tls-certificate';
+
+export type SocketConnector = (address: SocketAddress, options?: SocketOptions) => Socket;
+
+export interface ProbeResult {
+  healthy: boolean;
+  responseTime: number;
+  statusCode?: number; // HTTP status, or the SMTP reply code / LDAP result code
+  error?: string; // The connection error, or the failed assertions' reasons
+  failedAssertions?: HealthCheckAssertionFailure[];
+  attempts?: number; // Set by runHealthProbeWithRetries
+  certificateUnknown?: string; // Why min_certificate_days could not be checked; the probe does not fail for it
+}
+
+// Load balancing region codes accepted in check_regions, and the location hint of the Durable Object
+// that probes from each. A hint only applies when that object is first created.
+export const CHECK_REGION_LOCATION_HINTS: Record<string, DurableObjectLocationHint> = {
+  WNAM: 'wnam',
+  ENAM: 'enam',
+  NSAM: 'sam',
+  SSAM: 'sam',
+  WEU: 'weur',
+  EEU: 'eeur',
+  NAF: 'afr',
+  SAF: 'afr',
+  ME: 'me',
+  SAS: 'apac',
+  SEAS: 'apac',
+  NEAS: 'apac',
+  OC: 'oc'
+};
+
+const SUPPORTED_TYPES: ActiveHealthCheckConfig['type'][] = ['http', 'https', 'tcp', 'tls', 'smtp', 'ldap'];
+const DEFAULT_PORTS: Record<string, number> = {
+  'http:': 80,
+  'https:': 443,
+  'smtp:': 25,
+  'smtps:': 465,
+  'ldap:': 389,
+  'ldaps:': 636,
+  'tls:': 443
+};
+const SECURE_PROTOCOLS = ['https:', 'smtps:', 'ldaps:', 'tls:'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// "$.a.b", "$.items[0].name", "$['key with spaces']"; the leading "$" is optional
+const JSON_PATH = /^\$?((\.[^.[\]]+)|(\[\d+\])|(\['[^']*'\])|(\["[^"]*"\]))*$/;
+const JSON_PATH_SEGMENT = /\.([^.[\]]+)|\[(\d+)\]|\['([^']*)'\]|\["([^"]*)"\]/g;
+
+// LDAPv3 anonymous simple bind, message ID 1:
+// SEQUENCE { INTEGER 1, [APPLICATION 0] { INTEGER 3, OCTET STRING "", [0] "" } }
+const LDAP_ANONYMOUS_BIND = new Uint8Array([0x30, 0x0c, 0x02, 0x01, 0x01, 0x60, 0x07, 0x02, 0x01, 0x03, 0x04, 0x00, 0x80, 0x00]);
+const LDAP_BIND_RESPONSE_TAG = 0x61;
+
+class ProbeError extends Error {
+  constructor(message: string, public statusCode?: number) {
+    super(message);
+  }
+}
+
+/**
+ * Reject probe types Workers cannot run. Sockets from connect() are TCP only, so ICMP and UDP are out.
+ */
+export function validateActiveHealthCheck(config: Partial<ActiveHealthCheckConfig>): string | null {
+  if (config.type && !SUPPORTED_TYPES.includes(config.type)) {
+    return `Health check type '${config.type}' is not supported: Workers can only open TCP sockets. Use one of ${SUPPORTED_TYPES.join(', ')}`;
+  }
+  if (config.type === 'tls' && config.allow_insecure) {
+    return 'allow_insecure is not supported for tls checks: connect() always verifies the certificate';
+  }
+  if (config.port !== undefined && !(Number.isInteger(config.port) && config.port > 0 && config.port < 65536)) {
+    return 'port must be an integer between 1 and 65535';
+  }
+  if (config.retries !== undefined && !(Number.isInteger(config.retries) && config.retries >= 0)) {
+    return 'retries must be a non-negative integer';
+  }
+  for (const field of ['consecutive_up', 'consecutive_down'] as const) {
+    if (config[field] !== undefined && !(Number.isInteger(config[field]) && config[field]! >= 1)) {
+      return `${field} must be an integer of at least 1`;
+    }
+  }
+  const httpOnly = (['expected_body_regex', 'expected_json', 'expected_headers'] as const).find(field => config[field] !== undefined);
+  if (httpOnly && config.type && config.type !== 'http' && config.type !== 'https') {
+    return `${httpOnly} needs an http or https check`;
+  }
+  const patterns = [config.expected_body_regex, ...Object.values(config.expected_headers || {})];
+  for (const pattern of patterns) {
+    if (pattern !== undefined && !compiles(pattern)) {
+      return `Invalid regular expression: ${pattern}`;
+    }
+  }
+  if (config.expected_json?.some(assertion => typeof assertion?.path !== 'string' || !JSON_PATH.test(assertion.path))) {
+    return 'Each expected_json entry needs a path like "$.status" or "$.checks[0].name"';
+  }
+  if (config.max_response_time !== undefined && !(config.max_response_time > 0)) {
+    return 'max_response_time must be a positive number of milliseconds';
+  }
+  if (config.min_certificate_days !== undefined && !(config.min_certificate_days >= 0)) {
+    return 'min_certificate_days must be zero or more';
+  }
+  const unknownRegion = config.check_regions?.find(region => !CHECK_REGION_LOCATION_HINTS[region]);
+  if (unknownRegion !== undefined) {
+    return `Unknown check region '${unknownRegion}'. Use one of ${Object.keys(CHECK_REGION_LOCATION_HINTS).join(', ')}`;
+  }
+  return null;
+}
+
+/**
+ * Run the configured probe against a backend. Socket probes connect to the backend URL's host, using
+ * config.port, the URL's port or the scheme's default port. smtp/ldap checks use TLS for smtps:// and ldaps://.
+ */
+export async function runHealthProbe(
+  config: ActiveHealthCheckConfig,
+  backend: Backend,
+  options: { heloName?: string; connector?: SocketConnector } = {}
+): Promise<ProbeResult> {
+  const startTime = Date.now();
+  try {
+    let statusCode: number | undefined;
+    const failures: HealthCheckAssertionFailure[] = [];
+    switch (config.type) {
+      case 'tcp':
+      case 'tls':
+        await withSocket(config, backend, options.connector, async () => undefined);
+        break;
+      case 'smtp':
+        statusCode = await withSocket(config, backend, options.connector, socket => probeSmtp(socket, options.heloName || 'localhost'));
+        break;
+      case 'ldap':
+        statusCode = await withSocket(config, backend, options.connector, probeLdap);
+        break;
+      case 'http':
+      case 'https':
+      default:
+        statusCode = await probeHttp(config, backend, failures);
+        break;
+    }
+
+    const responseTime = Date.now() - startTime;
+    if (config.max_response_time !== undefined && responseTime > config.max_response_time) {
+      failures.push({ assertion: 'response_time', reason: `Response took ${responseTime}ms, max ${config.max_response_time}ms` });
+    }
+    const certificateUnknown = config.min_certificate_days === undefined
+      ? undefined
+      : await checkCertificate(config, backend, options.connector, failures);
+
+    if (failures.length > 0) {
+      return {
+        healthy: false,
+        responseTime,
+        statusCode,
+        error: failures.map(failure => failure.reason).join('; '),
+        failedAssertions: failures,
+        certificateUnknown
+      };
+    }
+    return { healthy: true, responseTime, statusCode, certificateUnknown };
+  } catch (error) {
+    return {
+      healthy: false,
+      responseTime: Date.now() - startTime,
+      statusCode: error instanceof ProbeError ? error.statusCode : undefined,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+/** Run the probe, retrying a failed one up to config.retries times. The result is the last attempt's. */
+export async function runHealthProbeWithRetries(
+  config: ActiveHealthCheckConfig,
+  backend: Backend,
+  options: { heloName?: string; connector?: SocketConnector } = {}
+): Promise<ProbeResult> {
+  const maxAttempts = 1 + Math.max(0, config.retries || 0);
+  let result: ProbeResult;
+  let attempts = 0;
+  do {
+    result = await runHealthProbe(config, backend, options);
+    attempts++;
+  } while (!result.healthy && attempts < maxAttempts);
+  return { ...result, attempts };
+}
+
+/** Fetch the health path and evaluate every HTTP assertion, collecting the failures */
+async function probeHttp(config: ActiveHealthCheckConfig, backend: Backend, failures: HealthCheckAssertionFailure[]): Promise<number> {
+  const response = await fetch(new URL(config.path, backend.url).toString(), {
+    method: config.method || 'GET',
+    headers: config.headers || {},
+    redirect: config.follow_redirects ? 'follow' : 'manual',
+    signal: AbortSignal.timeout(config.timeout * 1000)
+  });
+
+  const statusValid = config.expected_codes ? config.expected_codes.includes(response.status) : response.status < 400;
+  if (!statusValid) {
+    failures.push({ assertion: 'status', reason: `Unexpected status ${response.status}` });
+  }
+
+  for (const [name, pattern] of Object.entries(config.expected_headers || {})) {
+    const value = response.headers.get(name);
+    if (value === null) {
+      failures.push({ assertion: 'header', reason: `Missing response header ${name}` });
+    } else if (!new RegExp(pattern).test(value)) {
+      failures.push({ assertion: 'header', reason: `Header ${name}: ${truncate(value)} does not match /${pattern}/` });
+    }
+  }
+
+  if (config.expected_body === undefined && config.expected_body_regex === undefined && !config.expected_json?.length) {
+    await response.body?.cancel();
+    return response.status;
+  }
+
+  const body = await response.text();
+  if (config.expected_body !== undefined && !body.includes(config.expected_body)) {
+    failures.push({ assertion: 'body', reason: 'Response body does not contain expected_body' });
+  }
+  if (config.expected_body_regex !== undefined && !new RegExp(config.expected_body_regex).test(body)) {
+    failures.push({ assertion: 'body_regex', reason: `Response body does not match /${config.expected_body_regex}/` });
+  }
+  if (config.expected_json?.length) {
+    checkJson(config.expected_json, body, failures);
+  }
+  return response.status;
+}
+
+function checkJson(assertions: NonNullable<ActiveHealthCheckConfig['expected_json']>, body: string, failures: HealthCheckAssertionFailure[]): void {
+  let document: unknown;
+  try {
+    document = JSON.parse(body);
+  } catch {
+    failures.push({ assertion: 'json', reason: 'Response body is not JSON' });
+    return;
+  }
+
+  for (const assertion of assertions) {
+    const found = readJsonPath(document, assertion.path);
+    if (!found) {
+      failures.push({ assertion: 'json', reason: `${assertion.path} is missing` });
+    } else if (assertion.equals !== undefined && found.value !== assertion.equals) {
+      failures.push({ assertion: 'json', reason: `${assertion.path} is ${truncate(JSON.stringify(found.value))}, expected ${JSON.stringify(assertion.equals)}` });
+    }
+  }
+}
+
+/** The value at a JSON path, or undefined when the path does not exist */
+export function readJsonPath(document: unknown, path: string): { value: unknown } | undefined {
+  let value = document;
+  for (const match of (path.startsWith('$') ? path.slice(1) : path).matchAll(JSON_PATH_SEGMENT)) {
+    const key = match[2] !== undefined ? Number(match[2]) : (match[1] ?? match[3] ?? match[4]);
+    if (value === null || typeof value !== 'object' || !Object.prototype.hasOwnProperty.call(value, key)) {
+      return undefined;
+    }
+    value = (value as Record<string | number, unknown>)[key];
+  }
+  return { value };
+}
+
+/**
+ * Fail when the certificate expires within min_certificate_days. Only TLS backends (tls checks, or
+ * https://, smtps://, ldaps:// URLs) have one; the certificate is read in a separate connection.
+ * A certificate that cannot be read (e.g. the backend only speaks TLS 1.3) leaves the expiry unknown
+ * rather than failing the backend; the reason is returned.
+ */
+async function checkCertificate(
+  config: ActiveHealthCheckConfig,
+  backend: Backend,
+  connector: SocketConnector | undefined,
+  failures: HealthCheckAssertionFailure[]
+): Promise<string | undefined> {
+  const url = new URL(backend.url);
+  if (config.type !== 'tls' && !SECURE_PROTOCOLS.includes(url.protocol)) {
+    failures.push({ assertion: 'certificate', reason: `min_certificate_days needs a TLS backend, ${backend.url} is not one` });
+    return undefined;
+  }
+
+  try {
+    // A plain connection: the handshake is driven by readCertificateExpiry
+    const notAfter = await withSocket({ ...config, type: 'tcp' }, backend, connector, socket => readCertificateExpiry(socket, url.hostname));
+    const days = Math.floor((notAfter - Date.now()) / DAY_MS);
+    if (days < config.min_certificate_days!) {
+      const expiry = new Date(notAfter).toISOString();
+      failures.push({
+        assertion: 'certificate',
+        reason: days < 0 ? `Certificate expired on ${expiry}` : `Certificate expires in ${days} days (${expiry}), minimum ${config.min_certificate_days}`
+      });
+    }
+  } catch (error) {
+    return `Could not read the certificate: ${error instanceof Error ? error.message : String(error)}`;
+  }
+  return undefined;
+}
+
+function compiles(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function truncate(text: string): string {
+  return text.length > 100 ? `${text.slice(0, 100)}…` : text;
+}
+
+/**
+ * Open a socket to the backend, run the exchange and always close the socket. The whole exchange,
+ * TLS handshake included, has to finish within config.timeout.
+ */
+async function withSocket<T>(
+  config: ActiveHealthCheckConfig,
+  backend: Backend,
+  connector: SocketConnector = connect,
+  exchange: (socket: Socket) => Promise<T>
+): Promise<T> {
+  const url = new URL(backend.url);
+  const port = config.port || Number(url.port) || DEFAULT_PORTS[url.protocol];
+  if (!port) {
+    throw new ProbeError(`No port for ${config.type} check: set activeHealthChecks.port or a port in ${backend.url}`);
+  }
+
+  // tcp is always a plain connect. With TLS an expired or otherwise invalid certificate fails the
+  // handshake, so `opened` rejects.
+  const secure = config.type === 'tls' || (config.type !== 'tcp' && SECURE_PROTOCOLS.includes(url.protocol));
+  const socket = connector({ hostname: url.hostname, port }, { secureTransport: secure ? 'on' : 'off', allowHalfOpen: false });
+
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new ProbeError(`${config.type} check timed out after ${config.timeout}s`)), config.timeout * 1000);
+  });
+
+  try {
+    return await Promise.race([socket.opened.then(() => exchange(socket)), timeout]);
+  } finally {
+    clearTimeout(timer);
+    socket.close().catch(() => { /* already closed */ });
+  }
+}
+
+/** Read the 220 banner, then EHLO and expect 250. Returns the EHLO reply code. */
+async function probeSmtp(socket: Socket, heloName: string): Promise<number> {
+  const reader = new LineReader(socket.readable);
+  const writer = socket.writable.getWriter();
+  try {
+    const banner = await reader.readSmtpReply();
+    if (banner !== 220) {
+      throw new ProbeError(`SMTP banner ${banner}, expected 220`, banner);
+    }
+
+    await writer.write(new TextEncoder().encode(`EHLO ${heloName}\r\n`));
+    const ehlo = await reader.readSmtpReply();
+    if (ehlo !== 250) {
+      throw new ProbeError(`SMTP EHLO reply ${ehlo}, expected 250`, ehlo);
+    }
+
+    await writer.write(new TextEncoder().encode('QUIT\r\n')).catch(() => { /* server may hang up first */ });
+    return ehlo;
+  } finally {
+    writer.releaseLock();
+    reader.release();
+  }
+}
+
+/** Anonymous bind; healthy when the BindResponse resultCode is 0 (success). Returns the result code. */
+async function probeLdap(socket: Socket): Promise<number> {
+  const writer = socket.writable.getWriter();
+  const reader = socket.readable.getReader();
+  try {
+    await writer.write(LDAP_ANONYMOUS_BIND);
+
+    let buffer = new Uint8Array(0);
+    for (;;) {
+      const resultCode = parseLdapBindResponse(buffer);
+      if (resultCode !== undefined) {
+        if (resultCode !== 0) {
+          throw new ProbeError(`LDAP bind failed with resultCode ${resultCode}`, resultCode);
+        }
+        return resultCode;
+      }
+
+      const { value, done } = await reader.read();
+      if (done) {
+        throw new ProbeError('LDAP server closed the connection before answering the bind');
+      }
+      buffer = concatBytes(buffer, value);
+    }
+  } finally {
+    writer.releaseLock();
+    reader.releaseLock();
+  }
+}
+
+/**
+ * The resultCode of a complete LDAPMessage holding a BindResponse, or undefined while more bytes are needed
+ */
+export function parseLdapBindResponse(bytes: Uint8Array): number | undefined {
+  const message = readBerHeader(bytes, 0);
+  if (!message || bytes.length < message.contentStart + message.length) {
+    return undefined;
+  }
+  if (message.tag !== 0x30) {
+    throw new ProbeError(`Unexpected LDAP message tag 0x${message.tag.toString(16)}`);
+  }
+
+  const messageId = readBerHeader(bytes, message.contentStart);
+  const op = messageId && readBerHeader(bytes, messageId.contentStart + messageId.length);
+  if (!op || op.tag !== LDAP_BIND_RESPONSE_TAG) {
+    throw new ProbeError('LDAP server did not answer with a BindResponse');
+  }
+  const resultCode = readBerHeader(bytes, op.contentStart);
+  if (!resultCode || resultCode.tag !== 0x0a || resultCode.length < 1) {
+    throw new ProbeError('Malformed LDAP BindResponse');
+  }
+  return bytes[resultCode.contentStart];
+}
+
+/** BER tag and definite length at `offset`; undefined when the header is not fully buffered yet */
+function readBerHeader(bytes: Uint8Array, offset: number): { tag: number; length: number; contentStart: number } | undefined {
+  if (bytes.length < offset + 2) {
+    return undefined;
+  }
+  const tag = bytes[offset];
+  const first = bytes[offset + 1];
+  if (first < 0x80) {
+    return { tag, length: first, contentStart: offset + 2 };
+  }
+
+  const lengthBytes = first & 0x7f;
+  if (lengthBytes === 0 || lengthBytes > 4) {
+    throw new ProbeError('Unsupported BER length encoding');
+  }
+  if (bytes.length < offset + 2 + lengthBytes) {
+    return undefined;
+  }
+  let length = 0;
+  for (let i = 0; i < lengthBytes; i++) {
+    length = length * 256 + bytes[offset + 2 + i];
+  }
+  return { tag, length, contentStart: offset + 2 + lengthBytes };
+}
+
+function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const result = new Uint8Array(a.length + b.length);
+  result.set(a);
+  result.set(b, a.length);
+  return result;
+}
+
+/** Reads CRLF-terminated lines from a socket */
+class LineReader {
+  private reader: ReadableStreamDefaultReader<Uint8Array>;
+  private decoder = new TextDecoder();
+  private buffer = '';
+
+  constructor(readable: ReadableStream<Uint8Array>) {
+    this.reader = readable.getReader();
+  }
+
+  async readLine(): Promise<string> {
+    for (;;) {
+      const end = this.buffer.indexOf('\n');
+      if (end !== -1) {
+        const line = this.buffer.slice(0, end).replace(/\r$/, '');
+        this.buffer = this.buffer.slice(end + 1);
+        return line;
+      }
+      const { value, done } = await this.reader.read();
+      if (done) {
+        throw new ProbeError('Connection closed mid-reply');
+      }
+      this.buffer += this.decoder.decode(value, { stream: true });
+    }
+  }
+
+  /** Read a (possibly multi-line "250-...") SMTP reply and return its code */
+  async readSmtpReply(): Promise<number> {
+    for (;;) {
+      const line = await this.readLine();
+      const match = /^(\d{3})([ -])/.exec(line) || /^(\d{3})$/.exec(line);
+      if (!match) {
+        throw new ProbeError(`Malformed SMTP reply: ${line.slice(0, 100)}`);
+      }
+      if (match[2] !== '-') {
+        return Number(match[1]);
+      }
+    }
+  }
+
+  release(): void {
+    this.reader.releaseLock();
+  }
+}
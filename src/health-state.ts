@@ -0,0 +1,80 @@
+import { ActiveHealthCheckConfig, Backend, HealthCheckRecord, HealthCheckState } from './types';
+
+export const HEALTH_HISTORY_SIZE = 100;
+
+/**
+ * Per-backend active health check state machine. A backend turns healthy after consecutive_up passing
+ * checks and unhealthy after consecutive_down failing ones, so a single odd probe does not flip it.
+ * Every check lands in a ring of the last HEALTH_HISTORY_SIZE records.
+ */
+export class HealthCheckTracker {
+  private states = new Map<string, HealthCheckState>();
+
+  constructor(states: HealthCheckState[] = []) {
+    for (const state of states) {
+      this.states.set(state.backendId, state);
+    }
+  }
+
+  getStates(): HealthCheckState[] {
+    return Array.from(this.states.values());
+  }
+
+  getState(backendId: string): HealthCheckState | undefined {
+    return this.states.get(backendId);
+  }
+
+  /** Most recent records last; `limit` keeps only the newest ones */
+  getHistory(backendId: string, limit?: number): HealthCheckRecord[] {
+    const history = this.states.get(backendId)?.history || [];
+    return limit !== undefined && limit < history.length ? history.slice(history.length - limit) : [...history];
+  }
+
+  /**
+   * Record one check and apply the hysteresis to `backend`. Returns true when the backend's health
+   * flipped, in which case the record carries the transition.
+   */
+  record(backend: Backend, config: ActiveHealthCheckConfig, record: HealthCheckRecord): boolean {
+    let state = this.states.get(backend.id);
+    if (!state) {
+      state = { backendId: backend.id, consecutiveUp: 0, consecutiveDown: 0, history: [] };
+      this.states.set(backend.id, state);
+    }
+
+    if (record.healthy) {
+      state.consecutiveUp++;
+      state.consecutiveDown = 0;
+      if (!backend.healthy && state.consecutiveUp >= Math.max(1, config.consecutive_up || 1)) {
+        backend.healthy = true;
+        backend.consecutiveFailures = 0;
+        record.transition = 'up';
+      }
+    } else {
+      state.consecutiveDown++;
+      state.consecutiveUp = 0;
+      if (backend.healthy && state.consecutiveDown >= Math.max(1, config.consecutive_down || 1)) {
+        backend.healthy = false;
+        backend.lastFailureTimestamp = record.timestamp;
+        record.transition = 'down';
+      }
+    }
+    if (record.transition) {
+      state.lastTransition = record.timestamp;
+    }
+
+    state.history.push(record);
+    if (state.history.length > HEALTH_HISTORY_SIZE) {
+      state.history.splice(0, state.history.length - HEALTH_HISTORY_SIZE);
+    }
+    return record.transition !== undefined;
+  }
+
+  /** Drop state for backends that no longer exist */
+  prune(backendIds: Set<string>): void {
+    for (const backendId of this.states.keys()) {
+      if (!backendIds.has(backendId)) {
+        this.states.delete(backendId);
+      }
+    }
+  }
+}
@@ -88,6 +88,12 @@ export default {
 			}
 		}
 
+		// The DO serves its admin operations under /__lb_admin__/, which only the authenticated admin API
+		// and the worker itself may reach
+		if (url.pathname.startsWith('/__lb_admin__')) {
+			return new Response('Not Found', { status: 404 });
+		}
+
 		// ALL OTHER REQUESTS -> Load Balancer (DO)
 		const serviceHost = hostname;
 		const doId = env.LOAD_BALANCER_DO.idFromName(serviceHost);
@@ -359,7 +365,8 @@ async function handleListServices(env: Env): Promise<Response> {
 						const doId = env.LOAD_BALANCER_DO.idFromName(hostname);
 						const stub = env.LOAD_BALANCER_DO.get(doId);
 						const metricsRequest = new Request('https://dummy/__lb_admin__/metrics', {
-							method: 'GET'
+							method: 'GET',
+							headers: { 'Accept': 'application/json' }
 						});
 						const metricsResponse = await stub.fetch(metricsRequest);
 						
@@ -446,6 +453,7 @@ async function handleAdminAPI(request: Request, url: URL, env: Env, adminPathPre
 	const doUrl = new URL(request.url);
 	doUrl.pathname = `/__lb_admin__/${operation}`;
 	const doRequest = new Request(doUrl.toString(), request);
+	doRequest.headers.delete('X-LB-Admin-User');
 
 	// Authenticate
 	const authHeader = request.headers.get('Authorization');
@@ -454,6 +462,7 @@ async function handleAdminAPI(request: Request, url: URL, env: Env, adminPathPre
 	const user = await authenticateRequest(request, env);
 	if (user && isUserAuthorized(user.email, env.AUTHORIZED_USERS)) {
 		// OAuth user is authorized, proceed to DO
+		doRequest.headers.set('X-LB-Admin-User', user.email);
 		const doId = env.LOAD_BALANCER_DO.idFromName(serviceHost);
 		const stub = env.LOAD_BALANCER_DO.get(doId);
 		return stub.fetch(doRequest);
@@ -467,6 +476,7 @@ async function handleAdminAPI(request: Request, url: URL, env: Env, adminPathPre
 				headers: { 'Content-Type': 'application/json' } 
 			});
 		}
+		doRequest.headers.set('X-LB-Admin-User', env.WEB_AUTH_USERNAME || 'admin');
 	} 
 	// Try Bearer token (API)
 	else if (authHeader?.startsWith('Bearer ')) {
@@ -476,6 +486,7 @@ async function handleAdminAPI(request: Request, url: URL, env: Env, adminPathPre
 				headers: { 'Content-Type': 'application/json' } 
 			});
 		}
+		doRequest.headers.set('X-LB-Admin-User', 'api');
 	} else {
 		return new Response(JSON.stringify({ error: 'Unauthorized' }), { 
 			status: 401, 
@@ -0,0 +1,123 @@
+import { LatencySketch } from './types';
+
+// 1% relative error keeps 1ms..10min within ~700 bins
+const DEFAULT_RELATIVE_ACCURACY = 0.01;
+
+export function createLatencySketch(relativeAccuracy: number = DEFAULT_RELATIVE_ACCURACY): LatencySketch {
+  return { relativeAccuracy, bins: {}, zeroCount: 0, count: 0, min: 0, max: 0 };
+}
+
+function gamma(sketch: LatencySketch): number {
+  return (1 + sketch.relativeAccuracy) / (1 - sketch.relativeAccuracy);
+}
+
+function binValue(sketch: LatencySketch, index: number): number {
+  const g = gamma(sketch);
+  return (2 * Math.pow(g, index)) / (g + 1);
+}
+
+function addToSketch(sketch: LatencySketch, valueMs: number, weight: number): void {
+  if (weight <= 0) return;
+
+  if (sketch.count === 0) {
+    sketch.min = valueMs;
+    sketch.max = valueMs;
+  } else {
+    sketch.min = Math.min(sketch.min, valueMs);
+    sketch.max = Math.max(sketch.max, valueMs);
+  }
+  sketch.count += weight;
+
+  if (valueMs <= 0) {
+    sketch.zeroCount += weight;
+    return;
+  }
+
+  const index = Math.ceil(Math.log(valueMs) / Math.log(gamma(sketch)));
+  sketch.bins[index] = (sketch.bins[index] || 0) + weight;
+}
+
+/**
+ * Record a single latency sample in milliseconds
+ */
+export function recordLatency(sketch: LatencySketch, valueMs: number): void {
+  addToSketch(sketch, valueMs, 1);
+}
+
+/**
+ * Merge `source` into `target`. Sketches with a different accuracy are re-binned.
+ */
+export function mergeLatencySketches(target: LatencySketch, source: LatencySketch): LatencySketch {
+  if (source.count === 0) return target;
+
+  const { min, max } = source;
+  const wasEmpty = target.count === 0;
+  if (source.relativeAccuracy === target.relativeAccuracy) {
+    for (const [index, weight] of Object.entries(source.bins)) {
+      target.bins[index] = (target.bins[index] || 0) + weight;
+    }
+    target.zeroCount += source.zeroCount;
+    target.count += source.count;
+  } else {
+    addToSketch(target, 0, source.zeroCount);
+    for (const [index, weight] of Object.entries(source.bins)) {
+      addToSketch(target, binValue(source, Number(index)), weight);
+    }
+  }
+
+  // Keep the exact extremes rather than bin estimates
+  target.min = wasEmpty ? min : Math.min(target.min, min);
+  target.max = wasEmpty ? max : Math.max(target.max, max);
+
+  return target;
+}
+
+/**
+ * Samples recorded in `current` since `previous` was copied from it. Extremes are taken
+ * from `current`, so quantiles of the difference are clamped to its lifetime range.
+ */
+export function diffLatencySketches(current: LatencySketch, previous: LatencySketch): LatencySketch {
+  const diff = createLatencySketch(current.relativeAccuracy);
+  for (const [index, weight] of Object.entries(current.bins)) {
+    const delta = weight - (previous.bins[index] || 0);
+    if (delta > 0) {
+      diff.bins[index] = delta;
+      diff.count += delta;
+    }
+  }
+  diff.zeroCount = Math.max(0, current.zeroCount - previous.zeroCount);
+  diff.count += diff.zeroCount;
+  diff.min = current.min;
+  diff.max = current.max;
+  return diff;
+}
+
+/**
+ * Estimate the q-quantile (0..1) in milliseconds, or 0 for an empty sketch
+ */
+export function latencyQuantile(sketch: LatencySketch, q: number): number {
+  if (sketch.count === 0) return 0;
+
+  const rank = Math.max(0, Math.min(1, q)) * (sketch.count - 1);
+  if (rank < sketch.zeroCount) return 0;
+
+  let seen = sketch.zeroCount;
+  const indices = Object.keys(sketch.bins).map(Number).sort((a, b) => a - b);
+  for (const index of indices) {
+    seen += sketch.bins[index];
+    if (seen > rank) {
+      const estimate = Math.min(sketch.max, Math.max(sketch.min, binValue(sketch, index)));
+      return Math.round(estimate * 100) / 100;
+    }
+  }
+
+  return sketch.max;
+}
+
+export function latencyPercentiles(sketch: LatencySketch): { p50: number; p95: number; p99: number } {
+  return {
+    p50: latencyQuantile(sketch, 0.5),
+    p95: latencyQuantile(sketch, 0.95),
+    p99: latencyQuantile(sketch, 0.99)
+  };
+}
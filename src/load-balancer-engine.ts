@@ -19,8 +19,17 @@ import {
   RuleAction,
   NotificationConfig,
   NotificationPayload,
-  Token
+  Token,
+  CustomRule,
+  TrafficSplitConfig,
+  TrafficSplitSide,
+  TrafficSplitTarget
 } from './types';
+import { createLatencySketch, recordLatency, latencyPercentiles } from './latency-sketch';
+import { AlertStore } from './alert-store';
+import { runHealthProbeWithRetries } from './health-probes';
+import { resolveHealthCheck } from './health-monitors';
+import { getHealthOverride, isAlertSuppressed } from './maintenance';
 
 export class LoadBalancerEngine {
   private config: LoadBalancerServiceConfig;
@@ -29,8 +38,10 @@ export class LoadBalancerEngine {
   private sessionAffinityCache = new Map<string, { poolId: string; backendId: string; expires: number }>();
   private healthCheckResults = new Map<string, HealthCheckResult>();
   private alertHistory: Alert[] = [];
+  private alertStore?: AlertStore; // Persists alerts and suppresses notifications for acknowledged ones
   private rttCache = new Map<string, { [region: string]: number }>(); // Pool RTT data for dynamic steering
   private env?: any; // Cloudflare Workers environment for bindings
+  private signingSecret?: string | Uint8Array; // Lazily resolved, see getSigningSecret()
   
   // Error tracking and circuit breaker management
   private circuitBreakerStates = new Map<string, {
@@ -67,6 +78,13 @@ export class LoadBalancerEngine {
     this.env = env;
   }
 
+  /**
+   * Set the store that alerts are recorded in before notifications go out
+   */
+  public setAlertStore(store: AlertStore): void {
+    this.alertStore = store;
+  }
+
   /**
    * Extract client IP from request headers
    */
@@ -281,6 +299,8 @@ export class LoadBalancerEngine {
    */
   public handleBackendSuccess(backend: Backend, responseTime: number): void {
     const now = Date.now();
+    this.recordBackendLatency(backend.id, responseTime);
+
     const cbConfig = this.config.passiveHealthChecks.circuit_breaker;
     const cbState = this.circuitBreakerStates.get(backend.id);
     
@@ -391,9 +411,15 @@ export class LoadBalancerEngine {
   }
   
   /**
-   * Check if a backend's circuit breaker allows requests
+   * Check if a backend's circuit breaker allows requests. A health override decides on its own:
+   * force_up ignores health and the circuit breaker, force_down takes the backend out.
    */
-  private isBackendAvailable(backend: Backend): boolean {
+  public isBackendAvailable(backend: Backend): boolean {
+    const override = getHealthOverride(this.findPoolByBackendId(backend.id), backend);
+    if (override !== 'auto') {
+      return override === 'force_up' && backend.enabled;
+    }
+
     const cbConfig = this.config.passiveHealthChecks.circuit_breaker;
     const cbState = this.circuitBreakerStates.get(backend.id);
     
@@ -425,6 +451,37 @@ export class LoadBalancerEngine {
     }
   }
   
+  /**
+   * Passive health: a backend marked unhealthy by request failures becomes eligible again
+   * once failure_timeout_ms has passed since its last failure
+   */
+  private reviveExpiredBackends(now: number): void {
+    const timeoutMs = this.config.passiveHealthChecks.failure_timeout_ms;
+    if (!timeoutMs) return;
+
+    for (const pool of this.config.pools) {
+      for (const backend of pool.backends) {
+        if (!backend.healthy && backend.lastFailureTimestamp && now - backend.lastFailureTimestamp > timeoutMs) {
+          console.log(`[LoadBalancer] Backend ${backend.id} failure timeout expired. Marking as healthy.`);
+          backend.healthy = true;
+          backend.consecutiveFailures = 0;
+        }
+      }
+    }
+  }
+
+  /**
+   * Health as far as routing is concerned: checked health unless a health override says otherwise
+   */
+  private isBackendHealthy(pool: OriginPool, backend: Backend): boolean {
+    const override = getHealthOverride(pool, backend);
+    return backend.enabled && (override === 'auto' ? backend.healthy : override === 'force_up');
+  }
+
+  private findPoolByBackendId(backendId: string): OriginPool | undefined {
+    return this.config.pools.find(pool => pool.backends.some(b => b.id === backendId));
+  }
+
   /**
    * Find backend by ID across all pools
    */
@@ -441,17 +498,44 @@ export class LoadBalancerEngine {
    */
   private generateAlert(alert: Alert): void {
     alert.id = `alert-${Date.now()}-${Math.random().toString(36).substring(2)}`;
+    
+    // Send notifications through configured channels (async but don't await to avoid blocking)
+    this.emitAlert(alert).catch(error => {
+      console.error(`[LoadBalancer] Failed to send notifications for alert ${alert.id}:`, error);
+    });
+  }
+
+  /**
+   * Record and notify an alert, keeping its ID so a later resolve event can be correlated with it.
+   * Also used for alerts raised outside the engine (e.g. by alert rules).
+   */
+  public async emitAlert(alert: Alert): Promise<void> {
+    if (isAlertSuppressed(alert, this.config.maintenanceWindows, this.config.pools)) {
+      console.log(`[LoadBalancer] Alert suppressed during maintenance: ${alert.type} - ${alert.message}`);
+      return;
+    }
+
     this.alertHistory.push(alert);
     
     // Keep only recent alerts (last 1000)
     if (this.alertHistory.length > 1000) {
       this.alertHistory = this.alertHistory.slice(-1000);
     }
+
+    const notification = this.alertStore ? await this.alertStore.record(alert) : alert;
+    if (!notification) {
+      console.log(`[LoadBalancer] Notification suppressed for acknowledged or resolved alert: ${alert.type} - ${alert.message}`);
+      return;
+    }
     
-    // Send notifications through configured channels (async but don't await to avoid blocking)
-    this.sendNotifications(alert, this.env).catch(error => {
-      console.error(`[LoadBalancer] Failed to send notifications for alert ${alert.id}:`, error);
-    });
+    await this.sendNotifications(notification, this.env);
+  }
+
+  /**
+   * Notify about an alert whose state was changed by an operator (e.g. manually resolved)
+   */
+  public notifyAlert(alert: Alert): Promise<void> {
+    return this.sendNotifications(alert, this.env);
   }
 
   /**
@@ -499,6 +583,20 @@ export class LoadBalancerEngine {
       }
     }
     
+    // Channels listed on the alert rule that raised the alert
+    if (alert.metadata && alert.metadata.ruleId) {
+      const rule = this.config.alertRules?.find(r => r.id === alert.metadata!.ruleId);
+      if (rule) {
+        rule.actions.email?.forEach(address => configs.push({ type: 'email', address, enabled: true }));
+        if (rule.actions.webhook) {
+          configs.push({ type: 'webhook', webhook_url: rule.actions.webhook, enabled: true });
+        }
+        if (rule.actions.slack) {
+          configs.push({ type: 'slack', webhook_url: rule.actions.slack, enabled: true });
+        }
+      }
+    }
+    
     // Check for service-level notifications
     if (this.config.notificationSettings) {
       configs.push(...this.config.notificationSettings.filter(n => n.enabled));
@@ -1269,60 +1367,119 @@ This alert was generated by the Cloudflare Load Balancer service.
   }
 
   /**
-   * Main entry point for routing a request
+   * Main entry point for routing a request. Retries pass the backends already tried in `exclude`
+   * so they go through the same affinity and steering but land on a different backend. With `retry`
+   * set, rules are not evaluated again (the first attempt already acted on them) and the request is
+   * not counted in the routing metrics a second time.
    */
   public async routeRequest(
     request: Request, 
     clientIp: string, 
-    geo?: GeographicData
-  ): Promise<{ backend: Backend; pool: OriginPool; headers: Record<string, string> }> {
+    geo?: GeographicData,
+    exclude: ReadonlySet<string> = new Set(),
+    retry: boolean = false
+  ): Promise<{
+    backend: Backend;
+    pool: OriginPool;
+    headers: Record<string, string>;
+    shedFrom?: string;
+    splitSide?: TrafficSplitSide;
+  }> {
     const startTime = Date.now();
     
     try {
+      this.reviveExpiredBackends(startTime);
+
       // Apply custom rules first
-      const ruleResult = await this.applyCustomRules(request, clientIp, geo);
+      const ruleResult = retry ? null : await this.applyCustomRules(request, clientIp, geo, exclude);
       if (ruleResult) {
         return ruleResult;
       }
+
+      const split = this.config.load_balancer.traffic_split?.enabled ? this.config.load_balancer.traffic_split : undefined;
+      const splitOverride = split ? this.getSplitOverride(split, request) : null;
       
-      // Check session affinity
-      const affinityResult = this.checkSessionAffinity(request, clientIp);
+      // Check session affinity. A tester override wins over the pin, and a rollback releases canary sessions.
+      let affinityResult = splitOverride ? null : await this.checkSessionAffinity(request, clientIp, exclude);
+      const affinitySide = split && affinityResult ? this.getSplitSide(split, affinityResult.pool, affinityResult.backend) : undefined;
+      if (split?.status === 'rolled_back' && affinitySide === 'canary') {
+        affinityResult = null;
+      }
       if (affinityResult) {
-        this.metrics.sessionAffinityHits!++;
-        return affinityResult;
+        if (!retry) this.metrics.sessionAffinityHits!++;
+
+        const shedPool = this.shouldShed(affinityResult.pool, true) ? this.getShedTargetPool(affinityResult.pool, exclude) : null;
+        const shedBackend = shedPool ? await this.selectBackend(shedPool, request, clientIp, exclude) : null;
+        if (shedPool && shedBackend) {
+          // 'shed' moves the session to the new pool; 'honor' keeps the pin for later requests
+          const repin = affinityResult.pool.load_shedding?.session_affinity_policy === 'shed';
+          const affinityHeaders = repin
+            ? await this.updateSessionAffinity(request, clientIp, shedPool.id, shedBackend.id, true)
+            : {};
+          return {
+            backend: shedBackend,
+            pool: shedPool,
+            headers: { ...this.prepareResponseHeaders(shedBackend, shedPool), ...affinityHeaders },
+            shedFrom: affinityResult.pool.id
+          };
+        }
+        return { ...affinityResult, splitSide: affinitySide };
       }
       
-      this.metrics.sessionAffinityMisses!++;
+      if (!retry) this.metrics.sessionAffinityMisses!++;
+
+      if (split) {
+        const side = splitOverride || (Math.random() * 100 < split.percent ? 'canary' : 'baseline');
+        const splitResult = await this.routeToSplitSide(split, side, request, clientIp, exclude);
+        if (splitResult) {
+          if (!retry) {
+            this.updateMetrics(splitResult.backend.id, splitResult.pool.id, startTime);
+            this.metrics.steeringDecisions!['traffic_split'] = (this.metrics.steeringDecisions!['traffic_split'] || 0) + 1;
+          }
+          return splitResult;
+        }
+      }
       
       // Select pool using traffic steering
-      const selectedPool = await this.selectPool(request, clientIp, geo);
+      let selectedPool = await this.selectPool(request, clientIp, geo, exclude);
       if (!selectedPool) {
-        throw new Error('No healthy pools available');
+        throw this.createNoHealthyBackendsError('No healthy pools available');
+      }
+
+      // Shed traffic stays on its pool when the target pool cannot take it
+      let shedFrom: string | undefined;
+      const shedPool = this.shouldShed(selectedPool, false) ? this.getShedTargetPool(selectedPool, exclude) : null;
+      let selectedBackend = shedPool ? await this.selectBackend(shedPool, request, clientIp, exclude) : null;
+      if (shedPool && selectedBackend) {
+        shedFrom = selectedPool.id;
+        selectedPool = shedPool;
       }
       
       // Select backend within pool using endpoint steering
-      const selectedBackend = await this.selectBackend(selectedPool, request, clientIp);
+      selectedBackend = selectedBackend || await this.selectBackend(selectedPool, request, clientIp, exclude);
       if (!selectedBackend) {
-        throw new Error(`No healthy backends in pool ${selectedPool.id}`);
+        throw this.createNoHealthyBackendsError(`No healthy backends in pool ${selectedPool.id}`);
       }
       
       // Update session affinity if configured
-      this.updateSessionAffinity(request, clientIp, selectedPool.id, selectedBackend.id);
+      const affinityHeaders = await this.updateSessionAffinity(request, clientIp, selectedPool.id, selectedBackend.id);
       
       // Prepare response headers
-      const headers = this.prepareResponseHeaders(selectedBackend, selectedPool);
-      
-      // Update metrics
-      this.updateMetrics(selectedBackend.id, selectedPool.id, startTime);
+      const headers = { ...this.prepareResponseHeaders(selectedBackend, selectedPool), ...affinityHeaders };
       
-      // Record steering decision
-      const steeringMethod = this.config.load_balancer.steering_policy;
-      this.metrics.steeringDecisions![steeringMethod] = (this.metrics.steeringDecisions![steeringMethod] || 0) + 1;
+      if (!retry) {
+        // Update metrics
+        this.updateMetrics(selectedBackend.id, selectedPool.id, startTime);
+
+        // Record steering decision
+        const steeringMethod = this.config.load_balancer.steering_policy;
+        this.metrics.steeringDecisions![steeringMethod] = (this.metrics.steeringDecisions![steeringMethod] || 0) + 1;
+      }
       
-      return { backend: selectedBackend, pool: selectedPool, headers };
+      return { backend: selectedBackend, pool: selectedPool, headers, shedFrom };
       
     } catch (error) {
-      this.metrics.totalFailedRequests++;
+      if (!retry) this.metrics.totalFailedRequests++;
       throw error;
     }
   }
@@ -1333,14 +1490,28 @@ This alert was generated by the Cloudflare Load Balancer service.
   private async applyCustomRules(
     request: Request,
     clientIp: string,
-    geo?: GeographicData
+    geo: GeographicData | undefined,
+    exclude: ReadonlySet<string>
   ): Promise<{ backend: Backend; pool: OriginPool; headers: Record<string, string> } | null> {
+    // Service-level custom rules (route/block/challenge) run before load balancer rules
+    const customRules = this.config.customRules?.filter(r => r.enabled !== false)
+      .sort((a, b) => a.priority - b.priority) || [];
+
+    for (const rule of customRules) {
+      if (await this.evaluateRuleCondition(rule.expression, request, clientIp, geo)) {
+        const result = await this.executeCustomRule(rule, request, clientIp, exclude);
+        if (result) {
+          return result;
+        }
+      }
+    }
+
     const rules = this.config.load_balancer.rules?.filter(r => r.enabled)
       .sort((a, b) => a.priority - b.priority) || [];
       
     for (const rule of rules) {
       if (await this.evaluateRuleCondition(rule.condition, request, clientIp, geo)) {
-        return this.executeRuleAction(rule.action, request, clientIp, geo);
+        return this.executeRuleAction(rule.action, request, clientIp, geo, exclude);
       }
     }
     
@@ -1433,11 +1604,39 @@ This alert was generated by the Cloudflare Load Balancer service.
         city: geo?.city || '',
         timezone: geo?.timezone || '',
         asn: geo?.asn || '',
-        isp: geo?.isp || ''
+        isp: geo?.isp || '',
+        continent: geo?.continent || '',
+        colo: geo?.colo || ''
       },
       
       // Geographic data
       geo: geo || {},
+
+      // Cloudflare Rules language field names (e.g. "http.request.uri.path contains '/api'")
+      http: {
+        host: url.hostname,
+        user_agent: userAgent,
+        referer: headers['referer'] || '',
+        cookie: headers['cookie'] || '',
+        request: {
+          method: request.method.toUpperCase(),
+          full_uri: request.url,
+          uri: {
+            path: url.pathname,
+            query: url.search.replace(/^\?/, ''),
+            args: queryParams
+          }
+        }
+      },
+      ip: {
+        src: clientIp,
+        geoip: {
+          country: geo?.country || '',
+          continent: geo?.continent || '',
+          subdivision_1_iso_code: geo?.regionCode ? `${geo.country}-${geo.regionCode}` : '',
+          asnum: geo?.asn || ''
+        }
+      },
       
       // Time context
       time: timeContext,
@@ -1469,15 +1668,30 @@ This alert was generated by the Cloudflare Load Balancer service.
    * Parse and evaluate expression using a safe recursive descent parser
    */
   private parseAndEvaluate(expression: string, context: Record<string, any>): boolean {
-    const tokens = this.tokenizeExpression(expression);
+    const tokens = LoadBalancerEngine.tokenizeExpression(expression);
     const parser = new ExpressionParser(tokens, context);
     return parser.parseExpression();
   }
 
+  /**
+   * Syntax check for a rule expression before it is saved. Returns the parse error, or null.
+   */
+  public static validateExpression(expression: string): string | null {
+    if (typeof expression !== 'string' || !expression.trim()) {
+      return 'expression is required';
+    }
+    try {
+      new ExpressionParser(LoadBalancerEngine.tokenizeExpression(expression.trim()), {}).checkSyntax();
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+
   /**
    * Tokenize expression into manageable parts
    */
-  private tokenizeExpression(expression: string): Token[] {
+  private static tokenizeExpression(expression: string): Token[] {
     const tokens: Token[] = [];
     let i = 0;
     
@@ -1605,14 +1819,15 @@ This alert was generated by the Cloudflare Load Balancer service.
     action: RuleAction,
     request: Request,
     clientIp: string,
-    geo?: GeographicData
+    geo: GeographicData | undefined,
+    exclude: ReadonlySet<string>
   ): Promise<{ backend: Backend; pool: OriginPool; headers: Record<string, string> } | null> {
     switch (action.type) {
       case 'forward':
         if (action.pool_id) {
           const pool = this.config.pools.find(p => p.id === action.pool_id);
           if (pool) {
-            const backend = await this.selectBackend(pool, request, clientIp);
+            const backend = await this.selectBackend(pool, request, clientIp, exclude);
             if (backend) {
               return {
                 backend,
@@ -1648,7 +1863,7 @@ This alert was generated by the Cloudflare Load Balancer service.
         if (rewrittenRequest && action.pool_id) {
           const pool = this.config.pools.find(p => p.id === action.pool_id);
           if (pool) {
-            const backend = await this.selectBackend(pool, rewrittenRequest, clientIp);
+            const backend = await this.selectBackend(pool, rewrittenRequest, clientIp, exclude);
             if (backend) {
               return {
                 backend,
@@ -1667,6 +1882,189 @@ This alert was generated by the Cloudflare Load Balancer service.
     return null;
   }
 
+  /**
+   * Execute a service-level custom rule. Returns null when evaluation should continue
+   * (e.g. a challenge the client has already solved).
+   */
+  private async executeCustomRule(
+    rule: CustomRule,
+    request: Request,
+    clientIp: string,
+    exclude: ReadonlySet<string>
+  ): Promise<{ backend: Backend; pool: OriginPool; headers: Record<string, string> } | null> {
+    switch (rule.action) {
+      case 'block':
+        throw this.createFixedResponseAction({
+          status: 403,
+          contentType: 'text/plain',
+          content: 'Forbidden',
+          headers: {
+            'X-Load-Balancer-Rule': `block:${rule.id}`,
+            'Cache-Control': 'no-cache, no-store, must-revalidate'
+          }
+        });
+
+      case 'challenge':
+        if (await this.hasPassedChallenge(rule, request, clientIp)) {
+          return null;
+        }
+        throw this.createFixedResponseAction(await this.buildChallengeResponse(rule, clientIp));
+
+      case 'route':
+        if (rule.poolId) {
+          const pool = this.config.pools.find(p => p.id === rule.poolId && p.enabled);
+          if (pool) {
+            const backend = await this.selectBackend(pool, request, clientIp, exclude);
+            if (backend) {
+              return {
+                backend,
+                pool,
+                headers: this.prepareResponseHeaders(backend, pool)
+              };
+            }
+          }
+        }
+        break;
+    }
+
+    return null;
+  }
+
+  /**
+   * Secret used to sign challenge and affinity tokens. Falls back to a per-instance random key,
+   * which just invalidates outstanding tokens when the DO restarts.
+   */
+  private getSigningSecret(): string | Uint8Array {
+    if (!this.signingSecret) {
+      this.signingSecret = this.env?.JWT_SECRET || crypto.getRandomValues(new Uint8Array(32));
+    }
+    return this.signingSecret!;
+  }
+
+  private getChallengeCookieName(rule: CustomRule): string {
+    return `lb_challenge_${rule.id.replace(/[^A-Za-z0-9_-]/g, '_')}`;
+  }
+
+  private getChallengeDifficulty(rule: CustomRule): number {
+    return Math.max(0, Math.min(rule.challenge?.difficulty ?? 16, 32));
+  }
+
+  /**
+   * Verify the challenge cookie: `<expires>.<hmac(rule|ip|expires)>.<counter>`, where
+   * sha256 of the whole token must have `difficulty` leading zero bits.
+   */
+  private async hasPassedChallenge(rule: CustomRule, request: Request, clientIp: string): Promise<boolean> {
+    const cookies = this.parseCookies(request.headers.get('Cookie') || '');
+    const token = cookies[this.getChallengeCookieName(rule)];
+    if (!token) return false;
+
+    const [expires, signature, counter] = token.split('.');
+    if (!expires || !signature || counter === undefined || Number(expires) < Date.now()) {
+      return false;
+    }
+
+    const expected = this.bytesToHex(await this.hmacSha256(this.getSigningSecret(), `${rule.id}|${clientIp}|${expires}`));
+    if (!this.constantTimeEquals(expected, signature)) {
+      return false;
+    }
+
+    const difficulty = this.getChallengeDifficulty(rule);
+    return difficulty === 0 || this.countLeadingZeroBits(await this.sha256(`${expires}.${signature}.${counter}`)) >= difficulty;
+  }
+
+  /**
+   * Build the interstitial page that solves the proof-of-work in the browser and sets the cookie
+   */
+  private async buildChallengeResponse(rule: CustomRule, clientIp: string): Promise<{
+    status: number;
+    contentType: string;
+    content: string;
+    headers: Record<string, string>;
+  }> {
+    const ttl = rule.challenge?.ttl || 3600;
+    const expires = Date.now() + ttl * 1000;
+    const signature = this.bytesToHex(await this.hmacSha256(this.getSigningSecret(), `${rule.id}|${clientIp}|${expires}`));
+    const seed = `${expires}.${signature}`;
+
+    const content = `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta name="robots" content="noindex, nofollow">
+    <title>Checking your browser</title>
+    <style>
+        body { font-family: system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; background: #F8F9FA; color: #212529; display: flex; align-items: center; justify-content: center; min-height: 100vh; margin: 0; }
+        main { text-align: center; padding: 2em; }
+    </style>
+</head>
+<body>
+    <main>
+        <h1>Checking your browser&hellip;</h1>
+        <p id="status">This only takes a moment.</p>
+        <noscript><p>JavaScript and cookies are required to continue.</p></noscript>
+    </main>
+    <script>
+    (async () => {
+        const seed = ${JSON.stringify(seed)};
+        const difficulty = ${this.getChallengeDifficulty(rule)};
+        const zeroBits = (hex) => {
+            let bits = 0;
+            for (const c of hex) {
+                const n = parseInt(c, 16);
+                if (n !== 0) return bits + Math.clz32(n) - 28;
+                bits += 4;
+            }
+            return bits;
+        };
+        let counter = 0;
+        if (difficulty > 0) {
+            const encoder = new TextEncoder();
+            for (;; counter++) {
+                const digest = await crypto.subtle.digest('SHA-256', encoder.encode(seed + '.' + counter));
+                const hex = Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+                if (zeroBits(hex) >= difficulty) break;
+            }
+        }
+        document.cookie = ${JSON.stringify(this.getChallengeCookieName(rule))} + '=' + seed + '.' + counter + '; Path=/; Max-Age=${ttl}; SameSite=Lax; Secure';
+        location.reload();
+    })();
+    </script>
+</body>
+</html>`;
+
+    return {
+      status: 403,
+      contentType: 'text/html; charset=utf-8',
+      content,
+      headers: {
+        'X-Load-Balancer-Rule': `challenge:${rule.id}`,
+        'Cache-Control': 'no-cache, no-store, must-revalidate'
+      }
+    };
+  }
+
+  private countLeadingZeroBits(hex: string): number {
+    let bits = 0;
+    for (const char of hex) {
+      const nibble = parseInt(char, 16);
+      if (nibble !== 0) {
+        return bits + Math.clz32(nibble) - 28;
+      }
+      bits += 4;
+    }
+    return bits;
+  }
+
+  private constantTimeEquals(a: string, b: string): boolean {
+    if (a.length !== b.length) return false;
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) {
+      diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+    }
+    return diff === 0;
+  }
+
   /**
    * Create fixed response action error
    */
@@ -1682,6 +2080,15 @@ This alert was generated by the Cloudflare Load Balancer service.
     return error;
   }
 
+  /**
+   * Create the error thrown when no pool or backend can take the request
+   */
+  private createNoHealthyBackendsError(message: string): Error {
+    const error = new Error(message);
+    error.name = 'NoHealthyBackends';
+    return error;
+  }
+
   /**
    * Create redirect action error
    */
@@ -1875,106 +2282,293 @@ This alert was generated by the Cloudflare Load Balancer service.
   }
   
   /**
-   * Check for existing session affinity
+   * Check for existing session affinity. Cookie affinity is stateless: the cookie carries a signed,
+   * expiring pool/backend pin. ip_cookie falls back to the client IP when there is no cookie.
    */
-  private checkSessionAffinity(request: Request, clientIp: string): { backend: Backend; pool: OriginPool; headers: Record<string, string> } | null {
+  private async checkSessionAffinity(
+    request: Request,
+    clientIp: string,
+    exclude: ReadonlySet<string>
+  ): Promise<{ backend: Backend; pool: OriginPool; headers: Record<string, string> } | null> {
     const sessionConfig = this.config.load_balancer.session_affinity;
     if (!sessionConfig?.enabled || sessionConfig.type === 'none') {
       return null;
     }
-    
-    let sessionKey: string;
-    
+
+    const now = Date.now();
+    let affinity: { poolId: string; backendId: string } | null = null;
+
     switch (sessionConfig.type) {
       case 'cookie':
-        const cookieHeader = request.headers.get('Cookie');
-        if (!cookieHeader) return null;
-        const cookies = this.parseCookies(cookieHeader);
-        const affinityCookie = cookies[sessionConfig.cookieName || 'lb_affinity'];
-        if (!affinityCookie) return null;
-        sessionKey = affinityCookie;
-        break;
-        
       case 'ip_cookie':
-        sessionKey = clientIp;
+        affinity = await this.readAffinityCookie(request, now);
+        if (!affinity && sessionConfig.type === 'ip_cookie') {
+          affinity = this.getCachedAffinity(clientIp, now);
+        }
         break;
-        
-      case 'header':
+
+      case 'header': {
         const headerValue = request.headers.get(sessionConfig.header_name || 'X-Session-ID');
-        if (!headerValue) return null;
-        sessionKey = headerValue;
+        affinity = headerValue ? this.getCachedAffinity(headerValue, now) : null;
         break;
-        
-      default:
-        return null;
-    }
-    
-    const affinity = this.sessionAffinityCache.get(sessionKey);
-    if (!affinity || affinity.expires < Date.now()) {
-      if (affinity) {
-        this.sessionAffinityCache.delete(sessionKey);
       }
+    }
+
+    if (!affinity) {
       return null;
     }
-    
-    // Find the backend and pool
-    const pool = this.config.pools.find(p => p.id === affinity.poolId);
-    const backend = pool?.backends.find(b => b.id === affinity.backendId && b.healthy && b.enabled);
-    
-    if (pool && backend) {
+
+    const pool = this.config.pools.find(p => p.id === affinity!.poolId);
+    const backend = pool?.backends.find(b => b.id === affinity!.backendId);
+    if (pool?.enabled && backend && !exclude.has(backend.id) && this.isPinnedBackendUsable(pool, backend, sessionConfig, now)) {
       return {
         backend,
         pool,
         headers: this.prepareResponseHeaders(backend, pool)
       };
     }
-    
-    // Backend/pool not available, remove affinity
-    this.sessionAffinityCache.delete(sessionKey);
+
     return null;
   }
+
+  /**
+   * Whether a session may stay on its pinned backend. Draining backends keep their existing sessions
+   * until the drain ends; with zero_downtime_failover 'none' sessions stay pinned even when unhealthy.
+   * A backend forced down loses its sessions.
+   */
+  private isPinnedBackendUsable(pool: OriginPool, backend: Backend, sessionConfig: SessionAffinityConfig, now: number): boolean {
+    const override = getHealthOverride(pool, backend, now);
+    if (override === 'force_down') {
+      return false;
+    }
+    if (backend.enabled === false) {
+      const healthy = override === 'force_up' || backend.healthy;
+      return !!backend.draining && healthy && (backend.drainDeadline === undefined || now < backend.drainDeadline);
+    }
+    if (sessionConfig.zero_downtime_failover === 'none') {
+      return true;
+    }
+    return this.isBackendAvailable(backend);
+  }
+
+  private getCachedAffinity(sessionKey: string, now: number): { poolId: string; backendId: string } | null {
+    const affinity = this.sessionAffinityCache.get(sessionKey);
+    if (affinity && affinity.expires < now) {
+      this.sessionAffinityCache.delete(sessionKey);
+      return null;
+    }
+    return affinity || null;
+  }
   
   /**
-   * Update session affinity cache
+   * Pin the session to the selected backend. Returns response headers to send (the affinity cookie).
+   * With zero_downtime_failover 'temporary' a valid cookie for an unavailable backend is kept,
+   * so the session returns to its backend once it recovers.
    */
-  private updateSessionAffinity(request: Request, clientIp: string, poolId: string, backendId: string): void {
+  private async updateSessionAffinity(
+    request: Request,
+    clientIp: string,
+    poolId: string,
+    backendId: string,
+    repin: boolean = false
+  ): Promise<Record<string, string>> {
     const sessionConfig = this.config.load_balancer.session_affinity;
     if (!sessionConfig?.enabled || sessionConfig.type === 'none') {
-      return;
+      return {};
     }
     
-    let sessionKey: string;
     const ttl = sessionConfig.ttl || 82800; // 23 hours default
-    const expires = Date.now() + (ttl * 1000);
+    const now = Date.now();
+    const expires = now + (ttl * 1000);
     
     switch (sessionConfig.type) {
-      case 'cookie':
-        // Generate session key for cookie
-        sessionKey = this.generateSessionKey();
-        break;
-        
       case 'ip_cookie':
-        sessionKey = clientIp;
-        break;
+        this.sessionAffinityCache.set(clientIp, { poolId, backendId, expires });
+        // Falls through: ip_cookie also sets the cookie
+      case 'cookie': {
+        const failover = sessionConfig.zero_downtime_failover || 'temporary';
+        if (!repin && failover === 'temporary' && await this.readAffinityCookie(request, now)) {
+          return {};
+        }
+        return { 'Set-Cookie': await this.buildAffinityCookie(sessionConfig, poolId, backendId, expires) };
+      }
         
-      case 'header':
+      case 'header': {
         const headerValue = request.headers.get(sessionConfig.header_name || 'X-Session-ID');
-        if (!headerValue) return;
-        sessionKey = headerValue;
-        break;
+        if (headerValue) {
+          this.sessionAffinityCache.set(headerValue, { poolId, backendId, expires });
+        }
+        return {};
+      }
         
       default:
-        return;
+        return {};
     }
-    
-    this.sessionAffinityCache.set(sessionKey, { poolId, backendId, expires });
+  }
+
+  private getAffinityCookieName(sessionConfig: SessionAffinityConfig): string {
+    return sessionConfig.cookieName || 'lb_affinity';
+  }
+
+  /**
+   * Affinity cookie value: `<poolId>.<backendId>.<expires>.<hmac>` with base64url-encoded IDs
+   */
+  private async buildAffinityCookie(
+    sessionConfig: SessionAffinityConfig,
+    poolId: string,
+    backendId: string,
+    expires: number
+  ): Promise<string> {
+    const payload = `${this.base64UrlEncode(poolId)}.${this.base64UrlEncode(backendId)}.${expires}`;
+    const signature = this.bytesToHex(await this.hmacSha256(this.getSigningSecret(), `affinity|${payload}`));
+    const attributes = sessionConfig.cookie_attributes || {};
+    const maxAge = Math.max(0, Math.floor((expires - Date.now()) / 1000));
+
+    let cookie = `${this.getAffinityCookieName(sessionConfig)}=${payload}.${signature}; Path=/; Max-Age=${maxAge}`;
+    cookie += `; SameSite=${attributes.sameSite ? attributes.sameSite[0].toUpperCase() + attributes.sameSite.slice(1) : 'Lax'}`;
+    // Browsers reject SameSite=None without Secure
+    if (attributes.secure !== false || attributes.sameSite === 'none') cookie += '; Secure';
+    if (attributes.httpOnly !== false) cookie += '; HttpOnly';
+    return cookie;
+  }
+
+  /**
+   * Decode and verify the affinity cookie; null when missing, tampered with or expired
+   */
+  private async readAffinityCookie(request: Request, now: number): Promise<{ poolId: string; backendId: string } | null> {
+    const sessionConfig = this.config.load_balancer.session_affinity;
+    if (!sessionConfig) return null;
+
+    const token = this.parseCookies(request.headers.get('Cookie') || '')[this.getAffinityCookieName(sessionConfig)];
+    const parts = token?.split('.');
+    if (!parts || parts.length !== 4) return null;
+
+    const [encodedPool, encodedBackend, expires, signature] = parts;
+    if (!(Number(expires) > now)) return null;
+
+    const expected = this.bytesToHex(await this.hmacSha256(
+      this.getSigningSecret(), `affinity|${encodedPool}.${encodedBackend}.${expires}`));
+    if (!this.constantTimeEquals(expected, signature)) return null;
+
+    try {
+      return { poolId: this.base64UrlDecode(encodedPool), backendId: this.base64UrlDecode(encodedBackend) };
+    } catch {
+      return null;
+    }
+  }
+
+  private base64UrlEncode(value: string): string {
+    const bytes = new TextEncoder().encode(value);
+    return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  }
+
+  private base64UrlDecode(value: string): string {
+    const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+    return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+  }
+  
+  /**
+   * The split side forced by the tester override header or cookie, if any
+   */
+  private getSplitOverride(split: TrafficSplitConfig, request: Request): TrafficSplitSide | null {
+    const value = (split.override_header && request.headers.get(split.override_header)) ||
+      (split.override_cookie && this.parseCookies(request.headers.get('Cookie') || '')[split.override_cookie]);
+    const side = value ? value.trim().toLowerCase() : '';
+    return side === 'canary' || side === 'baseline' ? side : null;
+  }
+
+  /**
+   * Which side of the split a pool/backend belongs to, if either
+   */
+  private getSplitSide(split: TrafficSplitConfig, pool: OriginPool, backend: Backend): TrafficSplitSide | undefined {
+    const matches = (target: TrafficSplitTarget) =>
+      target.pool_id === pool.id && (!target.backend_id || target.backend_id === backend.id);
+    if (matches(split.canary)) return 'canary';
+    if (matches(split.baseline)) return 'baseline';
+    return undefined;
+  }
+
+  /**
+   * Route to one side of the split, pinning the session there. An unavailable canary falls back to
+   * the baseline; when neither side can serve, returns null so normal steering takes over.
+   */
+  private async routeToSplitSide(
+    split: TrafficSplitConfig,
+    side: TrafficSplitSide,
+    request: Request,
+    clientIp: string,
+    exclude: ReadonlySet<string>
+  ): Promise<{ backend: Backend; pool: OriginPool; headers: Record<string, string>; splitSide: TrafficSplitSide } | null> {
+    const sides: TrafficSplitSide[] = side === 'canary' ? ['canary', 'baseline'] : ['baseline'];
+
+    for (const candidate of sides) {
+      const target = split[candidate];
+      const pool = this.config.pools.find(p => p.id === target.pool_id);
+      if (!pool?.enabled) continue;
+
+      let backend: Backend | null;
+      if (target.backend_id) {
+        const pinned = pool.backends.find(b => b.id === target.backend_id);
+        backend = pinned && !exclude.has(pinned.id) && this.isBackendAvailable(pinned) ? pinned : null;
+      } else {
+        backend = await this.selectBackend(pool, request, clientIp, exclude);
+      }
+      if (!backend) continue;
+
+      const affinityHeaders = await this.updateSessionAffinity(request, clientIp, pool.id, backend.id);
+      return {
+        backend,
+        pool,
+        headers: { ...this.prepareResponseHeaders(backend, pool), ...affinityHeaders },
+        splitSide: candidate
+      };
+    }
+    return null;
+  }
+
+  /**
+   * Whether to divert this request away from the pool per its load_shedding settings.
+   * Existing sessions are only shed with shed_new_and_existing.
+   */
+  private shouldShed(pool: OriginPool, existingSession: boolean): boolean {
+    const shedding = pool.load_shedding;
+    if (!shedding?.percent || !shedding.default_policy || shedding.default_policy === 'none') {
+      return false;
+    }
+    if (existingSession && shedding.default_policy !== 'shed_new_and_existing') {
+      return false;
+    }
+    return Math.random() * 100 < shedding.percent;
+  }
+
+  /**
+   * The pool that takes shed traffic: the next usable pool after `from` in default_pool_ids, wrapping around
+   */
+  private getShedTargetPool(from: OriginPool, exclude: ReadonlySet<string>): OriginPool | null {
+    const order = this.config.load_balancer.default_pool_ids;
+    const index = order.indexOf(from.id);
+    const candidates = index === -1 ? order : [...order.slice(index + 1), ...order.slice(0, index)];
+
+    for (const poolId of candidates) {
+      const pool = this.config.pools.find(p => p.id === poolId);
+      if (pool && pool !== from && pool.enabled && this.isPoolHealthy(pool) && pool.backends.some(b => !exclude.has(b.id))) {
+        return pool;
+      }
+    }
+    return null;
   }
   
   /**
    * Select pool using traffic steering algorithm
    */
-  private async selectPool(request: Request, clientIp: string, geo?: GeographicData): Promise<OriginPool | null> {
-    const enabledPools = this.config.pools.filter(p => p.enabled && this.isPoolHealthy(p));
+  private async selectPool(
+    request: Request,
+    clientIp: string,
+    geo: GeographicData | undefined,
+    exclude: ReadonlySet<string>
+  ): Promise<OriginPool | null> {
+    const enabledPools = this.config.pools.filter(p =>
+      p.enabled && this.isPoolHealthy(p) && p.backends.some(b => !exclude.has(b.id)));
     if (enabledPools.length === 0) {
       return this.getFallbackPool();
     }
@@ -1996,6 +2590,9 @@ This alert was generated by the Cloudflare Load Balancer service.
         
       case 'proximity':
         return this.selectPoolProximity(enabledPools, geo);
+
+      case 'pop':
+        return this.selectPoolPop(enabledPools, geo);
         
       case 'least_outstanding_requests':
         return this.selectPoolLeastOutstandingRequests(enabledPools);
@@ -2064,6 +2661,30 @@ This alert was generated by the Cloudflare Load Balancer service.
     return this.selectPoolRandom(pools);
   }
   
+  /**
+   * Pick the first available pool mapped to the request's colo, then its region, then its country,
+   * and finally follow default_pool_ids
+   */
+  private selectPoolPop(pools: OriginPool[], geo?: GeographicData): OriginPool | null {
+    const lb = this.config.load_balancer;
+    const candidates = [
+      geo?.colo ? lb.pop_pools?.[geo.colo.toUpperCase()] : undefined,
+      geo?.region ? lb.region_pools?.[geo.region] : undefined,
+      geo?.country ? lb.country_pools?.[geo.country] : undefined
+    ];
+
+    for (const poolIds of candidates) {
+      for (const poolId of poolIds || []) {
+        const pool = pools.find(p => p.id === poolId);
+        if (pool) {
+          return pool;
+        }
+      }
+    }
+
+    return this.selectPoolFailover(pools);
+  }
+
   private async selectPoolDynamic(pools: OriginPool[], geo?: GeographicData): Promise<OriginPool | null> {
     // Dynamic steering uses RTT data to select the fastest pool
     const region = geo?.region || 'default';
@@ -2271,9 +2892,14 @@ This alert was generated by the Cloudflare Load Balancer service.
   /**
    * Select backend within a pool using endpoint steering
    */
-  private async selectBackend(pool: OriginPool, request: Request, clientIp: string): Promise<Backend | null> {
+  private async selectBackend(
+    pool: OriginPool,
+    request: Request,
+    clientIp: string,
+    exclude: ReadonlySet<string> = new Set()
+  ): Promise<Backend | null> {
     // Filter to only available backends (considering circuit breaker state and health)
-    const availableBackends = pool.backends.filter(b => this.isBackendAvailable(b));
+    const availableBackends = pool.backends.filter(b => !exclude.has(b.id) && this.isBackendAvailable(b));
     
     if (availableBackends.length === 0) {
       console.warn(`[LoadBalancer] No available backends in pool ${pool.id} (considering circuit breaker states)`);
@@ -2281,7 +2907,7 @@ This alert was generated by the Cloudflare Load Balancer service.
       // If zero-downtime failover is enabled, try to find any backend that might work
       const zeroDowntimeConfig = this.config.load_balancer.zero_downtime_failover;
       if (zeroDowntimeConfig?.enabled) {
-        const emergencyBackends = pool.backends.filter(b => b.enabled);
+        const emergencyBackends = pool.backends.filter(b => b.enabled && !exclude.has(b.id) && getHealthOverride(pool, b) !== 'force_down');
         if (emergencyBackends.length > 0) {
           console.warn(`[LoadBalancer] Using emergency backend selection for zero-downtime failover`);
           return this.selectBestAvailableBackend(emergencyBackends);
@@ -2366,10 +2992,36 @@ This alert was generated by the Cloudflare Load Balancer service.
   private selectBackendRoundRobin(backends: Backend[]): Backend | null {
     if (backends.length === 0) return null;
     
+    if (backends.some(b => b.weight !== 1)) {
+      return this.selectBackendSmoothWeighted(backends);
+    }
+
     // Update round robin index
     this.config.currentRoundRobinIndex = (this.config.currentRoundRobinIndex + 1) % backends.length;
     return backends[this.config.currentRoundRobinIndex];
   }
+
+  /**
+   * Smooth Weighted Round-Robin: spreads picks of heavier backends evenly instead of in bursts
+   */
+  private selectBackendSmoothWeighted(backends: Backend[]): Backend {
+    if (!this.config.backendCurrentWeights) {
+      this.config.backendCurrentWeights = {};
+    }
+    const currentWeights = this.config.backendCurrentWeights;
+    const totalWeight = backends.reduce((sum, b) => sum + b.weight, 0);
+
+    let selected = backends[0];
+    for (const backend of backends) {
+      currentWeights[backend.id] = (currentWeights[backend.id] || 0) + backend.weight;
+      if (currentWeights[backend.id] > currentWeights[selected.id]) {
+        selected = backend;
+      }
+    }
+    currentWeights[selected.id] -= totalWeight;
+
+    return selected;
+  }
   
   private selectBackendHash(backends: Backend[], clientIp: string): Backend | null {
     if (backends.length === 0) return null;
@@ -2436,7 +3088,7 @@ This alert was generated by the Cloudflare Load Balancer service.
    * Utility functions
    */
   private isPoolHealthy(pool: OriginPool): boolean {
-    const healthyBackends = pool.backends.filter(b => b.healthy && b.enabled);
+    const healthyBackends = pool.backends.filter(b => this.isBackendHealthy(pool, b));
     return healthyBackends.length >= pool.minimum_origins;
   }
   
@@ -2495,6 +3147,28 @@ This alert was generated by the Cloudflare Load Balancer service.
     }
   }
   
+  /**
+   * Feed an upstream response time into the backend and pool latency sketches
+   */
+  private recordBackendLatency(backendId: string, responseTime: number): void {
+    const backendMetrics = this.metrics.backendMetrics[backendId];
+    if (backendMetrics) {
+      if (!backendMetrics.latencySketch) {
+        backendMetrics.latencySketch = createLatencySketch();
+      }
+      recordLatency(backendMetrics.latencySketch, responseTime);
+    }
+
+    const pool = this.config.pools.find(p => p.backends.some(b => b.id === backendId));
+    const poolMetrics = pool ? this.metrics.poolMetrics[pool.id] : undefined;
+    if (poolMetrics) {
+      if (!poolMetrics.latencySketch) {
+        poolMetrics.latencySketch = createLatencySketch();
+      }
+      recordLatency(poolMetrics.latencySketch, responseTime);
+    }
+  }
+
   private parseCookies(cookieHeader: string): Record<string, string> {
     const cookies: Record<string, string> = {};
     
@@ -2508,10 +3182,6 @@ This alert was generated by the Cloudflare Load Balancer service.
     return cookies;
   }
   
-  private generateSessionKey(): string {
-    return Math.random().toString(36).substring(2) + Date.now().toString(36);
-  }
-  
   private hashString(str: string): number {
     let hash = 0;
     for (let i = 0; i < str.length; i++) {
@@ -3561,9 +4231,36 @@ This alert was generated by the Cloudflare Load Balancer service.
    * Public methods for external use
    */
   public getMetrics(): ServiceMetrics {
+    for (const metrics of [...Object.values(this.metrics.backendMetrics), ...Object.values(this.metrics.poolMetrics)]) {
+      if (metrics.latencySketch) {
+        const { p50, p95, p99 } = latencyPercentiles(metrics.latencySketch);
+        metrics.p50ResponseTime = p50;
+        metrics.p95ResponseTime = p95;
+        metrics.p99ResponseTime = p99;
+      }
+    }
     return { ...this.metrics };
   }
   
+  /**
+   * Adjust the live connection count (WebSockets, SSE streams) for a backend and its pool
+   */
+  public trackActiveConnection(backendId: string, delta: 1 | -1): void {
+    const backendMetrics = this.metrics.backendMetrics[backendId];
+    if (backendMetrics) {
+      backendMetrics.connectionsActive = Math.max(0, (backendMetrics.connectionsActive || 0) + delta);
+      if (delta > 0) {
+        backendMetrics.connectionsTotal = (backendMetrics.connectionsTotal || 0) + 1;
+      }
+    }
+
+    const pool = this.config.pools.find(p => p.backends.some(b => b.id === backendId));
+    const poolMetrics = pool ? this.metrics.poolMetrics[pool.id] : undefined;
+    if (poolMetrics) {
+      poolMetrics.activeConnections = Math.max(0, poolMetrics.activeConnections + delta);
+    }
+  }
+
   public getDnsState(): DnsState | null {
     return this.dnsState ? { ...this.dnsState } : null;
   }
@@ -3581,7 +4278,7 @@ This alert was generated by the Cloudflare Load Balancer service.
         pool.backends;
         
       for (const backend of backendsToCheck) {
-        const result = await this.checkBackendHealth(pool.id, backend);
+        const result = await this.checkBackendHealth(pool, backend);
         results.push(result);
         this.healthCheckResults.set(`${pool.id}:${backend.id}`, result);
       }
@@ -3590,10 +4287,11 @@ This alert was generated by the Cloudflare Load Balancer service.
     return results;
   }
   
-  private async checkBackendHealth(poolId: string, backend: Backend): Promise<HealthCheckResult> {
-    const activeHealthCheck = this.config.activeHealthChecks;
+  private async checkBackendHealth(pool: OriginPool, backend: Backend): Promise<HealthCheckResult> {
+    const poolId = pool.id;
+    const resolved = resolveHealthCheck(this.config, pool, backend);
     
-    if (!activeHealthCheck?.enabled) {
+    if (!resolved) {
       // If no active health check, assume healthy if backend is enabled
       return {
         poolId,
@@ -3603,52 +4301,18 @@ This alert was generated by the Cloudflare Load Balancer service.
       };
     }
     
-    try {
-      const startTime = Date.now();
-      const url = `${backend.url}${activeHealthCheck.path}`;
-      
-      const response = await fetch(url, {
-        method: activeHealthCheck.method || 'GET',
-        headers: activeHealthCheck.headers,
-        signal: AbortSignal.timeout(activeHealthCheck.timeout * 1000)
-      });
-      
-      const responseTime = Date.now() - startTime;
-      const expectedCodes = activeHealthCheck.expected_codes || [200];
-      const isHealthy = expectedCodes.includes(response.status);
-      
-      if (activeHealthCheck.expected_body) {
-        const body = await response.text();
-        const bodyMatches = body.includes(activeHealthCheck.expected_body);
-        
-        return {
-          poolId,
-          backendId: backend.id,
-          healthy: isHealthy && bodyMatches,
-          responseTime,
-          statusCode: response.status,
-          timestamp: Date.now()
-        };
-      }
-      
-      return {
-        poolId,
-        backendId: backend.id,
-        healthy: isHealthy,
-        responseTime,
-        statusCode: response.status,
-        timestamp: Date.now()
-      };
-      
-    } catch (error) {
-      return {
-        poolId,
-        backendId: backend.id,
-        healthy: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
-        timestamp: Date.now()
-      };
-    }
+    const result = await runHealthProbeWithRetries(resolved.check, backend, { heloName: this.config.serviceId });
+    return {
+      poolId,
+      backendId: backend.id,
+      healthy: result.healthy,
+      responseTime: result.responseTime,
+      statusCode: result.statusCode,
+      error: result.error,
+      reason: result.healthy ? undefined : result.error,
+      failedAssertions: result.failedAssertions,
+      timestamp: Date.now()
+    };
   }
   
   public updateConfig(newConfig: LoadBalancerServiceConfig): void {
@@ -3735,6 +4399,16 @@ class ExpressionParser {
     return this.toBooleanValue(result);
   }
 
+  /**
+   * Parse the whole expression, throwing on a syntax error or on tokens left over after it
+   */
+  public checkSyntax(): void {
+    this.parseLogicalOr();
+    if (!this.isAtEnd()) {
+      throw new Error(`Unexpected token: ${this.peek()!.value}`);
+    }
+  }
+
   /**
    * Parse logical OR expressions (||, or)
    */
@@ -0,0 +1,253 @@
+import { LogEntry, LogSinkConfig } from './types';
+
+const DEFAULT_BATCH_SIZE = 100;
+const DEFAULT_FLUSH_INTERVAL = 5000;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_MAX_BUFFER_SIZE = 1000;
+
+// RFC 5424 severities
+const SYSLOG_SEVERITY: Record<LogEntry['level'], number> = {
+  critical: 2,
+  error: 3,
+  warn: 4,
+  info: 6,
+  debug: 7
+};
+const SYSLOG_FACILITY_LOCAL0 = 16;
+
+class RetryableError extends Error {}
+
+const SINK_TYPES: LogSinkConfig['type'][] = ['http', 'syslog', 'loki', 'elasticsearch'];
+
+/**
+ * Every sink needs a unique id, a known type and an http(s) URL; sizes and counts must be usable
+ */
+export function validateLogSinks(sinks: LogSinkConfig[]): string | null {
+  if (!Array.isArray(sinks)) {
+    return 'logSinks must be an array';
+  }
+  const ids = new Set<string>();
+  for (const sink of sinks) {
+    if (!sink?.id || typeof sink.id !== 'string') {
+      return 'Each log sink needs an id';
+    }
+    if (ids.has(sink.id)) {
+      return `Log sink id '${sink.id}' is used twice`;
+    }
+    ids.add(sink.id);
+    if (!SINK_TYPES.includes(sink.type)) {
+      return `type of log sink '${sink.id}' must be one of ${SINK_TYPES.join(', ')}`;
+    }
+    let protocol: string | undefined;
+    try {
+      protocol = new URL(sink.url).protocol;
+    } catch { /* reported below */ }
+    if (protocol !== 'http:' && protocol !== 'https:') {
+      return `url of log sink '${sink.id}' must be an http or https URL`;
+    }
+    if (sink.headers && Object.values(sink.headers).some(value => typeof value !== 'string')) {
+      return `headers of log sink '${sink.id}' must be strings`;
+    }
+    for (const field of ['batchSize', 'maxBufferSize'] as const) {
+      if (sink[field] !== undefined && !(Number.isInteger(sink[field]) && sink[field]! >= 1)) {
+        return `${field} of log sink '${sink.id}' must be an integer of at least 1`;
+      }
+    }
+    if (sink.maxRetries !== undefined && !(Number.isInteger(sink.maxRetries) && sink.maxRetries >= 0)) {
+      return `maxRetries of log sink '${sink.id}' must be a non-negative integer`;
+    }
+    if (sink.flushInterval !== undefined && !(typeof sink.flushInterval === 'number' && sink.flushInterval >= 0)) {
+      return `flushInterval of log sink '${sink.id}' must be a non-negative number of milliseconds`;
+    }
+    const unknownLevel = sink.levels?.find(level => !(level in SYSLOG_SEVERITY));
+    if (unknownLevel !== undefined) {
+      return `levels of log sink '${sink.id}' include unknown level '${unknownLevel}'`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Buffers log entries per sink and ships them in batches. Shipping never blocks the caller:
+ * flushes run under waitUntil, and entries are dropped when a buffer overflows or retries run out.
+ * Failures are reported with console.error only, since logging them would feed back into the sinks.
+ */
+export class LogShipper {
+  private buffers = new Map<string, LogEntry[]>();
+  private scheduled = new Set<string>();
+  private flushing = new Set<string>();
+  private dropped = new Map<string, number>();
+
+  constructor(
+    private serviceId: string,
+    private getSinks: () => LogSinkConfig[],
+    private waitUntil: (promise: Promise<any>) => void
+  ) {}
+
+  enqueue(entry: LogEntry): void {
+    for (const sink of this.getSinks()) {
+      if (!sink.enabled || !sink.url) continue;
+      if (sink.categories?.length && !sink.categories.includes(entry.category)) continue;
+      if (sink.levels?.length && !sink.levels.includes(entry.level)) continue;
+
+      const buffer = this.buffers.get(sink.id) || [];
+      buffer.push(entry);
+      const overflow = buffer.length - (sink.maxBufferSize || DEFAULT_MAX_BUFFER_SIZE);
+      if (overflow > 0) {
+        buffer.splice(0, overflow);
+        this.dropped.set(sink.id, (this.dropped.get(sink.id) || 0) + overflow);
+      }
+      this.buffers.set(sink.id, buffer);
+
+      if (buffer.length >= (sink.batchSize || DEFAULT_BATCH_SIZE)) {
+        this.waitUntil(this.flush(sink.id));
+      } else if (!this.scheduled.has(sink.id)) {
+        this.scheduled.add(sink.id);
+        const delay = sink.flushInterval ?? DEFAULT_FLUSH_INTERVAL;
+        this.waitUntil(new Promise(resolve => setTimeout(resolve, delay)).then(() => {
+          this.scheduled.delete(sink.id);
+          return this.flush(sink.id);
+        }));
+      }
+    }
+  }
+
+  /** Flush every sink, e.g. before the DO goes idle */
+  flushAll(): Promise<void> {
+    return Promise.all(Array.from(this.buffers.keys()).map(sinkId => this.flush(sinkId))).then(() => undefined);
+  }
+
+  /**
+   * Entries dropped per sink because of overflow or exhausted retries
+   */
+  getDroppedCounts(): Record<string, number> {
+    return Object.fromEntries(this.dropped);
+  }
+
+  private async flush(sinkId: string): Promise<void> {
+    if (this.flushing.has(sinkId)) return;
+    this.flushing.add(sinkId);
+
+    try {
+      const sink = this.getSinks().find(s => s.id === sinkId && s.enabled);
+      if (!sink) {
+        this.buffers.delete(sinkId);
+        return;
+      }
+
+      const buffer = this.buffers.get(sinkId) || [];
+      const batchSize = sink.batchSize || DEFAULT_BATCH_SIZE;
+      while (buffer.length > 0) {
+        const batch = buffer.splice(0, batchSize);
+        try {
+          await this.sendWithRetry(sink, batch);
+        } catch (error) {
+          this.dropped.set(sinkId, (this.dropped.get(sinkId) || 0) + batch.length);
+          console.error(`[${this.serviceId}] Dropped ${batch.length} log entries for sink ${sinkId}:`, error);
+        }
+      }
+    } finally {
+      this.flushing.delete(sinkId);
+    }
+  }
+
+  private async sendWithRetry(sink: LogSinkConfig, batch: LogEntry[]): Promise<void> {
+    const maxRetries = sink.maxRetries ?? DEFAULT_MAX_RETRIES;
+    const request = this.buildRequest(sink, batch);
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await this.send(sink, request);
+        return;
+      } catch (error) {
+        if (!(error instanceof RetryableError) || attempt >= maxRetries) {
+          throw error;
+        }
+        // Exponential backoff with jitter: ~0.5s, 1s, 2s, ...
+        const delay = 500 * Math.pow(2, attempt) * (0.5 + Math.random());
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private async send(sink: LogSinkConfig, request: { body: string; contentType: string }): Promise<void> {
+    let response: Response;
+    try {
+      response = await fetch(sink.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': request.contentType,
+          'User-Agent': 'Cloudflare-LoadBalancer/1.0',
+          ...sink.headers
+        },
+        body: request.body,
+        signal: AbortSignal.timeout(10000)
+      });
+    } catch (error) {
+      throw new RetryableError(`Request to ${sink.type} sink failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (response.status === 429 || response.status >= 500) {
+      throw new RetryableError(`${sink.type} sink responded with ${response.status}`);
+    }
+    if (!response.ok) {
+      throw new Error(`${sink.type} sink rejected batch with ${response.status}: ${await response.text().catch(() => '')}`);
+    }
+
+    if (sink.type === 'elasticsearch') {
+      // The bulk API reports per-document failures in a 200 response; retrying would duplicate the rest
+      const result = await response.json().catch(() => null) as { errors?: boolean } | null;
+      if (result?.errors) {
+        console.error(`[${this.serviceId}] Elasticsearch sink ${sink.id} rejected some documents in a bulk request`);
+      }
+    }
+  }
+
+  private buildRequest(sink: LogSinkConfig, batch: LogEntry[]): { body: string; contentType: string } {
+    switch (sink.type) {
+      case 'loki': {
+        // One stream per level/category combination
+        const streams = new Map<string, { stream: Record<string, string>; values: [string, string][] }>();
+        for (const entry of batch) {
+          const key = `${entry.level}|${entry.category}`;
+          if (!streams.has(key)) {
+            streams.set(key, {
+              stream: { service: this.serviceId, level: entry.level, category: entry.category, ...sink.labels },
+              values: []
+            });
+          }
+          streams.get(key)!.values.push([
+            `${entry.timestamp}000000`, // Nanoseconds
+            JSON.stringify({ id: entry.id, message: entry.message, ...entry.metadata })
+          ]);
+        }
+        return { body: JSON.stringify({ streams: Array.from(streams.values()) }), contentType: 'application/json' };
+      }
+
+      case 'elasticsearch': {
+        const action = JSON.stringify({ index: { _index: sink.index || 'load-balancer-logs' } });
+        const lines = batch.flatMap(entry => [
+          action,
+          JSON.stringify({ '@timestamp': new Date(entry.timestamp).toISOString(), service: this.serviceId, ...entry })
+        ]);
+        return { body: lines.join('\n') + '\n', contentType: 'application/x-ndjson' };
+      }
+
+      case 'syslog': {
+        const lines = batch.map(entry => {
+          const priority = SYSLOG_FACILITY_LOCAL0 * 8 + (SYSLOG_SEVERITY[entry.level] ?? 6);
+          const structuredData = entry.metadata ? ` ${JSON.stringify(entry.metadata)}` : '';
+          return `<${priority}>1 ${new Date(entry.timestamp).toISOString()} ${this.serviceId} load-balancer - ${entry.category} - ${entry.message}${structuredData}`;
+        });
+        return { body: lines.join('\n') + '\n', contentType: 'text/plain' };
+      }
+
+      case 'http':
+      default:
+        return {
+          body: batch.map(entry => JSON.stringify({ service: this.serviceId, ...entry })).join('\n') + '\n',
+          contentType: 'application/x-ndjson'
+        };
+    }
+  }
+}
@@ -0,0 +1,174 @@
+import { LogEntry } from './types';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DEFAULT_RETENTION_DAYS = 7;
+
+export interface LogQuery {
+  level?: string;
+  category?: string;
+  since?: number; // ms timestamp, inclusive
+  until?: number; // ms timestamp, exclusive
+  backendId?: string;
+  statusCode?: number;
+  clientIp?: string;
+  search?: string; // Substring match on message and metadata
+  cursor?: string; // nextCursor from the previous page
+  offset?: number; // Entries to skip; kept for older clients, cursor is cheaper on deep pages
+  limit?: number;
+  order?: 'asc' | 'desc'; // Default: newest first
+}
+
+export interface LogPage {
+  logs: LogEntry[];
+  nextCursor: string | null;
+  total: number; // Entries matching the filters, regardless of cursor and offset
+}
+
+type LogRow = {
+  seq: number;
+  id: string;
+  timestamp: number;
+  level: string;
+  category: string;
+  message: string;
+  metadata: string | null;
+};
+
+/**
+ * Log entries persisted in the DO's SQLite storage with time-based retention.
+ * Backend, status code and client IP are copied out of the metadata so they can be filtered on.
+ */
+export class LogStore {
+  private lastPrune = 0;
+  private retentionMs: number = DEFAULT_RETENTION_DAYS * 24 * HOUR_MS;
+
+  constructor(private sql: SqlStorage) {
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS logs (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        id TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        level TEXT NOT NULL,
+        category TEXT NOT NULL,
+        message TEXT NOT NULL,
+        backend_id TEXT,
+        status_code INTEGER,
+        client_ip TEXT,
+        metadata TEXT
+      )
+    `);
+    this.sql.exec(`CREATE INDEX IF NOT EXISTS logs_timestamp ON logs (timestamp)`);
+  }
+
+  setRetentionDays(days: number | undefined): void {
+    this.retentionMs = (days && days > 0 ? days : DEFAULT_RETENTION_DAYS) * 24 * HOUR_MS;
+  }
+
+  append(entry: LogEntry): void {
+    const metadata = entry.metadata;
+    this.sql.exec(
+      `INSERT INTO logs (id, timestamp, level, category, message, backend_id, status_code, client_ip, metadata)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      entry.id,
+      entry.timestamp,
+      entry.level,
+      entry.category,
+      entry.message,
+      metadata?.backendId ?? null,
+      typeof metadata?.statusCode === 'number' ? metadata.statusCode : null,
+      metadata?.clientIp ?? null,
+      metadata ? JSON.stringify(metadata) : null
+    );
+
+    if (entry.timestamp - this.lastPrune >= HOUR_MS) {
+      this.prune(entry.timestamp);
+    }
+  }
+
+  /** Delete entries older than the retention period */
+  prune(now: number = Date.now()): void {
+    this.lastPrune = now;
+    this.sql.exec(`DELETE FROM logs WHERE timestamp < ?`, now - this.retentionMs);
+  }
+
+  clear(): void {
+    this.sql.exec(`DELETE FROM logs`);
+  }
+
+  query(query: LogQuery = {}): LogPage {
+    const conditions: string[] = [];
+    const bindings: SqlStorageValue[] = [];
+    const add = (condition: string, ...values: SqlStorageValue[]) => {
+      conditions.push(condition);
+      bindings.push(...values);
+    };
+
+    if (query.level) add('level = ?', query.level);
+    if (query.category) add('category = ?', query.category);
+    if (query.since !== undefined) add('timestamp >= ?', query.since);
+    if (query.until !== undefined) add('timestamp < ?', query.until);
+    if (query.backendId) add('backend_id = ?', query.backendId);
+    if (query.statusCode !== undefined) add('status_code = ?', query.statusCode);
+    if (query.clientIp) add('client_ip = ?', query.clientIp);
+    if (query.search) {
+      const pattern = `%${query.search.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+      add(`(message LIKE ? ESCAPE '\\' OR metadata LIKE ? ESCAPE '\\')`, pattern, pattern);
+    }
+    const filtered = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const { total } = this.sql.exec<{ total: number }>(`SELECT COUNT(*) AS total FROM logs ${filtered}`, ...bindings).one();
+
+    const ascending = query.order === 'asc';
+    if (query.cursor) {
+      const cursor = Number(query.cursor);
+      if (!Number.isInteger(cursor)) {
+        throw new Error('Invalid cursor');
+      }
+      add(ascending ? 'seq > ?' : 'seq < ?', cursor);
+    }
+
+    const limit = Math.max(1, Math.min(query.limit || 100, 1000));
+    const offset = Math.max(0, query.offset || 0);
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.sql.exec<LogRow>(
+      `SELECT seq, id, timestamp, level, category, message, metadata FROM logs ${where}
+       ORDER BY seq ${ascending ? 'ASC' : 'DESC'} LIMIT ? OFFSET ?`,
+      ...bindings, limit + 1, offset
+    ).toArray();
+
+    const page = rows.slice(0, limit);
+    return {
+      logs: page.map(row => ({
+        id: row.id,
+        timestamp: row.timestamp,
+        level: row.level as LogEntry['level'],
+        category: row.category as LogEntry['category'],
+        message: row.message,
+        metadata: row.metadata ? JSON.parse(row.metadata) : undefined
+      })),
+      nextCursor: rows.length > limit ? String(page[page.length - 1].seq) : null,
+      total
+    };
+  }
+
+  /**
+   * Stream every matching entry as newline-delimited JSON, oldest first
+   */
+  exportNdjson(query: Omit<LogQuery, 'cursor' | 'offset' | 'limit' | 'order'> = {}): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    let cursor: string | undefined;
+
+    return new ReadableStream<Uint8Array>({
+      pull: controller => {
+        const page = this.query({ ...query, cursor, limit: 500, order: 'asc' });
+        if (page.logs.length > 0) {
+          controller.enqueue(encoder.encode(page.logs.map(entry => JSON.stringify(entry)).join('\n') + '\n'));
+        }
+        if (!page.nextCursor) {
+          controller.close();
+        } else {
+          cursor = page.nextCursor;
+        }
+      }
+    });
+  }
+}
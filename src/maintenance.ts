@@ -0,0 +1,297 @@
+import { Alert, Backend, HealthOverride, HealthOverrideMode, MaintenanceWindow, OriginPool } from './types';
+
+const HEALTH_OVERRIDE_MODES: HealthOverrideMode[] = ['auto', 'force_up', 'force_down'];
+
+// How far ahead to look for the next cron match; covers Feb 29 schedules
+const CRON_SEARCH_LIMIT_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+// Fields of a MaintenanceWindow the DO maintains
+const WINDOW_STATE_FIELDS = ['status', 'next_start', 'current_end', 'disabled_backend_ids'] as const;
+
+// minute, hour, day of month, month, day of week (0 and 7 are Sunday)
+const CRON_FIELD_RANGES: [number, number][] = [[0, 59], [0, 23], [1, 31], [1, 12], [0, 7]];
+
+interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  anyDay: boolean;
+  anyWeekday: boolean;
+}
+
+/**
+ * The override in effect for a backend: its own, else its pool's. `auto` defers to the checks, and
+ * expired overrides count as `auto` until the DO alarm drops them.
+ */
+export function getHealthOverride(pool: OriginPool | undefined, backend: Backend, now: number = Date.now()): HealthOverrideMode {
+  for (const override of [backend.health_override, pool?.health_override]) {
+    if (override && override.mode !== 'auto' && !(override.expires_at !== undefined && override.expires_at <= now)) {
+      return override.mode;
+    }
+  }
+  return 'auto';
+}
+
+export function validateHealthOverride(override: Partial<HealthOverride>): string | null {
+  if (!override || typeof override !== 'object' || !HEALTH_OVERRIDE_MODES.includes(override.mode!)) {
+    return `Health override mode must be one of ${HEALTH_OVERRIDE_MODES.join(', ')}`;
+  }
+  if (override.expires_at !== undefined && !Number.isFinite(override.expires_at)) {
+    return 'Health override expires_at must be a Unix timestamp in milliseconds';
+  }
+  return null;
+}
+
+/** Validate the overrides of pools and their backends */
+export function validateHealthOverrides(pools: Partial<OriginPool>[]): string | null {
+  for (const pool of pools) {
+    const error = pool.health_override && validateHealthOverride(pool.health_override);
+    if (error) {
+      return `Pool '${pool.id}': ${error}`;
+    }
+    for (const backend of pool.backends || []) {
+      const backendError = backend.health_override && validateHealthOverride(backend.health_override);
+      if (backendError) {
+        return `Backend '${backend.id}': ${backendError}`;
+      }
+    }
+  }
+  return null;
+}
+
+/** Drop overrides whose expiry has passed. Returns the pools and backends that lost one, for the log */
+export function clearExpiredOverrides(pools: OriginPool[], now: number = Date.now()): string[] {
+  const cleared: string[] = [];
+  const expired = (override?: HealthOverride) => override?.expires_at !== undefined && override.expires_at <= now;
+
+  for (const pool of pools) {
+    if (expired(pool.health_override)) {
+      cleared.push(`pool ${pool.id}`);
+      delete pool.health_override;
+    }
+    for (const backend of pool.backends) {
+      if (expired(backend.health_override)) {
+        cleared.push(`backend ${backend.id}`);
+        delete backend.health_override;
+      }
+    }
+  }
+  return cleared;
+}
+
+/** Earliest override expiry, or null when no override expires */
+export function nextOverrideExpiry(pools: OriginPool[]): number | null {
+  const expiries = pools
+    .flatMap(pool => [pool.health_override, ...pool.backends.map(b => b.health_override)])
+    .filter(override => override?.expires_at !== undefined)
+    .map(override => override!.expires_at!);
+  return expiries.length > 0 ? Math.min(...expiries) : null;
+}
+
+/** Reject malformed windows, windows without targets and targets that do not exist */
+export function validateMaintenanceWindows(windows: MaintenanceWindow[], pools: Partial<OriginPool>[]): string | null {
+  const poolIds = new Set(pools.map(pool => pool.id));
+  const backendIds = new Set(pools.flatMap(pool => (pool.backends || []).map(b => b.id)));
+  const ids = new Set<string>();
+
+  for (const window of windows) {
+    if (!window.id || typeof window.id !== 'string') {
+      return 'Every maintenance window needs an id';
+    }
+    if (ids.has(window.id)) {
+      return `Duplicate maintenance window id '${window.id}'`;
+    }
+    ids.add(window.id);
+
+    if (!window.pool_ids?.length && !window.backend_ids?.length) {
+      return `Maintenance window '${window.id}' needs pool_ids or backend_ids`;
+    }
+    const unknownPool = window.pool_ids?.find(id => !poolIds.has(id));
+    if (unknownPool) {
+      return `Maintenance window '${window.id}' refers to unknown pool '${unknownPool}'`;
+    }
+    const unknownBackend = window.backend_ids?.find(id => !backendIds.has(id));
+    if (unknownBackend) {
+      return `Maintenance window '${window.id}' refers to unknown backend '${unknownBackend}'`;
+    }
+
+    if (window.cron !== undefined) {
+      if (window.start !== undefined || window.end !== undefined) {
+        return `Maintenance window '${window.id}' takes either cron or start/end, not both`;
+      }
+      if (!(window.duration! > 0)) {
+        return `Maintenance window '${window.id}' needs a positive duration with cron`;
+      }
+      try {
+        parseCron(window.cron);
+      } catch (error) {
+        return `Maintenance window '${window.id}': ${error instanceof Error ? error.message : error}`;
+      }
+    } else if (!Number.isFinite(window.start) || !Number.isFinite(window.end) || window.end! <= window.start!) {
+      return `Maintenance window '${window.id}' needs a cron expression or a start before its end`;
+    }
+  }
+  return null;
+}
+
+/** A window's settings without the state the DO maintains, e.g. to take a window from a request */
+export function withoutWindowState(window: MaintenanceWindow): MaintenanceWindow {
+  const settings = { ...window };
+  for (const field of WINDOW_STATE_FIELDS) {
+    delete settings[field];
+  }
+  return settings;
+}
+
+/** Backends a window covers: those of its pools plus its listed backends */
+export function getWindowBackends(window: MaintenanceWindow, pools: OriginPool[]): Backend[] {
+  const poolIds = new Set(window.pool_ids || []);
+  const backendIds = new Set(window.backend_ids || []);
+  return pools.flatMap(pool => pool.backends.filter(b => poolIds.has(pool.id) || backendIds.has(b.id)));
+}
+
+/**
+ * Move a window through scheduled -> in_progress -> scheduled (cron) or completed (one-off). Returns
+ * whether its state changed and whether it has just started or ended; the caller drains and re-enables
+ * the backends. A disabled window in progress ends straight away. Occurrences missed entirely while
+ * the DO was idle are skipped.
+ */
+export function advanceMaintenanceWindow(window: MaintenanceWindow, now: number = Date.now()): { changed: boolean; phase?: 'start' | 'end' } {
+  if (window.status === 'in_progress') {
+    if (window.enabled && now < window.current_end!) {
+      return { changed: false };
+    }
+    window.next_start = window.cron ? nextCronTime(window.cron, Math.max(now, window.current_end!)) ?? undefined : undefined;
+    window.status = window.next_start !== undefined ? 'scheduled' : 'completed';
+    window.current_end = undefined;
+    return { changed: true, phase: 'end' };
+  }
+
+  if (!window.enabled || window.status === 'completed') {
+    return { changed: false };
+  }
+
+  let changed = false;
+  if (window.next_start === undefined) {
+    window.next_start = window.cron ? nextCronTime(window.cron, now) ?? undefined : window.start;
+    window.status = window.next_start !== undefined ? 'scheduled' : 'completed';
+    changed = true;
+  }
+  if (window.next_start === undefined || now < window.next_start) {
+    return { changed };
+  }
+
+  const end = window.cron ? window.next_start + window.duration! * 1000 : window.end!;
+  if (now >= end) {
+    window.next_start = window.cron ? nextCronTime(window.cron, now) ?? undefined : undefined;
+    window.status = window.next_start !== undefined ? 'scheduled' : 'completed';
+    return { changed: true };
+  }
+
+  window.status = 'in_progress';
+  window.current_end = end;
+  return { changed: true, phase: 'start' };
+}
+
+/** When the alarm next needs to look at the windows: the earliest start or end, or null */
+export function nextMaintenanceEvent(windows: MaintenanceWindow[]): number | null {
+  const events = windows
+    .filter(window => window.enabled || window.status === 'in_progress')
+    .map(window => window.status === 'in_progress' ? window.current_end : window.status === 'completed' ? undefined : window.next_start ?? window.start)
+    .filter((time): time is number => time !== undefined);
+  return events.length > 0 ? Math.min(...events) : null;
+}
+
+/**
+ * Firing alerts about a backend in a window in progress, or about a pool with any backend in one, are
+ * held back unless the window sets suppress_alerts to false. Resolutions always go out.
+ */
+export function isAlertSuppressed(alert: Alert, windows: MaintenanceWindow[] = [], pools: OriginPool[]): boolean {
+  if (alert.resolved) {
+    return false;
+  }
+  const backendId = alert.metadata?.backendId;
+  const poolId = alert.metadata?.poolId;
+
+  return windows.some(window => {
+    if (window.status !== 'in_progress' || window.suppress_alerts === false) {
+      return false;
+    }
+    const backends = getWindowBackends(window, pools);
+    if (backendId) {
+      return backends.some(b => b.id === backendId);
+    }
+    return !!poolId && pools.some(pool => pool.id === poolId && pool.backends.some(b => backends.includes(b)));
+  });
+}
+
+/** Parse a 5-field cron expression (numbers, `*`, ranges, lists and steps). Throws on invalid input */
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression '${expression}' must have 5 fields`);
+  }
+  const [minutes, hours, days, months, weekdays] = fields.map((field, i) => parseCronField(field, ...CRON_FIELD_RANGES[i]));
+  if (weekdays.has(7)) {
+    weekdays.add(0);
+  }
+  return { minutes, hours, days, months, weekdays, anyDay: fields[2] === '*', anyWeekday: fields[4] === '*' };
+}
+
+/** First minute strictly after `after` matching the expression, in UTC; null when none within 5 years */
+export function nextCronTime(expression: string, after: number): number | null {
+  const cron = parseCron(expression);
+  const limit = after + CRON_SEARCH_LIMIT_MS;
+  let time = Math.floor(after / 60000) * 60000 + 60000;
+
+  while (time <= limit) {
+    const date = new Date(time);
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth();
+    const day = date.getUTCDate();
+    const hour = date.getUTCHours();
+
+    if (!cron.months.has(month + 1)) {
+      time = Date.UTC(year, month + 1, 1);
+    } else if (!cronDayMatches(cron, day, date.getUTCDay())) {
+      time = Date.UTC(year, month, day + 1);
+    } else if (!cron.hours.has(hour)) {
+      time = Date.UTC(year, month, day, hour + 1);
+    } else if (!cron.minutes.has(date.getUTCMinutes())) {
+      time += 60000;
+    } else {
+      return time;
+    }
+  }
+  return null;
+}
+
+// As in cron, a day matches either field when both day of month and day of week are restricted
+function cronDayMatches(cron: CronSchedule, day: number, weekday: number): boolean {
+  if (cron.anyDay || cron.anyWeekday) {
+    return cron.days.has(day) && cron.weekdays.has(weekday);
+  }
+  return cron.days.has(day) || cron.weekdays.has(weekday);
+}
+
+function parseCronField(field: string, min: number, max: number): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid cron field '${field}'`);
+    }
+    const from = match[1] === '*' ? min : Number(match[2]);
+    const to = match[1] === '*' ? max : match[3] !== undefined ? Number(match[3]) : match[4] !== undefined ? max : from;
+    const step = match[4] !== undefined ? Number(match[4]) : 1;
+    if (from < min || to > max || from > to || step < 1) {
+      throw new Error(`Cron field '${field}' is out of range ${min}-${max}`);
+    }
+    for (let value = from; value <= to; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
@@ -0,0 +1,68 @@
+import { RetryPolicyConfig } from './types';
+
+const DEFAULT_MAX_RETRY_RATIO = 0.2;
+const DEFAULT_WINDOW_SECONDS = 10;
+const DEFAULT_MIN_RETRIES = 3;
+
+interface BudgetBucket {
+  requests: number;
+  retries: number;
+}
+
+/**
+ * Service-wide cap on retries as a share of requests over a sliding window of one-second buckets,
+ * so a backend outage cannot multiply into a retry storm. min_retries per window are always allowed.
+ */
+export class RetryBudget {
+  private buckets = new Map<number, BudgetBucket>();
+
+  recordRequest(config: RetryPolicyConfig['retry_budget'], now: number = Date.now()): void {
+    if (config?.enabled) {
+      this.getBucket(now, config.window ?? DEFAULT_WINDOW_SECONDS).requests++;
+    }
+  }
+
+  /** Spend one retry from the budget. False when it is exhausted; always true without an enabled budget. */
+  tryAcquire(config: RetryPolicyConfig['retry_budget'], now: number = Date.now()): boolean {
+    if (!config?.enabled) {
+      return true;
+    }
+
+    const windowSeconds = config.window ?? DEFAULT_WINDOW_SECONDS;
+    const current = this.getBucket(now, windowSeconds);
+    let requests = 0;
+    let retries = 0;
+    for (const bucket of this.buckets.values()) {
+      requests += bucket.requests;
+      retries += bucket.retries;
+    }
+
+    const allowed = Math.max(config.min_retries ?? DEFAULT_MIN_RETRIES, requests * (config.max_retry_ratio ?? DEFAULT_MAX_RETRY_RATIO));
+    if (retries >= allowed) {
+      return false;
+    }
+    current.retries++;
+    return true;
+  }
+
+  /** The bucket for the current second; buckets that fell out of the window are dropped when a new one starts */
+  private getBucket(now: number, windowSeconds: number): BudgetBucket {
+    const second = Math.floor(now / 1000);
+    let bucket = this.buckets.get(second);
+    if (!bucket) {
+      this.prune(second, windowSeconds);
+      bucket = { requests: 0, retries: 0 };
+      this.buckets.set(second, bucket);
+    }
+    return bucket;
+  }
+
+  private prune(second: number, windowSeconds: number): void {
+    const oldest = second - windowSeconds + 1;
+    for (const bucketSecond of this.buckets.keys()) {
+      if (bucketSecond < oldest) {
+        this.buckets.delete(bucketSecond);
+      }
+    }
+  }
+}
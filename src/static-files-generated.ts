@@ -1114,6 +1114,10 @@ async function loadServicesData() {
     for (const [serviceName, serviceData] of Object.entries(services.services)) {
       const backendCount = serviceData.backends ? serviceData.backends.length : 0;
       const statusClass = serviceData.status === 'active' ? 'status-healthy' : 'status-unknown';
+      const metrics = serviceData.metrics || {};
+      const latency = metrics.p50ResponseTime !== undefined
+        ? \`<div class="service-url">Latency p50/p95/p99: \${metrics.p50ResponseTime}/\${metrics.p95ResponseTime}/\${metrics.p99ResponseTime}ms</div>\`
+        : '';
       
       html += \`
                 <div class="service-item">
@@ -1121,6 +1125,7 @@ async function loadServicesData() {
                         <div class="service-name">\${serviceName}</div>
                         <div class="service-url">\${backendCount} backend(s) configured</div>
             <div class="service-url">Mode: \${serviceData.mode || 'simple'}</div>
+            \${latency}
           </div>
           <div class="service-actions">
             <div class="status-badge \${statusClass}">\${serviceData.status || 'Active'}</div>
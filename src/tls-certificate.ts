@@ -0,0 +1,189 @@
+const TLS_RECORD_HANDSHAKE = 0x16;
+const TLS_RECORD_ALERT = 0x15;
+const HANDSHAKE_CLIENT_HELLO = 1;
+const HANDSHAKE_CERTIFICATE = 11;
+const HANDSHAKE_SERVER_HELLO_DONE = 14;
+
+// ECDHE and RSA suites with AES-GCM, ChaCha20 and AES-CBC, enough for any server that still speaks TLS 1.2
+const CIPHER_SUITES = [0xc02b, 0xc02f, 0xc02c, 0xc030, 0xcca9, 0xcca8, 0xc009, 0xc013, 0xc00a, 0xc014, 0x009c, 0x009d, 0x002f, 0x0035];
+const SUPPORTED_GROUPS = [0x001d, 0x0017, 0x0018]; // x25519, secp256r1, secp384r1
+const SIGNATURE_ALGORITHMS = [0x0403, 0x0503, 0x0603, 0x0804, 0x0805, 0x0806, 0x0401, 0x0501, 0x0601, 0x0201];
+
+const DER_UTC_TIME = 0x17;
+const DER_GENERALIZED_TIME = 0x18;
+
+/**
+ * Expiry (Unix ms) of the certificate a server presents. connect() does not expose the peer certificate,
+ * so this sends its own TLS 1.2 ClientHello over a plain socket and reads the Certificate message, which
+ * is only unencrypted up to TLS 1.2. Servers that require TLS 1.3 answer with an alert. The handshake is
+ * abandoned once the certificate has arrived.
+ */
+export async function readCertificateExpiry(socket: Socket, serverName: string): Promise<number> {
+  const writer = socket.writable.getWriter();
+  const reader = socket.readable.getReader();
+  try {
+    await writer.write(buildClientHello(serverName));
+
+    let records = new Uint8Array(0);
+    let handshake = new Uint8Array(0);
+    for (;;) {
+      // Move complete records into the handshake stream; messages may span records
+      while (records.length >= 5) {
+        const length = (records[3] << 8) | records[4];
+        if (records.length < 5 + length) break;
+        const fragment = records.subarray(5, 5 + length);
+        if (records[0] === TLS_RECORD_ALERT) {
+          throw new Error(`Server refused a TLS 1.2 handshake (alert ${fragment[1]})`);
+        }
+        if (records[0] !== TLS_RECORD_HANDSHAKE) {
+          throw new Error(`Unexpected TLS record type ${records[0]}`);
+        }
+        handshake = concat(handshake, fragment);
+        records = records.slice(5 + length);
+      }
+
+      const certificate = findCertificate(handshake);
+      if (certificate) {
+        return parseCertificateNotAfter(certificate);
+      }
+
+      const { value, done } = await reader.read();
+      if (done) {
+        throw new Error('Connection closed before the server sent its certificate');
+      }
+      records = concat(records, value);
+    }
+  } finally {
+    writer.releaseLock();
+    reader.releaseLock();
+  }
+}
+
+export function buildClientHello(serverName: string): Uint8Array {
+  const extensions: number[] = [];
+  // SNI carries host names only
+  if (!/^[\d.]+$/.test(serverName) && !serverName.includes(':')) {
+    const name = Array.from(new TextEncoder().encode(serverName));
+    extensions.push(...extension(0x0000, [...u16(name.length + 3), 0, ...u16(name.length), ...name]));
+  }
+  extensions.push(...extension(0x000a, [...u16(SUPPORTED_GROUPS.length * 2), ...SUPPORTED_GROUPS.flatMap(u16)]));
+  extensions.push(...extension(0x000b, [1, 0])); // Uncompressed EC points
+  extensions.push(...extension(0x000d, [...u16(SIGNATURE_ALGORITHMS.length * 2), ...SIGNATURE_ALGORITHMS.flatMap(u16)]));
+  extensions.push(...extension(0xff01, [0])); // Empty renegotiation_info
+
+  const body = [
+    0x03, 0x03, // TLS 1.2
+    ...crypto.getRandomValues(new Uint8Array(32)),
+    0, // No session ID
+    ...u16(CIPHER_SUITES.length * 2), ...CIPHER_SUITES.flatMap(u16),
+    1, 0, // Null compression only
+    ...u16(extensions.length), ...extensions
+  ];
+  const message = [HANDSHAKE_CLIENT_HELLO, ...u24(body.length), ...body];
+  return new Uint8Array([TLS_RECORD_HANDSHAKE, 0x03, 0x01, ...u16(message.length), ...message]);
+}
+
+/** notAfter of a DER X.509 certificate, as Unix ms */
+export function parseCertificateNotAfter(der: Uint8Array): number {
+  const certificate = readDer(der, 0);
+  const tbsCertificate = readDer(der, certificate.start);
+  let field = readDer(der, tbsCertificate.start);
+  if (field.tag === 0xa0) {
+    field = readDer(der, field.end); // Explicit version
+  }
+  // serialNumber, signature and issuer come before validity
+  for (let i = 0; i < 3; i++) {
+    field = readDer(der, field.end);
+  }
+  const notBefore = readDer(der, field.start);
+  const notAfter = readDer(der, notBefore.end);
+  return parseDerTime(notAfter.tag, new TextDecoder().decode(der.subarray(notAfter.start, notAfter.end)));
+}
+
+/** The first (leaf) certificate of a complete Certificate message, or undefined while more bytes are needed */
+function findCertificate(handshake: Uint8Array): Uint8Array | undefined {
+  let offset = 0;
+  while (offset + 4 <= handshake.length) {
+    const type = handshake[offset];
+    const length = readU24(handshake, offset + 1);
+    if (offset + 4 + length > handshake.length) {
+      return undefined;
+    }
+    if (type === HANDSHAKE_CERTIFICATE) {
+      const body = handshake.subarray(offset + 4, offset + 4 + length);
+      if (body.length < 6) {
+        throw new Error('Server sent an empty certificate chain');
+      }
+      return body.subarray(6, 6 + readU24(body, 3));
+    }
+    if (type === HANDSHAKE_SERVER_HELLO_DONE) {
+      throw new Error('Server sent no certificate');
+    }
+    offset += 4 + length;
+  }
+  return undefined;
+}
+
+/** Tag and content bounds of the DER element at `offset` */
+function readDer(bytes: Uint8Array, offset: number): { tag: number; start: number; end: number } {
+  if (offset + 2 > bytes.length) {
+    throw new Error('Truncated certificate');
+  }
+  const tag = bytes[offset];
+  let length = bytes[offset + 1];
+  let start = offset + 2;
+  if (length >= 0x80) {
+    const lengthBytes = length & 0x7f;
+    if (lengthBytes === 0 || lengthBytes > 4) {
+      throw new Error('Unsupported DER length encoding in certificate');
+    }
+    length = 0;
+    for (let i = 0; i < lengthBytes; i++) {
+      length = length * 256 + bytes[start + i];
+    }
+    start += lengthBytes;
+  }
+  if (start + length > bytes.length) {
+    throw new Error('Truncated certificate');
+  }
+  return { tag, start, end: start + length };
+}
+
+function parseDerTime(tag: number, text: string): number {
+  if (tag !== DER_UTC_TIME && tag !== DER_GENERALIZED_TIME) {
+    throw new Error(`Unexpected certificate time tag 0x${tag.toString(16)}`);
+  }
+  const yearDigits = tag === DER_UTC_TIME ? 2 : 4;
+  const match = new RegExp(`^(\\d{${yearDigits}})(\\d{2})(\\d{2})(\\d{2})(\\d{2})(\\d{2})Z$`).exec(text);
+  if (!match) {
+    throw new Error(`Malformed certificate time ${text}`);
+  }
+  let year = Number(match[1]);
+  if (yearDigits === 2) {
+    year += year >= 50 ? 1900 : 2000; // RFC 5280: UTCTime years 50-99 are 19xx
+  }
+  return Date.UTC(year, Number(match[2]) - 1, Number(match[3]), Number(match[4]), Number(match[5]), Number(match[6]));
+}
+
+function extension(type: number, data: number[]): number[] {
+  return [...u16(type), ...u16(data.length), ...data];
+}
+
+function u16(value: number): number[] {
+  return [(value >> 8) & 0xff, value & 0xff];
+}
+
+function u24(value: number): number[] {
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+function readU24(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] << 16) | (bytes[offset + 1] << 8) | bytes[offset + 2];
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const result = new Uint8Array(a.length + b.length);
+  result.set(a);
+  result.set(b, a.length);
+  return result;
+}
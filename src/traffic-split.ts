@@ -0,0 +1,168 @@
+import { Alert, TrafficSplitConfig, TrafficSplitSide } from './types';
+
+const DEFAULT_MIN_REQUESTS = 50;
+const DEFAULT_MAX_ERROR_RATE_INCREASE = 5;
+const DEFAULT_MAX_LATENCY_RATIO = 1.5;
+
+export interface TrafficSplitCounters {
+  requests: number;
+  failedRequests: number;
+  totalResponseTimeMs: number;
+}
+
+export interface TrafficSplitEvaluation {
+  changed: boolean; // The split config was updated and should be saved
+  message?: string; // Step advance, completion or rollback, for the log
+  alert?: Alert; // Raised on rollback
+}
+
+/**
+ * Compares canary and baseline traffic for a TrafficSplitConfig and walks it through its steps.
+ * Counters cover the current step only and live in memory, so a restart starts the comparison over.
+ */
+export class TrafficSplitController {
+  private counters: Record<TrafficSplitSide, TrafficSplitCounters> = {
+    baseline: { requests: 0, failedRequests: 0, totalResponseTimeMs: 0 },
+    canary: { requests: 0, failedRequests: 0, totalResponseTimeMs: 0 }
+  };
+
+  record(side: TrafficSplitSide, failed: boolean, responseTimeMs: number): void {
+    const counters = this.counters[side];
+    counters.requests++;
+    counters.totalResponseTimeMs += responseTimeMs;
+    if (failed) {
+      counters.failedRequests++;
+    }
+  }
+
+  getCounters(): Record<TrafficSplitSide, TrafficSplitCounters> {
+    return { baseline: { ...this.counters.baseline }, canary: { ...this.counters.canary } };
+  }
+
+  reset(): void {
+    for (const counters of Object.values(this.counters)) {
+      counters.requests = 0;
+      counters.failedRequests = 0;
+      counters.totalResponseTimeMs = 0;
+    }
+  }
+
+  /** Restart the split at its first step */
+  start(split: TrafficSplitConfig, now: number = Date.now()): void {
+    split.status = 'active';
+    split.current_step = 0;
+    split.step_started_at = now;
+    if (split.steps?.length) {
+      split.percent = split.steps[0].percent;
+    }
+    delete split.rolled_back_at;
+    delete split.rollback_reason;
+    this.reset();
+  }
+
+  /**
+   * Roll back when the canary breaches its thresholds, otherwise advance to the next step once the
+   * current one has run for its duration. A last step at 100% completes the split.
+   */
+  evaluate(split: TrafficSplitConfig, now: number = Date.now()): TrafficSplitEvaluation {
+    if (!split.enabled || (split.status && split.status !== 'active')) {
+      return { changed: false };
+    }
+
+    // Split set through a full config update rather than the traffic-split endpoint
+    if (split.step_started_at === undefined) {
+      this.start(split, now);
+      return { changed: true, message: `Traffic split started at ${split.percent}% to canary pool ${split.canary.pool_id}` };
+    }
+
+    const reason = this.getRollbackReason(split);
+    if (reason) {
+      const percent = split.percent;
+      split.status = 'rolled_back';
+      split.percent = 0;
+      split.rolled_back_at = now;
+      split.rollback_reason = reason;
+      const message = `Canary rolled back from ${percent}%: ${reason}`;
+      return {
+        changed: true,
+        message,
+        alert: {
+          id: `canary-rollback-${split.canary.pool_id}-${now}`,
+          type: 'canary_rollback',
+          severity: 'high',
+          message,
+          timestamp: now,
+          resolved: false,
+          metadata: {
+            poolId: split.canary.pool_id,
+            backendId: split.canary.backend_id,
+            baselinePoolId: split.baseline.pool_id,
+            percent,
+            step: split.current_step ?? 0,
+            counters: this.getCounters()
+          }
+        }
+      };
+    }
+
+    const steps = split.steps || [];
+    const step = split.current_step ?? 0;
+    if (step >= steps.length || now < split.step_started_at + steps[step].duration * 1000) {
+      return { changed: false };
+    }
+
+    if (step + 1 < steps.length) {
+      split.current_step = step + 1;
+      split.step_started_at = now;
+      split.percent = steps[step + 1].percent;
+      this.reset();
+      return { changed: true, message: `Canary advanced to ${split.percent}% (step ${step + 2} of ${steps.length})` };
+    }
+
+    if (split.percent >= 100) {
+      split.status = 'completed';
+      return { changed: true, message: 'Canary completed at 100%' };
+    }
+    return { changed: false };
+  }
+
+  /** When the split next needs evaluating: the end of the current step, or `interval` from now while monitoring */
+  nextEvaluation(split: TrafficSplitConfig, interval: number, now: number = Date.now()): number | null {
+    if (!split.enabled || (split.status && split.status !== 'active')) {
+      return null;
+    }
+    if (split.step_started_at === undefined) {
+      return now;
+    }
+    const step = split.steps?.[split.current_step ?? 0];
+    const stepEnd = step ? split.step_started_at + step.duration * 1000 : Infinity;
+    return split.rollback?.enabled ? Math.min(stepEnd, now + interval) : (stepEnd === Infinity ? null : stepEnd);
+  }
+
+  private getRollbackReason(split: TrafficSplitConfig): string | null {
+    const rollback = split.rollback;
+    const { baseline, canary } = this.counters;
+    if (!rollback?.enabled || canary.requests < (rollback.min_requests ?? DEFAULT_MIN_REQUESTS)) {
+      return null;
+    }
+
+    const canaryErrorRate = (canary.failedRequests / canary.requests) * 100;
+    const baselineErrorRate = baseline.requests > 0 ? (baseline.failedRequests / baseline.requests) * 100 : 0;
+    const maxIncrease = rollback.max_error_rate_increase ?? DEFAULT_MAX_ERROR_RATE_INCREASE;
+    if (canaryErrorRate - baselineErrorRate > maxIncrease) {
+      return `error rate ${canaryErrorRate.toFixed(1)}% vs. baseline ${baselineErrorRate.toFixed(1)}% (max +${maxIncrease} points)`;
+    }
+
+    // Without baseline traffic there is nothing to compare latency against
+    if (baseline.requests === 0) {
+      return null;
+    }
+    const canaryLatency = canary.totalResponseTimeMs / canary.requests;
+    const baselineLatency = Math.max(1, baseline.totalResponseTimeMs / baseline.requests);
+    const maxRatio = rollback.max_latency_ratio ?? DEFAULT_MAX_LATENCY_RATIO;
+    if (canaryLatency / baselineLatency > maxRatio) {
+      return `average latency ${canaryLatency.toFixed(0)}ms vs. baseline ${baselineLatency.toFixed(0)}ms (max ${maxRatio}x)`;
+    }
+    return null;
+  }
+}
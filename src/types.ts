@@ -40,6 +40,19 @@ export interface Backend {
   };
   avgResponseTimeMs?: number; // Rolling average response time
   healthScore?: number; // 0-100 health score based on multiple factors
+
+  // Connection draining: a draining backend takes no new sessions, but pinned sessions and in-flight
+  // requests continue until drainDeadline (session_affinity.drain_duration), or until nothing is in flight
+  draining?: boolean;
+  drainStartedAt?: number;
+  drainDeadline?: number;
+  removeAfterDrain?: boolean; // Deleted from the config; dropped from its pool once the drain ends
+
+  // Per-backend changes to its pool's monitor (or activeHealthChecks), e.g. a different path or port
+  monitor_override?: BackendMonitorOverride;
+
+  // Manual health, taking precedence over its pool's override and over passive and active checks
+  health_override?: HealthOverride;
 }
 
 export interface OriginPool {
@@ -56,11 +69,25 @@ export interface OriginPool {
   // Endpoint steering method for origins within this pool
   endpoint_steering: EndpointSteeringMethod;
   
-  // Load shedding configuration
+  // Load shedding: divert `percent` of traffic to the next pool in default_pool_ids
   load_shedding?: {
+    percent?: number; // 0-100
     default_policy?: 'none' | 'shed_new' | 'shed_new_and_existing';
-    session_affinity_policy?: 'honor' | 'shed';
+    session_affinity_policy?: 'honor' | 'shed'; // Whether shed sessions are re-pinned to the new pool
   };
+
+  // Request mirroring: copy `percent` of this pool's traffic to a shadow pool and discard the responses
+  mirror?: {
+    pool_id: string;
+    percent: number; // 0-100
+    max_body_bytes?: number; // Bodies are buffered for the copy; larger or unsized bodies are not mirrored. Default 1 MiB
+  };
+
+  // HealthMonitor id; the pool's backends are checked by that monitor instead of activeHealthChecks
+  monitor?: string;
+
+  // Manual health for every backend of the pool that has no override of its own
+  health_override?: HealthOverride;
 }
 
 export interface LoadBalancer {
@@ -88,8 +115,8 @@ export interface LoadBalancer {
   // Country pools for geo-steering  
   country_pools?: { [country: string]: string[] }; // country code -> pool IDs
   
-  // Pop pools for proximity steering
-  pop_pools?: { [pop: string]: string[] }; // PoP code -> pool IDs
+  // Pop pools for PoP steering
+  pop_pools?: { [pop: string]: string[] }; // PoP code (e.g. "FRA") -> pool IDs in failover order
   
   // Adaptive routing settings
   adaptive_routing?: AdaptiveRoutingConfig;
@@ -97,6 +124,9 @@ export interface LoadBalancer {
   // Zero-downtime failover
   zero_downtime_failover?: ZeroDowntimeFailoverConfig;
   
+  // Canary / blue-green traffic split
+  traffic_split?: TrafficSplitConfig;
+  
   // Custom rules
   rules?: LoadBalancerRule[];
   
@@ -110,6 +140,7 @@ export type TrafficSteeringMethod =
   | 'geo' // Geographic steering
   | 'dynamic' // Dynamic latency-based steering
   | 'proximity' // Proximity-based steering  
+  | 'pop' // Cloudflare data center (colo) -> pool mapping
   | 'least_outstanding_requests' // LORS
   | 'least_connections'
   | 'dns_failover'; // NEW: DNS-based failover mode
@@ -171,6 +202,73 @@ export interface ZeroDowntimeFailoverConfig {
   adaptive_routing?: boolean; // Enable adaptive routing based on backend health
 }
 
+export type HealthOverrideMode = 'auto' | 'force_up' | 'force_down';
+
+// force_up routes to a backend whatever its checks say; force_down never routes to it. Checks keep
+// running and recording `healthy`, so the backend resumes with up-to-date health once the override ends.
+export interface HealthOverride {
+  mode: HealthOverrideMode;
+  expires_at?: number; // Unix ms; the override is dropped once it passes
+  reason?: string;
+  set_at?: number;
+}
+
+// Scheduled maintenance for pools and/or backends: their backends are drained and disabled when the
+// window starts and re-enabled when it ends. Either a one-off start/end or a cron start with a duration.
+export interface MaintenanceWindow {
+  id: string;
+  name?: string;
+  enabled: boolean;
+  pool_ids?: string[]; // Every backend of these pools
+  backend_ids?: string[];
+  start?: number; // Unix ms, one-off window
+  end?: number;
+  cron?: string; // 5-field cron expression in UTC, e.g. "0 3 * * 0" for Sundays at 03:00
+  duration?: number; // Seconds, with cron
+  suppress_alerts?: boolean; // Hold back alerts for the affected pools and backends, default true
+
+  // Maintained by the DO
+  status?: 'scheduled' | 'in_progress' | 'completed';
+  next_start?: number;
+  current_end?: number;
+  disabled_backend_ids?: string[]; // Backends the window disabled and re-enables when it ends
+}
+
+export type TrafficSplitSide = 'baseline' | 'canary';
+
+// One side of a traffic split: a whole pool, or a single backend in it
+export interface TrafficSplitTarget {
+  pool_id: string;
+  backend_id?: string;
+}
+
+// Percentage split between a baseline and a canary, stepped through `steps` by the DO alarm.
+// Testers can force a side with override_header/override_cookie set to "canary" or "baseline".
+export interface TrafficSplitConfig {
+  enabled: boolean;
+  baseline: TrafficSplitTarget;
+  canary: TrafficSplitTarget;
+  percent: number; // Current canary share, 0-100
+  steps?: { percent: number; duration: number }[]; // e.g. 1% -> 10% -> 50% -> 100%; duration in seconds
+  override_header?: string;
+  override_cookie?: string;
+
+  // Automatic rollback, compared over the current step
+  rollback?: {
+    enabled: boolean;
+    min_requests?: number; // Canary requests needed before comparing, default 50
+    max_error_rate_increase?: number; // Percentage points above the baseline error rate, default 5
+    max_latency_ratio?: number; // Canary / baseline average latency, default 1.5
+  };
+
+  // Maintained by the DO
+  status?: 'active' | 'completed' | 'rolled_back';
+  current_step?: number;
+  step_started_at?: number;
+  rolled_back_at?: number;
+  rollback_reason?: string;
+}
+
 export interface LoadBalancerRule {
   id: string;
   name: string;
@@ -207,6 +305,23 @@ export interface RuleAction {
   session_affinity_enabled?: boolean;
 }
 
+// Service-level firewall-style rules, evaluated before load_balancer.rules
+export interface CustomRule {
+  id: string;
+  name: string;
+  expression: string; // e.g., "http.request.uri.path contains '/api'"
+  action: 'route' | 'block' | 'challenge';
+  poolId?: string; // For route action
+  priority: number; // Lower = higher priority
+  enabled?: boolean; // Defaults to true
+
+  // For challenge action
+  challenge?: {
+    difficulty?: number; // Leading zero bits for the proof-of-work; 0 = plain cookie check (default: 16)
+    ttl?: number; // Seconds a solved challenge stays valid (default: 3600)
+  };
+}
+
 // Action response types for rule execution
 export interface FixedResponseAction extends Error {
   name: 'FixedResponseAction';
@@ -265,14 +380,20 @@ export interface PassiveHealthCheckConfig {
 
 export interface ActiveHealthCheckConfig {
   enabled: boolean;
-  type: 'http' | 'https' | 'tcp' | 'udp_icmp' | 'icmp' | 'smtp' | 'ldap';
+  type: 'http' | 'https' | 'tcp' | 'tls' | 'udp_icmp' | 'icmp' | 'smtp' | 'ldap'; // udp_icmp/icmp are rejected: sockets are TCP only
   path: string; // e.g., "/healthz"
+  port?: number; // Socket checks (tcp, tls, smtp, ldap); defaults to the backend URL's port, then the scheme's port
   method?: string; // HTTP method for HTTP checks
   timeout: number; // Timeout in seconds
   interval: number; // Check interval in seconds
-  retries: number; // Number of retries before marking unhealthy
+  retries: number; // Extra attempts within one check before it counts as failed
   expected_codes?: number[]; // Expected HTTP status codes
   expected_body?: string; // Expected response body content
+  expected_body_regex?: string; // Regular expression the response body must match
+  expected_json?: { path: string; equals?: string | number | boolean | null }[]; // JSONPath like "$.db.status"; without `equals` the path must exist
+  expected_headers?: { [name: string]: string }; // Required response headers; each value is a regular expression
+  max_response_time?: number; // ms; slower probes fail
+  min_certificate_days?: number; // Fail when the backend's TLS certificate expires sooner; read from a TLS 1.2 handshake, unknown for TLS 1.3-only backends
   follow_redirects?: boolean;
   allow_insecure?: boolean; // Allow self-signed certificates
   consecutive_up: number; // Consecutive successes needed to mark healthy
@@ -281,15 +402,42 @@ export interface ActiveHealthCheckConfig {
   // Headers to send with health check
   headers?: { [key: string]: string };
   
-  // Regions to probe from
-  check_regions?: string[]; // e.g., ['WEU', 'EEU', 'NAM']
+  // Regions to probe from; a check passes when a majority of regions pass
+  check_regions?: string[]; // e.g., ['WEU', 'EEU', 'ENAM']
+}
+
+// Named active health check, attached to pools through OriginPool.monitor and run on its own interval
+export interface HealthMonitor extends ActiveHealthCheckConfig {
+  id: string;
+  name?: string;
+  description?: string;
 }
 
+// Scheduling and hysteresis stay with the monitor
+export type BackendMonitorOverride = Partial<Omit<ActiveHealthCheckConfig, 'enabled' | 'interval' | 'consecutive_up' | 'consecutive_down'>>;
+
 export interface RetryPolicyConfig {
   max_retries: number;
-  retry_timeout: number;
-  backoff_strategy: 'constant' | 'exponential';
-  base_delay: number;
+  retry_timeout: number; // ms after the first attempt finished within which retries may start; also caps their timeouts
+  backoff_strategy: 'constant' | 'exponential'; // Both jittered; exponential doubles base_delay per attempt
+  base_delay: number; // ms; a backend's Retry-After takes precedence
+
+  // Service-wide retry budget: retries may be at most max_retry_ratio of requests over the window
+  retry_budget?: {
+    enabled: boolean;
+    max_retry_ratio?: number; // Default 0.2
+    window?: number; // Seconds, default 10
+    min_retries?: number; // Retries always allowed per window so low traffic can still retry, default 3
+  };
+
+  // Hedging for GET/HEAD: if the first backend hasn't answered after the hedge delay, send a duplicate
+  // to another backend and use whichever answers first
+  hedging?: {
+    enabled: boolean;
+    delay_ms?: number; // Fixed hedge delay, and the fallback for 'p95' without enough samples. Default 200
+    delay_source?: 'fixed' | 'p95'; // 'p95' waits for the first backend's p95 response time
+    max_hedge_percent?: number; // Hedges allowed as a share of eligible requests, default 10
+  };
 }
 
 export interface ObservabilityConfig {
@@ -297,6 +445,24 @@ export interface ObservabilityConfig {
   add_backend_header?: boolean;
   add_pool_header?: boolean;
   add_region_header?: boolean;
+  log_retention_days?: number; // Persisted log retention (default: 7)
+}
+
+// Log shipping: batches of LogEntry sent to an external collector
+export interface LogSinkConfig {
+  id: string;
+  type: 'http' | 'syslog' | 'loki' | 'elasticsearch'; // http = NDJSON, syslog = RFC 5424 lines over HTTP
+  enabled: boolean;
+  url: string; // Full endpoint, e.g. https://loki.example.com/loki/api/v1/push or https://es.example.com/_bulk
+  headers?: Record<string, string>; // e.g. Authorization
+  categories?: string[]; // Only ship these LogEntry categories (default: all)
+  levels?: string[]; // Only ship these LogEntry levels (default: all)
+  batchSize?: number; // Entries per request (default: 100)
+  flushInterval?: number; // ms to wait for a batch to fill (default: 5000)
+  maxRetries?: number; // default: 3
+  maxBufferSize?: number; // Oldest entries are dropped beyond this (default: 1000)
+  labels?: Record<string, string>; // Extra Loki stream labels
+  index?: string; // Elasticsearch index (default: load-balancer-logs)
 }
 
 // Notification system types
@@ -359,7 +525,9 @@ export interface LoadBalancerServiceConfig {
   currentRoundRobinIndex: number;
   backendCurrentWeights?: { [backendId: string]: number }; // For Smooth Weighted Round-Robin algorithm
   passiveHealthChecks: PassiveHealthCheckConfig;
-  activeHealthChecks: ActiveHealthCheckConfig;
+  activeHealthChecks: ActiveHealthCheckConfig; // For pools without a monitor
+  monitors?: HealthMonitor[];
+  maintenanceWindows?: MaintenanceWindow[];
   retryPolicy: RetryPolicyConfig;
   hostHeaderRewrite?: 'preserve' | 'backend_hostname' | string;
   observability: ObservabilityConfig;
@@ -385,21 +553,22 @@ export interface LoadBalancerServiceConfig {
   rateLimiting?: {
     enabled: boolean;
     requestsPerMinute: number;
-    burstSize?: number;
+    burstSize?: number; // Bucket capacity, defaults to requestsPerMinute
+    keyBy?: 'ip' | 'header' | 'api_key'; // What identifies a client (default: ip)
+    keyHeader?: string; // Header to key on for 'header' (required) or 'api_key' (default: X-API-Key)
   };
   
   // Custom rules
-  customRules?: {
-    id: string;
-    name: string;
-    expression: string; // e.g., "http.request.uri.path contains '/api'"
-    action: 'route' | 'block' | 'challenge';
-    poolId?: string; // For route action
-    priority: number;
-  }[];
+  customRules?: CustomRule[];
   
   // Notification settings
   notificationSettings?: NotificationConfig[];
+
+  // Alert rules evaluated periodically from the DO alarm
+  alertRules?: AlertRule[];
+
+  // External log shipping
+  logSinks?: LogSinkConfig[];
 }
 
 // Enhanced metrics with more granular data
@@ -417,6 +586,7 @@ export interface BackendMetrics {
   p50ResponseTime?: number;
   p95ResponseTime?: number;
   p99ResponseTime?: number;
+  latencySketch?: LatencySketch;
   connectionsActive?: number;
   connectionsTotal?: number;
   bytesIn?: number;
@@ -436,9 +606,38 @@ export interface PoolMetrics {
   totalFailedRequests: number;
   activeConnections: number;
   avgResponseTime: number;
+  p50ResponseTime?: number;
+  p95ResponseTime?: number;
+  p99ResponseTime?: number;
+  latencySketch?: LatencySketch;
   healthyOrigins: number;
   totalOrigins: number;
   lastToggle?: number; // Last time pool was enabled/disabled
+  shedRequests?: number; // Requests diverted to another pool by load shedding
+}
+
+// Shadow (mirrored) traffic per shadow pool, kept apart from BackendMetrics so it never affects routing
+export interface ShadowMetrics {
+  poolId: string;
+  requests: number;
+  errors: number; // Connection errors and timeouts
+  skippedRequests: number; // Not mirrored: body too large, unsized, or no available shadow backend
+  statusCodes: Record<string, number>;
+  totalResponseTimeMs: number;
+  p50ResponseTime?: number;
+  p95ResponseTime?: number;
+  p99ResponseTime?: number;
+  latencySketch?: LatencySketch;
+}
+
+// Mergeable log-bucketed latency sketch (DDSketch); bins are keyed by log_gamma(ms)
+export interface LatencySketch {
+  relativeAccuracy: number;
+  bins: Record<string, number>;
+  zeroCount: number; // Samples <= 0ms
+  count: number;
+  min: number;
+  max: number;
 }
 
 export interface ServiceMetrics {
@@ -462,6 +661,26 @@ export interface ServiceMetrics {
   // Session affinity metrics
   sessionAffinityHits?: number;
   sessionAffinityMisses?: number;
+
+  // Rate limiting metrics
+  rateLimitedRequests?: number;
+
+  // Retry metrics
+  retries?: number;
+  retryBudgetExhausted?: number; // Retries and hedges skipped because the retry budget was spent
+
+  // Hedging metrics
+  hedgedRequests?: number; // Duplicates sent
+  hedgeWins?: number; // Duplicates that answered first
+
+  // Mirrored traffic, keyed by shadow pool ID
+  shadowMetrics?: Record<string, ShadowMetrics>;
+}
+
+// Token bucket persisted per rate-limit key
+export interface RateLimitBucket {
+  tokens: number;
+  updatedAt: number;
 }
 
 // For Durable Object storage
@@ -494,9 +713,39 @@ export interface HealthCheckResult {
   responseTime?: number;
   statusCode?: number;
   error?: string;
+  reason?: string; // Why the backend failed the check, e.g. the failed assertions
+  failedAssertions?: HealthCheckAssertionFailure[];
   timestamp: number;
 }
 
+export interface HealthCheckAssertionFailure {
+  assertion: 'status' | 'body' | 'body_regex' | 'json' | 'header' | 'response_time' | 'certificate';
+  reason: string;
+}
+
+// One active health check of a backend, after retries
+export interface HealthCheckRecord {
+  timestamp: number;
+  healthy: boolean;
+  responseTime?: number;
+  statusCode?: number;
+  error?: string;
+  failedAssertions?: HealthCheckAssertionFailure[];
+  attempts: number;
+  regions?: Record<string, boolean>; // Per-region outcome when check_regions is set
+  certificateUnknown?: string; // min_certificate_days was not checked: the certificate could not be read
+  transition?: 'up' | 'down'; // This check flipped the backend's health
+}
+
+// Active health check state machine for one backend
+export interface HealthCheckState {
+  backendId: string;
+  consecutiveUp: number;
+  consecutiveDown: number;
+  lastTransition?: number;
+  history: HealthCheckRecord[]; // Oldest first, capped ring
+}
+
 // API request/response types
 export interface UpdateServiceConfigRequest {
   // Allows partial updates to the service configuration
@@ -506,6 +755,8 @@ export interface UpdateServiceConfigRequest {
   currentRoundRobinIndex?: number;
   passiveHealthChecks?: Partial<PassiveHealthCheckConfig>;
   activeHealthChecks?: Partial<ActiveHealthCheckConfig>;
+  monitors?: HealthMonitor[];
+  maintenanceWindows?: MaintenanceWindow[];
   retryPolicy?: Partial<RetryPolicyConfig>;
   hostHeaderRewrite?: 'preserve' | 'backend_hostname' | string;
   observability?: {
@@ -595,23 +846,37 @@ export interface AnalyticsResponse {
 // Monitoring and alerting types
 export interface Alert {
   id: string;
-  type: 'backend_down' | 'pool_down' | 'high_latency' | 'high_error_rate' | 'dns_failover' | 'dns_failover_triggered' | 'dns_failover_error' | 'dns_recovery_completed' | 'dns_recovery_error';
+  type: 'backend_down' | 'pool_down' | 'insufficient_origins' | 'high_latency' | 'high_error_rate' | 'dns_failover' | 'dns_failover_triggered' | 'dns_failover_error' | 'dns_recovery_completed' | 'dns_recovery_error' | 'canary_rollback';
   severity: 'low' | 'medium' | 'high' | 'critical';
   message: string;
   timestamp: number;
   resolved?: boolean;
   resolved_timestamp?: number;
   metadata?: Record<string, any>;
+
+  // Alert history workflow
+  status?: 'open' | 'acknowledged' | 'resolved';
+  acknowledged_by?: string;
+  acknowledged_timestamp?: number;
+  resolved_by?: string;
+  occurrences?: number; // Repeats folded into this alert while it was active
+  last_seen?: number;
 }
 
+// Evaluated values by type: high_latency = p95 ms per backend, high_error_rate = % failed per backend
+// (both over the last evaluation interval), pool_down = healthy origins per pool,
+// insufficient_origins = healthy origins minus minimum_origins per pool
 export interface AlertRule {
   id: string;
   name: string;
   type: Alert['type'];
   enabled: boolean;
+  severity?: Alert['severity']; // Default: high for pool rules, medium otherwise
+  poolId?: string; // Only evaluate this pool (and its backends)
+  backendId?: string; // Only evaluate this backend
   conditions: {
     threshold: number;
-    duration: number; // seconds
+    duration: number; // seconds the condition must hold before firing
     comparison: 'gt' | 'lt' | 'eq' | 'gte' | 'lte';
   };
   actions: {
@@ -621,16 +886,32 @@ export interface AlertRule {
   };
 }
 
+export interface AlertRuleState {
+  ruleId: string;
+  target: string; // Pool or backend ID the rule was evaluated against
+  poolId?: string; // Pool of the target
+  firing: boolean;
+  pendingSince?: number; // When the condition started holding
+  firedAt?: number;
+  alertId?: string;
+  lastValue?: number;
+  lastEvaluated: number;
+}
+
 // Geographic and network data
 export interface GeographicData {
   country: string;
   region: string;
+  regionCode?: string;
   city?: string;
+  postalCode?: string;
+  continent?: string;
   latitude: number;
   longitude: number;
   asn?: number;
   timezone?: string;
   isp?: string;
+  colo?: string; // Cloudflare data center (IATA code) that received the request
 }
 
 export interface NetworkPath {
@@ -689,11 +970,7 @@ export interface PoolDashboard {
 export interface BackendDashboard {
   backend: Backend;
   metrics: BackendMetrics;
-  healthHistory?: {
-    timestamp: number;
-    healthy: boolean;
-    responseTime?: number;
-  }[];
+  healthHistory?: HealthCheckRecord[];
 }
 
 export interface LogEntry {
@@ -319,13 +319,19 @@ export class APIDocsRenderer {
         "/{serviceName}/metrics": {
           get: {
             summary: "Get service metrics",
-            description: "Retrieve performance metrics for a service",
+            description: "Retrieve performance metrics for a service as HTML, JSON or Prometheus/OpenMetrics text",
             parameters: [
               {
                 name: "serviceName",
                 in: "path",
                 required: true,
                 schema: { type: "string" }
+              },
+              {
+                name: "format",
+                in: "query",
+                required: false,
+                schema: { type: "string", enum: ["json", "prometheus", "openmetrics"] }
               }
             ],
             responses: {
@@ -334,12 +340,405 @@ export class APIDocsRenderer {
                 content: {
                   "application/json": {
                     schema: { $ref: "#/components/schemas/Metrics" }
+                  },
+                  "text/plain": {
+                    schema: { type: "string" }
+                  },
+                  "application/openmetrics-text": {
+                    schema: { type: "string" }
                   }
                 }
               }
             }
           }
         },
+        "/{serviceName}/analytics": {
+          get: {
+            summary: "Get service analytics",
+            description: "Request, error and response time series from one-minute buckets (hourly after 24 hours, kept for 30 days). Also accepts the same fields as a JSON body via POST.",
+            parameters: [
+              {
+                name: "serviceName",
+                in: "path",
+                required: true,
+                schema: { type: "string" }
+              },
+              {
+                name: "since",
+                in: "query",
+                description: "Unix timestamp in seconds (default: one hour before until)",
+                schema: { type: "integer" }
+              },
+              {
+                name: "until",
+                in: "query",
+                description: "Unix timestamp in seconds (default: now)",
+                schema: { type: "integer" }
+              },
+              {
+                name: "step",
+                in: "query",
+                description: "Bucket size in seconds, a multiple of 60 (default: 60)",
+                schema: { type: "integer" }
+              },
+              {
+                name: "metrics",
+                in: "query",
+                description: "Comma-separated series fields: requests, errors, response_time",
+                schema: { type: "string" }
+              }
+            ],
+            responses: {
+              "200": {
+                description: "Time series, totals and per-pool/per-backend breakdowns"
+              },
+              "400": {
+                description: "Invalid query"
+              }
+            }
+          }
+        },
+        "/{serviceName}/alert-rules": {
+          get: {
+            summary: "List alert rules",
+            description: "Alert rules with their per-pool/per-backend firing state. Pass ?id= for a single rule.",
+            parameters: [
+              { name: "serviceName", in: "path", required: true, schema: { type: "string" } },
+              { name: "id", in: "query", required: false, schema: { type: "string" } }
+            ],
+            responses: {
+              "200": { description: "Alert rules" }
+            }
+          },
+          post: {
+            summary: "Create or update an alert rule",
+            description: "Rules of type high_latency, high_error_rate, pool_down or insufficient_origins are evaluated on the health check alarm (every minute when active health checks are off). Pass ?id= to update.",
+            parameters: [
+              { name: "serviceName", in: "path", required: true, schema: { type: "string" } },
+              { name: "id", in: "query", required: false, schema: { type: "string" } }
+            ],
+            responses: {
+              "200": { description: "Alert rule updated" },
+              "201": { description: "Alert rule created" },
+              "400": { description: "Invalid alert rule" }
+            }
+          },
+          delete: {
+            summary: "Delete an alert rule",
+            parameters: [
+              { name: "serviceName", in: "path", required: true, schema: { type: "string" } },
+              { name: "id", in: "query", required: true, schema: { type: "string" } }
+            ],
+            responses: {
+              "200": { description: "Alert rule deleted" },
+              "404": { description: "Alert rule not found" }
+            }
+          }
+        },
+        "/{serviceName}/alerts": {
+          get: {
+            summary: "List alerts",
+            description: "Persisted alert history, newest first",
+            parameters: [
+              { name: "serviceName", in: "path", required: true, schema: { type: "string" } },
+              { name: "id", in: "query", required: false, schema: { type: "string" } },
+              { name: "status", in: "query", required: false, description: "Comma-separated: open, acknowledged, resolved", schema: { type: "string" } },
+              { name: "type", in: "query", required: false, schema: { type: "string" } },
+              { name: "severity", in: "query", required: false, schema: { type: "string" } },
+              { name: "pool", in: "query", required: false, schema: { type: "string" } },
+              { name: "backend", in: "query", required: false, schema: { type: "string" } },
+              { name: "since", in: "query", required: false, description: "Millisecond timestamp", schema: { type: "integer" } },
+              { name: "limit", in: "query", required: false, schema: { type: "integer", default: 100 } }
+            ],
+            responses: {
+              "200": { description: "Alerts" }
+            }
+          }
+        },
+        "/{serviceName}/alerts/acknowledge": {
+          post: {
+            summary: "Acknowledge an alert",
+            description: "Stops repeat notifications for the alert until it resolves",
+            parameters: [
+              { name: "serviceName", in: "path", required: true, schema: { type: "string" } },
+              { name: "id", in: "query", required: true, schema: { type: "string" } }
+            ],
+            responses: {
+              "200": { description: "Alert acknowledged" },
+              "404": { description: "Alert not found" },
+              "409": { description: "Alert is already resolved" }
+            }
+          }
+        },
+        "/{serviceName}/alerts/resolve": {
+          post: {
+            summary: "Resolve an alert",
+            description: "Marks the alert resolved and sends a resolved notification to its channels",
+            parameters: [
+              { name: "serviceName", in: "path", required: true, schema: { type: "string" } },
+              { name: "id", in: "query", required: true, schema: { type: "string" } }
+            ],
+            responses: {
+              "200": { description: "Alert resolved" },
+              "404": { description: "Alert not found" }
+            }
+          }
+        },
+        "/{serviceName}/logs": {
+          get: {
+            summary: "Query logs",
+            description: "Persisted request, health and system logs, newest first. Follow nextCursor for the next page.",
+            parameters: [
+              { name: "serviceName", in: "path", required: true, schema: { type: "string" } },
+              { name: "level", in: "query", required: false, schema: { type: "string" } },
+              { name: "category", in: "query", required: false, schema: { type: "string" } },
+              { name: "since", in: "query", required: false, description: "Millisecond timestamp or ISO 8601", schema: { type: "string" } },
+              { name: "until", in: "query", required: false, description: "Millisecond timestamp or ISO 8601", schema: { type: "string" } },
+              { name: "backendId", in: "query", required: false, schema: { type: "string" } },
+              { name: "statusCode", in: "query", required: false, schema: { type: "integer" } },
+              { name: "clientIp", in: "query", required: false, schema: { type: "string" } },
+              { name: "q", in: "query", required: false, description: "Free-text search in message and metadata", schema: { type: "string" } },
+              { name: "cursor", in: "query", required: false, schema: { type: "string" } },
+              { name: "limit", in: "query", required: false, schema: { type: "integer", default: 100, maximum: 1000 } }
+            ],
+            responses: {
+              "200": { description: "A page of log entries" }
+            }
+          },
+          delete: {
+            summary: "Clear logs",
+            parameters: [
+              { name: "serviceName", in: "path", required: true, schema: { type: "string" } }
+            ],
+            responses: {
+              "200": { description: "Logs cleared" }
+            }
+          }
+        },
+        "/{serviceName}/logs/export": {
+          get: {
+            summary: "Export logs",
+            description: "All logs matching the same filters as /logs as newline-delimited JSON, oldest first",
+            parameters: [
+              { name: "serviceName", in: "path", required: true, schema: { type: "string" } }
+            ],
+            responses: {
+              "200": {
+                description: "NDJSON log export",
+                content: {
+                  "application/x-ndjson": {
+                    schema: { type: "string" }
+                  }
+                }
+              }
+            }
+          }
+        },
+        "/{serviceName}/load-shedding": {
+          get: {
+            summary: "Get load shedding settings",
+            description: "Load shedding settings and shed request counts per pool. Pass ?id= for a single pool.",
+            parameters: [
+              { name: "serviceName", in: "path", required: true, schema: { type: "string" } },
+              { name: "id", in: "query", required: false, schema: { type: "string" } }
+            ],
+            responses: {
+              "200": { description: "Load shedding settings" },
+              "404": { description: "Pool not found" }
+            }
+          },
+          post: {
+            summary: "Update load shedding for a pool",
+            description: "Merges percent (0-100), default_policy and session_affinity_policy into the pool's settings. Shed traffic goes to the next usable pool in default_pool_ids.",
+            parameters: [
+              { name: "serviceName", in: "path", required: true, schema: { type: "string" } },
+              { name: "id", in: "query", required: true, schema: { type: "string" } }
+            ],
+            responses: {
+              "200": { description: "Load shedding updated" },
+              "400": { description: "Invalid load shedding settings" },
+              "404": { description: "Pool not found" }
+            }
+          },
+          delete: {
+            summary: "Disable load shedding for a pool",
+            parameters: [
+              { name: "serviceName", in: "path", required: true, schema: { type: "string" } },
+              { name: "id", in: "query", required: true, schema: { type: "string" } }
+            ],
+            responses: {
+              "200": { description: "Load shedding disabled" },
+              "404": { description: "Pool not found" }
+            }
+          }
+        },
+        "/{serviceName}/traffic-split": {
+          get: {
+            summary: "Get the traffic split",
+            description: "Canary / blue-green split settings and status, with baseline and canary request, error and latency counters for the current step.",
+            parameters: [
+              { name: "serviceName", in: "path", required: true, schema: { type: "string" } }
+            ],
+            responses: {
+              "200": { description: "Traffic split" }
+            }
+          },
+          post: {
+            summary: "Start or update the traffic split",
+            description: "Merges baseline, canary ({ pool_id, backend_id? }), percent, steps ([{ percent, duration }]), override_header, override_cookie and rollback thresholds, then restarts the split at its first step. The alarm advances steps and rolls back to 0% with a canary_rollback alert when the canary's error rate or latency breaches the thresholds.",
+            parameters: [
+              { name: "serviceName", in: "path", required: true, schema: { type: "string" } }
+            ],
+            responses: {
+              "200": { description: "Traffic split started" },
+              "400": { description: "Invalid traffic split" }
+            }
+          },
+          delete: {
+            summary: "Remove the traffic split",
+            parameters: [
+              { name: "serviceName", in: "path", required: true, schema: { type: "string" } }
+            ],
+            responses: {
+              "200": { description: "Traffic split removed" }
+            }
+          }
+        },
+        "/{serviceName}/monitors": {
+          get: {
+            summary: "List health monitors",
+            description: "Named monitors with the pools attached to them and their next run. Pass ?id= for a single monitor.",
+            parameters: [
+              { name: "serviceName", in: "path", required: true, schema: { type: "string" } },
+              { name: "id", in: "query", required: false, schema: { type: "string" } }
+            ],
+            responses: {
+              "200": { description: "Monitors" },
+              "404": { description: "Monitor not found" }
+            }
+          },
+          post: {
+            summary: "Create or update a health monitor",
+            description: "A monitor takes the activeHealthChecks fields (type, path, port, method, headers, expected_codes, expected_body, expected_body_regex, expected_json, expected_headers, max_response_time, min_certificate_days, timeout, interval, retries, consecutive_up, consecutive_down, check_regions) plus id, name and description. Pools attach it through their monitor field and each monitor runs on its own interval. Pass ?id= to update an existing monitor.",
+            parameters: [
+              { name: "serviceName", in: "path", required: true, schema: { type: "string" } },
+              { name: "id", in: "query", required: false, schema: { type: "string" } }
+            ],
+            responses: {
+              "200": { description: "Monitor updated" },
+              "201": { description: "Monitor created" },
+              "400": { description: "Invalid monitor" },
+              "409": { description: "Monitor id already exists" }
+            }
+          },
+          delete: {
+            summary: "Delete a health monitor",
+            parameters: [
+              { name: "serviceName", in: "path", required: true, schema: { type: "string" } },
+              { name: "id", in: "query", required: true, schema: { type: "string" } }
+            ],
+            responses: {
+              "200": { description: "Monitor deleted" },
+              "404": { description: "Monitor not found" },
+              "409": { description: "Monitor is still attached to a pool" }
+            }
+          }
+        },
+        "/{serviceName}/overrides": {
+          get: {
+            summary: "List health overrides",
+            description: "Overrides set on pools and backends. Backend entries include effectiveMode, which is 'auto' once the override has expired.",
+            parameters: [
+              { name: "serviceName", in: "path", required: true, schema: { type: "string" } }
+            ],
+            responses: {
+              "200": { description: "Health overrides" }
+            }
+          },
+          put: {
+            summary: "Set a health override",
+            description: "Body { mode: 'force_up' | 'force_down' | 'auto', expires_at?, reason? }. force_up routes to the backend whatever its checks and circuit breaker say, force_down never routes to it, auto clears the override. A backend's override wins over its pool's. expires_at is Unix ms.",
+            parameters: [
+              { name: "serviceName", in: "path", required: true, schema: { type: "string" } },
+              { name: "backend", in: "query", required: false, schema: { type: "string" } },
+              { name: "pool", in: "query", required: false, schema: { type: "string" } }
+            ],
+            responses: {
+              "200": { description: "Override set" },
+              "400": { description: "Invalid override, or neither or both of backend and pool given" },
+              "404": { description: "Backend or pool not found" }
+            }
+          },
+          delete: {
+            summary: "Clear a health override",
+            parameters: [
+              { name: "serviceName", in: "path", required: true, schema: { type: "string" } },
+              { name: "backend", in: "query", required: false, schema: { type: "string" } },
+              { name: "pool", in: "query", required: false, schema: { type: "string" } }
+            ],
+            responses: {
+              "200": { description: "Override cleared" },
+              "404": { description: "Backend or pool not found" }
+            }
+          }
+        },
+        "/{serviceName}/maintenance": {
+          get: {
+            summary: "List maintenance windows",
+            description: "Windows with their status (scheduled, in_progress, completed), next_start, current_end and the backends they disabled. Pass ?id= for a single window.",
+            parameters: [
+              { name: "serviceName", in: "path", required: true, schema: { type: "string" } },
+              { name: "id", in: "query", required: false, schema: { type: "string" } }
+            ],
+            responses: {
+              "200": { description: "Maintenance windows" },
+              "404": { description: "Maintenance window not found" }
+            }
+          },
+          post: {
+            summary: "Create or update a maintenance window",
+            description: "Body { id?, name?, enabled, pool_ids?, backend_ids?, start?, end?, cron?, duration?, suppress_alerts? }. When a window starts its backends are drained and stay disabled until it ends, and alerts about them are held back unless suppress_alerts is false. Give either start and end (Unix ms) or a 5-field UTC cron with a duration in seconds. Pass ?id= to update an existing window.",
+            parameters: [
+              { name: "serviceName", in: "path", required: true, schema: { type: "string" } },
+              { name: "id", in: "query", required: false, schema: { type: "string" } }
+            ],
+            responses: {
+              "200": { description: "Maintenance window updated" },
+              "201": { description: "Maintenance window created" },
+              "400": { description: "Invalid maintenance window" },
+              "409": { description: "Maintenance window id already exists" }
+            }
+          },
+          delete: {
+            summary: "Delete a maintenance window",
+            description: "A window in progress ends straight away and its backends are re-enabled.",
+            parameters: [
+              { name: "serviceName", in: "path", required: true, schema: { type: "string" } },
+              { name: "id", in: "query", required: true, schema: { type: "string" } }
+            ],
+            responses: {
+              "200": { description: "Maintenance window deleted" },
+              "404": { description: "Maintenance window not found" }
+            }
+          }
+        },
+        "/{serviceName}/health/history": {
+          get: {
+            summary: "Get active health check history",
+            description: "The last 100 active health checks per backend (timestamp, healthy, responseTime, statusCode, error, failedAssertions with a reason each, attempts, per-region outcome and any up/down transition), with the consecutive pass/fail counters behind the consecutive_up / consecutive_down hysteresis.",
+            parameters: [
+              { name: "serviceName", in: "path", required: true, schema: { type: "string" } },
+              { name: "pool", in: "query", required: false, schema: { type: "string" } },
+              { name: "backend", in: "query", required: false, schema: { type: "string" } },
+              { name: "limit", in: "query", required: false, schema: { type: "integer", minimum: 1 } }
+            ],
+            responses: {
+              "200": { description: "Health check history per backend" },
+              "400": { description: "Invalid limit" },
+              "404": { description: "Backend not found" }
+            }
+          }
+        },
         "/{serviceName}/health-check": {
           post: {
             summary: "Trigger health check",
@@ -398,7 +797,28 @@ export class APIDocsRenderer {
               backends: {
                 type: "array",
                 items: { $ref: "#/components/schemas/Backend" }
-              }
+              },
+              mirror: {
+                type: "object",
+                description: "Copy a sample of this pool's traffic to a shadow pool; responses are discarded and counted in shadowMetrics",
+                properties: {
+                  pool_id: { type: "string" },
+                  percent: { type: "number", minimum: 0, maximum: 100 },
+                  max_body_bytes: { type: "number", default: 1048576 }
+                }
+              },
+              monitor: { type: "string", description: "Id of the monitor that checks this pool's backends instead of activeHealthChecks" },
+              health_override: { $ref: "#/components/schemas/HealthOverride" }
+            }
+          },
+          HealthOverride: {
+            type: "object",
+            description: "Manual health that takes precedence over passive and active checks; a backend's override wins over its pool's",
+            properties: {
+              mode: { type: "string", enum: ["auto", "force_up", "force_down"] },
+              expires_at: { type: "number", description: "Unix ms after which the override is dropped" },
+              reason: { type: "string" },
+              set_at: { type: "number" }
             }
           },
           Backend: {
@@ -407,7 +827,16 @@ export class APIDocsRenderer {
               url: { type: "string" },
               weight: { type: "number", default: 1 },
               healthy: { type: "boolean" },
-              lastHealthCheck: { type: "string", format: "date-time" }
+              lastHealthCheck: { type: "string", format: "date-time" },
+              draining: { type: "boolean", description: "Takes no new sessions; pinned sessions and in-flight requests finish" },
+              drainDeadline: { type: "number", description: "Unix ms when the drain ends" },
+              drainRemainingMs: { type: "number" },
+              removeAfterDrain: { type: "boolean" },
+              monitor_override: {
+                type: "object",
+                description: "Fields of the pool's monitor to change for this backend, e.g. path, port, headers or expected_codes. interval and the consecutive_up / consecutive_down thresholds stay with the monitor."
+              },
+              health_override: { $ref: "#/components/schemas/HealthOverride" }
             }
           },
           Metrics: {
@@ -1,10 +1,14 @@
 import { LoadBalancerEngine } from '../load-balancer-engine';
 import { LoadBalancerServiceConfig, Backend } from '../types';
+import { createLatencySketch, mergeLatencySketches, latencyPercentiles } from '../latency-sketch';
 
 export interface DashboardStats {
   totalRequests: number;
   activeBackends: number;
   averageResponseTime: number;
+  p50ResponseTime: number;
+  p95ResponseTime: number;
+  p99ResponseTime: number;
   uptime: number;
   healthyBackends: number;
   totalBackends: number;
@@ -31,11 +35,22 @@ export class DashboardRenderer {
     const averageResponseTime = totalRequests > 0 ? totalResponseTime / totalRequests : 0;
     const errorRate = totalRequests > 0 ? 
       (metrics.totalFailedRequests || 0) / totalRequests : 0;
+
+    const latencySketch = createLatencySketch();
+    Object.values(metrics.backendMetrics).forEach(backend => {
+      if (backend.latencySketch) {
+        mergeLatencySketches(latencySketch, backend.latencySketch);
+      }
+    });
+    const { p50, p95, p99 } = latencyPercentiles(latencySketch);
     
     return {
       totalRequests,
       activeBackends: healthyBackends,
       averageResponseTime,
+      p50ResponseTime: p50,
+      p95ResponseTime: p95,
+      p99ResponseTime: p99,
       uptime: Date.now() - Date.now(), // Placeholder - no uptime tracking in current metrics
       healthyBackends,
       totalBackends: allBackends.length,
@@ -186,6 +201,11 @@ export class DashboardRenderer {
                     <div class="stat-value">${stats.averageResponseTime.toFixed(2)}ms</div>
                 </div>
                 
+                <div class="stat-card">
+                    <h3>Response Time p50 / p95 / p99</h3>
+                    <div class="stat-value">${stats.p50ResponseTime.toFixed(0)} / ${stats.p95ResponseTime.toFixed(0)} / ${stats.p99ResponseTime.toFixed(0)}ms</div>
+                </div>
+                
                 <div class="stat-card">
                     <h3>Error Rate</h3>
                     <div class="stat-value">${(stats.errorRate * 100).toFixed(2)}%</div>
@@ -0,0 +1,200 @@
+import { test, describe, afterEach, mock } from 'node:test';
+import assert from 'node:assert';
+import { AlertRuleEvaluator } from '../src/alert-rules.ts';
+import { isAlertSuppressed } from '../src/maintenance.ts';
+import { LoadBalancerDO } from '../src/durable-object.ts';
+import { createServiceDO } from './helpers/durable-object-state.mjs';
+
+function backend(id, healthy = true) {
+  return { id, url: `https://${id}.example.com`, weight: 1, healthy, consecutiveFailures: 0, requests: 0, successfulRequests: 0, failedRequests: 0, totalResponseTimeMs: 0 };
+}
+
+function pool(id, backends) {
+  return { id, name: id, backends, enabled: true, minimum_origins: 1 };
+}
+
+function metrics(counters) {
+  const backendMetrics = {};
+  for (const [id, [requests, failedRequests]] of Object.entries(counters)) {
+    backendMetrics[id] = { requests, successfulRequests: requests - failedRequests, failedRequests, totalResponseTimeMs: 0, avgResponseTimeMs: 0 };
+  }
+  return { serviceId: 'test', totalRequests: 0, totalSuccessfulRequests: 0, totalFailedRequests: 0, backendMetrics, poolMetrics: {} };
+}
+
+const errorRateRule = {
+  id: 'errors',
+  name: 'High error rate',
+  type: 'high_error_rate',
+  enabled: true,
+  conditions: { threshold: 50, duration: 0, comparison: 'gt' },
+  actions: {}
+};
+
+const poolDownRule = {
+  id: 'down',
+  name: 'Pool down',
+  type: 'pool_down',
+  enabled: true,
+  conditions: { threshold: 0, duration: 0, comparison: 'eq' },
+  actions: {}
+};
+
+describe('AlertRuleEvaluator', () => {
+  test('takes a baseline first, then fires on the traffic since the previous pass', () => {
+    const evaluator = new AlertRuleEvaluator();
+    const pools = [pool('p1', [backend('b1')])];
+
+    assert.deepStrictEqual(evaluator.evaluate([errorRateRule], pools, metrics({ b1: [100, 90] }), 1000).fired, []);
+    const { fired } = evaluator.evaluate([errorRateRule], pools, metrics({ b1: [110, 98] }), 2000);
+
+    assert.strictEqual(fired.length, 1);
+    assert.strictEqual(fired[0].metadata.backendId, 'b1');
+    assert.strictEqual(fired[0].metadata.value, 80);
+    assert.strictEqual(evaluator.getStates('errors')[0].firing, true);
+  });
+
+  test('waits for the condition to hold for its duration, and resolves once it clears', () => {
+    const evaluator = new AlertRuleEvaluator();
+    const rule = { ...poolDownRule, conditions: { ...poolDownRule.conditions, duration: 60 } };
+    const down = [pool('p1', [backend('b1', false)])];
+
+    assert.strictEqual(evaluator.evaluate([rule], down, metrics({}), 0).fired.length, 0);
+    assert.strictEqual(evaluator.evaluate([rule], down, metrics({}), 30_000).fired.length, 0);
+    const fired = evaluator.evaluate([rule], down, metrics({}), 60_000).fired;
+    assert.strictEqual(fired.length, 1);
+
+    const { resolved } = evaluator.evaluate([rule], [pool('p1', [backend('b1')])], metrics({}), 90_000);
+    assert.strictEqual(resolved.length, 1);
+    assert.strictEqual(resolved[0].id, fired[0].id);
+    assert.strictEqual(resolved[0].resolved, true);
+  });
+
+  test('resolves and forgets a firing backend that was removed from its pool', () => {
+    const evaluator = new AlertRuleEvaluator();
+    evaluator.evaluate([errorRateRule], [pool('p1', [backend('b1'), backend('b2')])], metrics({ b1: [10, 0], b2: [10, 0] }), 1000);
+    const { fired } = evaluator.evaluate([errorRateRule], [pool('p1', [backend('b1'), backend('b2')])], metrics({ b1: [20, 10], b2: [20, 0] }), 2000);
+    assert.deepStrictEqual(fired.map(alert => alert.metadata.backendId), ['b1']);
+
+    const { resolved } = evaluator.evaluate([errorRateRule], [pool('p1', [backend('b2')])], metrics({ b2: [30, 0] }), 3000);
+
+    assert.strictEqual(resolved.length, 1);
+    assert.strictEqual(resolved[0].id, fired[0].id);
+    assert.strictEqual(resolved[0].metadata.backendId, 'b1');
+    assert.strictEqual(resolved[0].metadata.poolId, 'p1');
+    assert.deepStrictEqual(evaluator.getStates().map(state => state.target), ['b2']);
+  });
+
+  test('resolves a removed target whose restored state has no value', () => {
+    const evaluator = new AlertRuleEvaluator([
+      { ruleId: 'errors', target: 'b1', poolId: 'p1', firing: true, firedAt: 1000, alertId: 'rule-errors-b1-1000', lastEvaluated: 1000 }
+    ]);
+
+    const { resolved } = evaluator.evaluate([errorRateRule], [pool('p1', [backend('b2')])], metrics({ b2: [10, 0] }), 2000);
+
+    assert.strictEqual(resolved.length, 1);
+    assert.strictEqual(resolved[0].id, 'rule-errors-b1-1000');
+    assert.strictEqual(resolved[0].message, 'Resolved: High error rate on b1 (no longer in the configuration)');
+    assert.strictEqual(resolved[0].metadata.value, undefined);
+  });
+
+  test('resolves and forgets a firing pool that was deleted', () => {
+    const evaluator = new AlertRuleEvaluator();
+    const { fired } = evaluator.evaluate([poolDownRule], [pool('p1', [backend('b1', false)]), pool('p2', [backend('b2')])], metrics({}), 1000);
+    assert.strictEqual(fired.length, 1);
+
+    const { resolved } = evaluator.evaluate([poolDownRule], [pool('p2', [backend('b2')])], metrics({}), 2000);
+
+    assert.strictEqual(resolved.length, 1);
+    assert.strictEqual(resolved[0].metadata.poolId, 'p1');
+    assert.deepStrictEqual(evaluator.getStates().map(state => state.target), ['p2']);
+  });
+
+  test('keeps the state of a target that only had no traffic this pass', () => {
+    const evaluator = new AlertRuleEvaluator();
+    const pools = [pool('p1', [backend('b1')])];
+    evaluator.evaluate([errorRateRule], pools, metrics({ b1: [10, 0] }), 1000);
+    evaluator.evaluate([errorRateRule], pools, metrics({ b1: [20, 10] }), 2000);
+
+    const { resolved } = evaluator.evaluate([errorRateRule], pools, metrics({ b1: [20, 10] }), 3000);
+
+    assert.deepStrictEqual(resolved, []);
+    assert.strictEqual(evaluator.getStates('errors')[0].firing, true);
+  });
+
+  test('drops the state of deleted rules and keeps that of disabled ones', () => {
+    const evaluator = new AlertRuleEvaluator();
+    const pools = [pool('p1', [backend('b1', false)])];
+    evaluator.evaluate([poolDownRule, { ...errorRateRule, id: 'other' }], pools, metrics({}), 1000);
+    evaluator.evaluate([poolDownRule, { ...poolDownRule, id: 'paused' }], pools, metrics({}), 2000);
+
+    evaluator.evaluate([{ ...poolDownRule, id: 'paused', enabled: false }], pools, metrics({}), 3000);
+
+    assert.deepStrictEqual(evaluator.getStates().map(state => state.ruleId), ['paused']);
+  });
+
+  describe('during maintenance', () => {
+    const window = { id: 'upgrade', enabled: true, pool_ids: ['p1'], start: 0, end: 10_000, status: 'in_progress' };
+    const down = [pool('p1', [backend('b1', false)])];
+    const up = [pool('p1', [backend('b1')])];
+
+    test('holds a suppressed alert back and fires it once the window ends if the condition still holds', () => {
+      const windows = [{ ...window }];
+      const suppressed = alert => isAlertSuppressed(alert, windows, down);
+      const evaluator = new AlertRuleEvaluator();
+
+      assert.deepStrictEqual(evaluator.evaluate([poolDownRule], down, metrics({}), 1000, suppressed).fired, []);
+      assert.strictEqual(evaluator.getStates('down')[0].firing, false);
+
+      windows[0].status = 'completed';
+      const { fired } = evaluator.evaluate([poolDownRule], down, metrics({}), 11_000, suppressed);
+
+      assert.strictEqual(fired.length, 1);
+      assert.strictEqual(fired[0].metadata.poolId, 'p1');
+      assert.strictEqual(evaluator.getStates('down')[0].firing, true);
+    });
+
+    test('does not resolve an alert that was never sent', () => {
+      const windows = [{ ...window }];
+      const suppressed = alert => isAlertSuppressed(alert, windows, down);
+      const evaluator = new AlertRuleEvaluator();
+      evaluator.evaluate([poolDownRule], down, metrics({}), 1000, suppressed);
+
+      const { fired, resolved } = evaluator.evaluate([poolDownRule], up, metrics({}), 2000, suppressed);
+      windows[0].status = 'completed';
+      const after = evaluator.evaluate([poolDownRule], up, metrics({}), 11_000, suppressed);
+
+      assert.deepStrictEqual([fired, resolved, after.fired, after.resolved], [[], [], [], []]);
+    });
+
+    test('still resolves an alert that fired before the window started', () => {
+      const windows = [{ ...window, status: 'scheduled' }];
+      const suppressed = alert => isAlertSuppressed(alert, windows, down);
+      const evaluator = new AlertRuleEvaluator();
+      assert.strictEqual(evaluator.evaluate([poolDownRule], down, metrics({}), 1000, suppressed).fired.length, 1);
+
+      windows[0].status = 'in_progress';
+      const { resolved } = evaluator.evaluate([poolDownRule], up, metrics({}), 2000, suppressed);
+
+      assert.strictEqual(resolved.length, 1);
+    });
+  });
+});
+
+describe('Alert rule alarm', () => {
+  afterEach(() => mock.restoreAll());
+
+  test('pulls a later pending alarm in to the next rule evaluation and keeps an earlier one', async () => {
+    const now = Date.UTC(2026, 0, 1);
+    mock.method(Date, 'now', () => now);
+    const { durableObject, storage } = await createServiceDO(LoadBalancerDO);
+    durableObject.config.alertRules = [poolDownRule];
+
+    await storage.setAlarm(now + 10 * 60_000);
+    await durableObject.scheduleAlertRuleAlarm();
+    assert.strictEqual(await storage.getAlarm(), now + 60_000);
+
+    await storage.setAlarm(now + 5000);
+    await durableObject.scheduleAlertRuleAlarm();
+    assert.strictEqual(await storage.getAlarm(), now + 5000);
+  });
+});
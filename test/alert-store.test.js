@@ -0,0 +1,164 @@
+import { test, describe, mock } from 'node:test';
+import assert from 'node:assert';
+import { AlertStore } from '../src/alert-store.ts';
+import { LoadBalancerDO } from '../src/durable-object.ts';
+import { FakeStorage, createServiceDO } from './helpers/durable-object-state.mjs';
+
+function backendDown(id, timestamp, backendId = 'backend-1') {
+  return {
+    id,
+    type: 'backend_down',
+    severity: 'high',
+    message: `Backend ${backendId} is down`,
+    timestamp,
+    metadata: { poolId: 'pool-1', backendId }
+  };
+}
+
+function resolution(id, timestamp, backendId = 'backend-1') {
+  return { ...backendDown(id, timestamp, backendId), resolved: true, resolved_timestamp: timestamp };
+}
+
+describe('Alert store', () => {
+  test('persists alerts one key each and reloads them in a new store', async () => {
+    const storage = new FakeStorage();
+    const store = new AlertStore(storage);
+
+    assert.deepStrictEqual(await store.record(backendDown('a1', 1000)), backendDown('a1', 1000));
+    await store.acknowledge('a1', 'ops', 1500);
+
+    assert.deepStrictEqual(Array.from((await storage.list({ prefix: 'alert:' })).keys()), ['alert:a1']);
+    const reloaded = await new AlertStore(storage).get('a1');
+    assert.deepStrictEqual(
+      [reloaded.status, reloaded.occurrences, reloaded.acknowledged_by, reloaded.acknowledged_timestamp],
+      ['acknowledged', 1, 'ops', 1500]
+    );
+  });
+
+  test('folds repeats of an active alert into it by fingerprint', async () => {
+    const store = new AlertStore(new FakeStorage());
+    await store.record(backendDown('a1', 1000));
+
+    const repeat = await store.record(backendDown('a2', 2000));
+    assert.strictEqual(repeat.id, 'a1');
+    await store.record(backendDown('b1', 2500, 'backend-2'));
+
+    const alerts = await store.list();
+    assert.deepStrictEqual(alerts.map(alert => alert.id), ['b1', 'a1']);
+    assert.deepStrictEqual([alerts[1].occurrences, alerts[1].last_seen], [2, 2000]);
+  });
+
+  test('suppresses notifications for repeats of an acknowledged alert until it resolves', async () => {
+    const store = new AlertStore(new FakeStorage());
+    await store.record(backendDown('a1', 1000));
+    await store.acknowledge('a1', 'ops');
+
+    assert.strictEqual(await store.record(backendDown('a2', 2000)), null);
+    assert.strictEqual((await store.get('a1')).occurrences, 2);
+
+    assert.ok(await store.record(resolution('a3', 3000)));
+    const raisedAgain = await store.record(backendDown('a4', 4000));
+    assert.strictEqual(raisedAgain.id, 'a4');
+    assert.strictEqual((await store.get('a4')).status, 'open');
+  });
+
+  test('resolves every active alert with the fingerprint, once', async () => {
+    const storage = new FakeStorage();
+    // Two active copies of the same problem, as left by history recorded before repeats were folded
+    await storage.put({
+      'alert:a1': { ...backendDown('a1', 1000), status: 'open' },
+      'alert:a2': { ...backendDown('a2', 1200), status: 'acknowledged' },
+      'alert:r1': { ...backendDown('r1', 1000), metadata: { poolId: 'pool-1', backendId: 'backend-1', ruleId: 'r1' }, status: 'open' }
+    });
+    const store = new AlertStore(storage);
+
+    assert.ok(await store.record(resolution('a9', 3000)));
+
+    const byId = Object.fromEntries((await store.list()).map(alert => [alert.id, alert]));
+    for (const id of ['a1', 'a2']) {
+      assert.deepStrictEqual([byId[id].status, byId[id].resolved_timestamp, byId[id].resolved_by], ['resolved', 3000, 'system']);
+      assert.strictEqual((await storage.get(`alert:${id}`)).status, 'resolved');
+    }
+    assert.strictEqual(byId.r1.status, 'open'); // Raised by a rule: a different fingerprint
+    assert.strictEqual(byId.a9, undefined);
+
+    // A resolution for an already resolved alert is not notified again
+    assert.strictEqual(await store.record(resolution('a2', 4000)), null);
+  });
+
+  test('evicts the oldest resolved alerts past maxAlerts, from storage as well', async () => {
+    const storage = new FakeStorage();
+    const store = new AlertStore(storage, 3);
+    await store.record(backendDown('old', 1000, 'backend-1'));
+    await store.record(resolution('old', 1100, 'backend-1'));
+    await store.record(backendDown('newer', 2000, 'backend-2'));
+    await store.record(resolution('newer', 2100, 'backend-2'));
+    await store.record(backendDown('open', 3000, 'backend-3'));
+
+    await store.record(backendDown('latest', 4000, 'backend-4'));
+
+    assert.deepStrictEqual((await store.list()).map(alert => alert.id), ['latest', 'open', 'newer']);
+    assert.strictEqual(await storage.get('alert:old'), undefined);
+    assert.deepStrictEqual((await new AlertStore(storage, 3).list()).map(alert => alert.id), ['latest', 'open', 'newer']);
+  });
+
+  test('filters the history by status, backend and time', async () => {
+    const store = new AlertStore(new FakeStorage());
+    await store.record(backendDown('a1', 1000, 'backend-1'));
+    await store.record(backendDown('b1', 2000, 'backend-2'));
+    await store.resolve('a1', 'ops', 2500);
+
+    assert.deepStrictEqual((await store.list({ status: ['open'] })).map(alert => alert.id), ['b1']);
+    assert.deepStrictEqual((await store.list({ backendId: 'backend-1' })).map(alert => alert.id), ['a1']);
+    assert.deepStrictEqual((await store.list({ since: 1500 })).map(alert => alert.id), ['b1']);
+  });
+});
+
+describe('Alerts admin API', () => {
+  function alertsRequest(durableObject, path, init = {}) {
+    return durableObject.fetch(new Request(`https://app.example.com/__lb_admin__/alerts${path}`, init));
+  }
+
+  async function createAlertingDO() {
+    const { durableObject, state } = await createServiceDO(LoadBalancerDO);
+    const engine = durableObject.loadBalancerEngine;
+    const notify = mock.method(engine, 'sendNotifications', async () => {});
+    await engine.emitAlert(backendDown('a1', Date.now()));
+    return { durableObject, state, engine, notify };
+  }
+
+  test('acknowledges an open alert as the admin user and stops notifying its repeats', async () => {
+    const { durableObject, engine, notify } = await createAlertingDO();
+
+    const response = await alertsRequest(durableObject, '/acknowledge?id=a1', { method: 'POST', headers: { 'X-LB-Admin-User': 'ops@example.com' } });
+
+    assert.strictEqual(response.status, 200);
+    const { alert } = await response.json();
+    assert.deepStrictEqual([alert.status, alert.acknowledged_by], ['acknowledged', 'ops@example.com']);
+
+    await engine.emitAlert(backendDown('a2', Date.now()));
+    assert.strictEqual(notify.mock.callCount(), 1);
+    const { alerts } = await (await alertsRequest(durableObject, '?status=acknowledged')).json();
+    assert.deepStrictEqual(alerts.map(stored => [stored.id, stored.occurrences]), [['a1', 2]]);
+  });
+
+  test('resolves an alert and notifies the resolution', async () => {
+    const { durableObject, state, notify } = await createAlertingDO();
+
+    const response = await alertsRequest(durableObject, '/resolve', { method: 'POST', body: JSON.stringify({ id: 'a1', by: 'ops' }) });
+    await state.settle();
+
+    assert.deepStrictEqual([(await response.json()).alert.resolved_by, notify.mock.callCount()], ['ops', 2]);
+    const acknowledge = await alertsRequest(durableObject, '/acknowledge?id=a1', { method: 'POST' });
+    assert.deepStrictEqual([acknowledge.status, (await acknowledge.json()).error], [409, 'Alert is already resolved']);
+  });
+
+  test('rejects a missing or unknown alert id and other methods', async () => {
+    const { durableObject } = await createAlertingDO();
+
+    assert.strictEqual((await alertsRequest(durableObject, '/acknowledge', { method: 'POST' })).status, 400);
+    assert.strictEqual((await alertsRequest(durableObject, '/acknowledge?id=missing', { method: 'POST' })).status, 404);
+    assert.strictEqual((await alertsRequest(durableObject, '/acknowledge?id=a1')).status, 405);
+    assert.strictEqual((await alertsRequest(durableObject, '?id=missing')).status, 404);
+  });
+});
@@ -0,0 +1,68 @@
+import { test, describe, afterEach } from 'node:test';
+import assert from 'node:assert';
+import { AnalyticsStore } from '../src/analytics.ts';
+import { LoadBalancerDO } from '../src/durable-object.ts';
+import { FakeSqlStorage, createServiceDO } from './helpers/durable-object-state.mjs';
+import { mockOrigins } from './helpers/origins.mjs';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const start = Date.UTC(2026, 0, 1, 12);
+const pools = [{ id: 'pool-1', backends: [{ id: 'backend-0', healthy: true }, { id: 'backend-1', healthy: false }] }];
+
+describe('Analytics store', () => {
+  test('buckets requests per minute and averages only successful response times', () => {
+    const store = new AnalyticsStore(new FakeSqlStorage());
+    store.record('pool-1', 'backend-0', true, 100, start);
+    store.record('pool-1', 'backend-0', false, 5000, start + 10 * 1000);
+    store.record('pool-1', 'backend-1', true, 300, start + MINUTE);
+
+    const result = store.query({ since: start / 1000, until: (start + 3 * MINUTE) / 1000, step: 60 }, pools, start + 3 * MINUTE);
+
+    assert.deepStrictEqual(result.timeseries, [
+      { timestamp: start / 1000, requests: 2, errors: 1, response_time: 100 },
+      { timestamp: (start + MINUTE) / 1000, requests: 1, errors: 0, response_time: 300 },
+      { timestamp: (start + 2 * MINUTE) / 1000, requests: 0, errors: 0, response_time: 0 }
+    ]);
+    assert.strictEqual(result.totals.requests, 3);
+    assert.strictEqual(result.totals.avg_response_time, 200);
+    assert.strictEqual(result.backends['backend-0'].failedRequests, 1);
+    assert.deepStrictEqual([result.pools['pool-1'].healthyOrigins, result.pools['pool-1'].totalOrigins], [1, 2]);
+  });
+
+  test('rolls minute buckets past retention into hourly buckets', () => {
+    const store = new AnalyticsStore(new FakeSqlStorage(), { minuteBucketsMs: HOUR, hourlyBucketsMs: 24 * HOUR });
+    store.record('pool-1', 'backend-0', true, 100, start);
+    store.record('pool-1', 'backend-0', true, 300, start + 30 * MINUTE);
+    store.flush(start + 30 * MINUTE);
+
+    store.compact(start + 3 * HOUR);
+    const result = store.query({ since: start / 1000, until: (start + HOUR) / 1000, step: 3600 }, pools, start + 3 * HOUR);
+
+    assert.deepStrictEqual(result.timeseries, [{ timestamp: start / 1000, requests: 2, errors: 0, response_time: 200 }]);
+  });
+
+  test('rejects a step that is not a whole number of minutes', () => {
+    const store = new AnalyticsStore(new FakeSqlStorage());
+    assert.throws(() => store.query({ step: 90 }, pools), /multiple of 60/);
+  });
+});
+
+describe('Analytics endpoint', () => {
+  let origins;
+  afterEach(() => origins?.restore());
+
+  test('reports proxied requests per backend', async () => {
+    const { durableObject } = await createServiceDO(LoadBalancerDO);
+    origins = mockOrigins(() => new Response('ok'));
+
+    await durableObject.fetch(new Request('https://app.example.com/'));
+    await durableObject.fetch(new Request('https://app.example.com/'));
+
+    const response = await durableObject.fetch(new Request('https://app.example.com/__lb_admin__/analytics?step=60'));
+    assert.strictEqual(response.status, 200);
+    const result = await response.json();
+    assert.strictEqual(result.totals.requests, 2);
+    assert.deepStrictEqual(Object.keys(result.backends).sort(), ['backend-0', 'backend-1']);
+  });
+});
@@ -0,0 +1,76 @@
+import { test, describe, afterEach } from 'node:test';
+import assert from 'node:assert';
+import { LoadBalancerDO } from '../src/durable-object.ts';
+import { createServiceDO } from './helpers/durable-object-state.mjs';
+import { mockOrigins } from './helpers/origins.mjs';
+
+function clientRequest(path, headers = {}) {
+  return new Request(`https://app.example.com${path}`, { headers: { 'CF-Connecting-IP': '192.0.2.1', ...headers } });
+}
+
+describe('Custom rules', () => {
+  let origins;
+  afterEach(() => origins?.restore());
+
+  test('blocks matching requests without reaching an origin', async () => {
+    const { durableObject } = await createServiceDO(LoadBalancerDO);
+    durableObject.config.customRules = [
+      { id: 'no-admin', name: 'No admin', expression: "http.request.uri.path contains '/wp-admin'", action: 'block', priority: 1 }
+    ];
+    origins = mockOrigins(() => new Response('ok'));
+
+    const blocked = await durableObject.fetch(clientRequest('/wp-admin/login'));
+    const allowed = await durableObject.fetch(clientRequest('/home'));
+
+    assert.strictEqual(blocked.status, 403);
+    assert.strictEqual(blocked.headers.get('X-Load-Balancer-Rule'), 'block:no-admin');
+    assert.strictEqual(allowed.status, 200);
+    assert.deepStrictEqual(origins.requests.map(request => new URL(request.url).pathname), ['/home']);
+  });
+
+  test('lets a client through once it presents the signed challenge cookie', async () => {
+    const { durableObject } = await createServiceDO(LoadBalancerDO, { env: { JWT_SECRET: 'test-secret' } });
+    durableObject.config.customRules = [
+      { id: 'login', name: 'Login', expression: "http.request.uri.path == '/login'", action: 'challenge', priority: 1, challenge: { difficulty: 0 } }
+    ];
+    origins = mockOrigins(() => new Response('ok'));
+
+    const challenge = await durableObject.fetch(clientRequest('/login'));
+    assert.strictEqual(challenge.status, 403);
+    assert.strictEqual(challenge.headers.get('X-Load-Balancer-Rule'), 'challenge:login');
+    const seed = JSON.parse((await challenge.text()).match(/const seed = ("[^"]+");/)[1]);
+
+    const solved = await durableObject.fetch(clientRequest('/login', { Cookie: `lb_challenge_login=${seed}.0` }));
+    const tampered = await durableObject.fetch(clientRequest('/login', { Cookie: `lb_challenge_login=${seed.replace(/.$/, c => c === '0' ? '1' : '0')}.0` }));
+    const otherClient = await durableObject.fetch(clientRequest('/login', { Cookie: `lb_challenge_login=${seed}.0`, 'CF-Connecting-IP': '192.0.2.2' }));
+
+    assert.deepStrictEqual([solved.status, tampered.status, otherClient.status], [200, 403, 403]);
+    assert.strictEqual(origins.requests.length, 1);
+  });
+
+  test('rejects a config update with a rule expression that does not parse', async () => {
+    const { durableObject } = await createServiceDO(LoadBalancerDO);
+    const rule = { id: 'api', name: 'API', expression: "http.request.uri.path startsWith '/api'", action: 'block', priority: 1 };
+    durableObject.config.customRules = [rule];
+    const postConfig = customRules => durableObject.fetch(new Request('https://app.example.com/__lb_admin__/config', {
+      method: 'POST',
+      body: JSON.stringify({ customRules })
+    }));
+
+    const invalid = [
+      ["(http.request.uri.path contains '/api'", "expression of custom rule 'api' is invalid: Expected ')' after expression"],
+      ["http.request.uri.path contains", "expression of custom rule 'api' is invalid: Unexpected token: EOF"],
+      ["http.request.uri.path eq '/api'", "expression of custom rule 'api' is invalid: Unexpected token: eq"],
+      ['', "expression of custom rule 'api' is invalid: expression is required"]
+    ];
+    for (const [expression, error] of invalid) {
+      const response = await postConfig([{ ...rule, expression }]);
+      assert.deepStrictEqual([response.status, (await response.json()).error], [400, error]);
+    }
+    assert.deepStrictEqual(durableObject.config.customRules, [rule]);
+
+    const valid = { ...rule, expression: "not (ip.src == '192.0.2.1') && http.request.uri.path matches '^/api/v[12]'" };
+    assert.strictEqual((await postConfig([valid])).status, 200);
+    assert.deepStrictEqual(durableObject.config.customRules, [valid]);
+  });
+});
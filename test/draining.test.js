@@ -0,0 +1,79 @@
+import { test, describe, afterEach } from 'node:test';
+import assert from 'node:assert';
+import { LoadBalancerDO } from '../src/durable-object.ts';
+import { createServiceDO } from './helpers/durable-object-state.mjs';
+import { mockOrigins } from './helpers/origins.mjs';
+
+function admin(durableObject, path, method = 'GET', body) {
+  return durableObject.fetch(new Request(`https://app.example.com/__lb_admin__/${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  }));
+}
+
+function backend(durableObject, id) {
+  return durableObject.config.pools.flatMap(pool => pool.backends).find(b => b.id === id);
+}
+
+describe('Backend draining', () => {
+  let origins;
+  afterEach(() => origins?.restore());
+
+  test('keeps a disabled backend draining until its in-flight request finishes', async () => {
+    const { durableObject, state } = await createServiceDO(LoadBalancerDO);
+    let finishSlowRequest;
+    origins = mockOrigins(request => new URL(request.url).pathname === '/slow'
+      ? new Promise(resolve => { finishSlowRequest = () => resolve(new Response('slow')); })
+      : new Response('ok'));
+
+    const slow = durableObject.fetch(new Request('https://app.example.com/slow'));
+    await new Promise(resolve => setTimeout(resolve, 10));
+    const [busy, idle] = origins.hosts()[0] === 'origin-a.example.com' ? ['backend-0', 'backend-1'] : ['backend-1', 'backend-0'];
+    assert.strictEqual(backend(durableObject, busy).outstandingRequests, 1);
+
+    await admin(durableObject, `backends?id=${busy}`, 'PUT', { enabled: false });
+    assert.strictEqual(backend(durableObject, busy).draining, true);
+
+    await durableObject.fetch(new Request('https://app.example.com/fast'));
+    await durableObject.fetch(new Request('https://app.example.com/fast'));
+    assert.deepStrictEqual(origins.hosts().slice(1).map(host => host === backend(durableObject, idle).ip), [true, true]);
+
+    finishSlowRequest();
+    assert.strictEqual(await (await slow).text(), 'slow');
+    await state.settle();
+    assert.strictEqual(backend(durableObject, busy).draining, undefined);
+    assert.strictEqual(backend(durableObject, busy).enabled, false);
+  });
+
+  test('finishes a drain at its deadline when sessions have a drain duration', async () => {
+    const { durableObject } = await createServiceDO(LoadBalancerDO);
+    durableObject.config.load_balancer.session_affinity = { type: 'cookie', enabled: true, drain_duration: 60 };
+
+    await admin(durableObject, 'backends?id=backend-0', 'PUT', { enabled: false });
+    const draining = backend(durableObject, 'backend-0');
+    assert.strictEqual(draining.draining, true);
+    assert.ok(draining.drainDeadline > Date.now());
+
+    draining.drainDeadline = Date.now() - 1;
+    await durableObject.alarm();
+    assert.strictEqual(backend(durableObject, 'backend-0').draining, undefined);
+  });
+
+  test('does not carry in-flight counters over a restart', async () => {
+    const { durableObject, storage } = await createServiceDO(LoadBalancerDO);
+    const pool = durableObject.config.pools[0];
+    Object.assign(pool.backends[0], { outstandingRequests: 3, draining: true, enabled: false, removeAfterDrain: true, drainStartedAt: Date.now() });
+    pool.backends[1].outstandingRequests = 2;
+    durableObject.metrics.backendMetrics['backend-1'] = { ...durableObject.metrics.backendMetrics['backend-1'], connectionsActive: 4 };
+    await storage.put('state', { config: durableObject.config });
+    await storage.put('metrics', durableObject.metrics);
+
+    const restarted = (await createServiceDO(LoadBalancerDO, { storage })).durableObject;
+
+    assert.deepStrictEqual(restarted.config.pools[0].backends.map(b => b.id), ['backend-1']);
+    assert.strictEqual(restarted.config.pools[0].backends[0].outstandingRequests, 0);
+    assert.strictEqual(restarted.metrics.backendMetrics['backend-1'].connectionsActive, 0);
+    assert.deepStrictEqual((await storage.get('state')).config.pools[0].backends.map(b => b.id), ['backend-1']);
+  });
+});
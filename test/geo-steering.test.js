@@ -0,0 +1,92 @@
+import { test, describe, afterEach } from 'node:test';
+import assert from 'node:assert';
+import { LoadBalancerDO } from '../src/durable-object.ts';
+import { createServiceDO } from './helpers/durable-object-state.mjs';
+import { mockOrigins } from './helpers/origins.mjs';
+
+// Moves backend-1 into a pool of its own, so steering decisions show up as the origin host
+async function createTwoPoolDO(env = {}) {
+  const { durableObject } = await createServiceDO(LoadBalancerDO, { env });
+  const [pool] = durableObject.config.pools;
+  const [first, second] = pool.backends;
+  pool.backends = [first];
+  durableObject.config.pools.push({ ...pool, id: 'eu-pool', name: 'EU Pool', backends: [second] });
+  return durableObject;
+}
+
+function requestFrom(cf, headers = {}) {
+  const request = new Request('https://app.example.com/', { headers });
+  if (cf) {
+    Object.defineProperty(request, 'cf', { value: cf });
+  }
+  return request;
+}
+
+describe('Geo steering', () => {
+  let origins;
+  afterEach(() => origins?.restore());
+
+  test('steers by the country in request.cf', async () => {
+    const durableObject = await createTwoPoolDO();
+    durableObject.config.load_balancer.steering_policy = 'geo';
+    durableObject.config.load_balancer.country_pools = { DE: ['eu-pool'], US: ['simple-pool'] };
+    origins = mockOrigins(() => new Response('ok'));
+
+    await durableObject.fetch(requestFrom({ country: 'DE', region: 'Berlin' }));
+    await durableObject.fetch(requestFrom({ country: 'US', region: 'Texas' }));
+
+    assert.deepStrictEqual(origins.hosts(), ['origin-b.example.com', 'origin-a.example.com']);
+  });
+
+  test('only honours the geo override header when TRUST_GEO_OVERRIDE_HEADER is set', async () => {
+    const override = { 'X-LB-Geo-Override': JSON.stringify({ country: 'DE' }) };
+    origins = mockOrigins(() => new Response('ok'));
+
+    for (const trusted of [true, false]) {
+      const durableObject = await createTwoPoolDO(trusted ? { TRUST_GEO_OVERRIDE_HEADER: 'true' } : {});
+      durableObject.config.load_balancer.steering_policy = 'geo';
+      durableObject.config.load_balancer.country_pools = { DE: ['eu-pool'], US: ['simple-pool'] };
+      await durableObject.fetch(requestFrom({ country: 'US', region: 'Texas' }, override));
+    }
+
+    assert.deepStrictEqual(origins.hosts(), ['origin-b.example.com', 'origin-a.example.com']);
+  });
+});
+
+describe('PoP steering', () => {
+  let origins;
+  afterEach(() => origins?.restore());
+
+  test('prefers the pools mapped to the colo, then region, then country, then the defaults', async () => {
+    const durableObject = await createTwoPoolDO();
+    Object.assign(durableObject.config.load_balancer, {
+      steering_policy: 'pop',
+      pop_pools: { FRA: ['eu-pool'] },
+      region_pools: { Bavaria: ['eu-pool'] },
+      country_pools: { AT: ['eu-pool'] }
+    });
+    origins = mockOrigins(() => new Response('ok'));
+
+    await durableObject.fetch(requestFrom({ colo: 'fra', country: 'US', region: 'Texas' }));
+    await durableObject.fetch(requestFrom({ colo: 'MUC', country: 'DE', region: 'Bavaria' }));
+    await durableObject.fetch(requestFrom({ colo: 'VIE', country: 'AT', region: 'Vienna' }));
+    await durableObject.fetch(requestFrom({ colo: 'DFW', country: 'US', region: 'Texas' }));
+
+    assert.deepStrictEqual(origins.hosts(), ['origin-b.example.com', 'origin-b.example.com', 'origin-b.example.com', 'origin-a.example.com']);
+  });
+
+  test('skips a mapped pool that is unhealthy', async () => {
+    const durableObject = await createTwoPoolDO();
+    Object.assign(durableObject.config.load_balancer, {
+      steering_policy: 'pop',
+      pop_pools: { FRA: ['simple-pool'] },
+      default_pool_ids: ['simple-pool', 'eu-pool']
+    });
+    durableObject.config.pools[0].backends[0].healthy = false;
+    origins = mockOrigins(() => new Response('ok'));
+
+    await durableObject.fetch(requestFrom({ colo: 'FRA', country: 'DE' }));
+
+    assert.deepStrictEqual(origins.hosts(), ['origin-b.example.com']);
+  });
+});
@@ -0,0 +1,110 @@
+import { test, describe, afterEach, mock } from 'node:test';
+import assert from 'node:assert';
+import { SERVICE_MONITOR_ID, resolveHealthCheck, validateHealthMonitors, HealthMonitorScheduler } from '../src/health-monitors.ts';
+import { LoadBalancerDO } from '../src/durable-object.ts';
+import { createServiceDO } from './helpers/durable-object-state.mjs';
+import { mockOrigins } from './helpers/origins.mjs';
+
+const apiMonitor = { id: 'api', enabled: true, type: 'https', path: '/api/health', interval: 15, timeout: 5, retries: 1, consecutive_up: 2, consecutive_down: 3 };
+const serviceConfig = {
+  activeHealthChecks: { enabled: true, type: 'http', path: '/healthz', interval: 60, timeout: 5, retries: 1, consecutive_up: 2, consecutive_down: 3 },
+  monitors: [apiMonitor, { ...apiMonitor, id: 'off', enabled: false }]
+};
+
+describe('resolveHealthCheck', () => {
+  test('uses the pool monitor, falling back to activeHealthChecks for pools without one', () => {
+    const backend = { id: 'b1' };
+    assert.deepStrictEqual(resolveHealthCheck(serviceConfig, { id: 'p1', monitor: 'api' }, backend), { monitorId: 'api', check: apiMonitor });
+    assert.strictEqual(resolveHealthCheck(serviceConfig, { id: 'p2' }, backend).check.path, '/healthz');
+    assert.strictEqual(resolveHealthCheck(serviceConfig, { id: 'p2' }, backend).monitorId, SERVICE_MONITOR_ID);
+  });
+
+  test('applies backend overrides and skips disabled or missing monitors', () => {
+    const resolved = resolveHealthCheck(serviceConfig, { id: 'p1', monitor: 'api' }, { id: 'b1', monitor_override: { path: '/other', port: 8443 } });
+    assert.strictEqual(resolved.check.path, '/other');
+    assert.strictEqual(resolved.check.port, 8443);
+    assert.strictEqual(resolved.check.interval, 15);
+    assert.strictEqual(apiMonitor.path, '/api/health');
+    assert.strictEqual(resolveHealthCheck(serviceConfig, { id: 'p1', monitor: 'off' }, { id: 'b1' }), null);
+    assert.strictEqual(resolveHealthCheck(serviceConfig, { id: 'p1', monitor: 'gone' }, { id: 'b1' }), null);
+  });
+});
+
+describe('validateHealthMonitors', () => {
+  test('accepts monitors and the pools that use them', () => {
+    assert.strictEqual(validateHealthMonitors(serviceConfig.monitors, [{ id: 'p1', monitor: 'api', backends: [] }, { id: 'p2', backends: [] }]), null);
+  });
+
+  test('rejects duplicate or reserved ids, bad intervals, unknown references and bad overrides', () => {
+    assert.match(validateHealthMonitors([apiMonitor, apiMonitor], []), /Duplicate/);
+    assert.match(validateHealthMonitors([{ ...apiMonitor, id: SERVICE_MONITOR_ID }], []), /reserved/);
+    assert.match(validateHealthMonitors([{ ...apiMonitor, interval: 0 }], []), /positive interval/);
+    assert.match(validateHealthMonitors([{ ...apiMonitor, type: 'icmp' }], []), /Monitor 'api'/);
+    assert.match(validateHealthMonitors([apiMonitor], [{ id: 'p1', monitor: 'mail', backends: [] }]), /unknown monitor 'mail'/);
+    assert.match(validateHealthMonitors([apiMonitor], [{ id: 'p1', backends: [{ id: 'b1', monitor_override: { type: 'icmp' } }] }]), /backend 'b1'/);
+  });
+});
+
+describe('HealthMonitorScheduler', () => {
+  test('runs each monitor on its own interval', () => {
+    const scheduler = new HealthMonitorScheduler();
+    assert.strictEqual(scheduler.isDue('api', 15, 0), false);
+    assert.strictEqual(scheduler.isDue('service', 60, 0), false);
+    assert.strictEqual(scheduler.isDue('api', 15, 15000), true);
+    assert.strictEqual(scheduler.isDue('service', 60, 15000), false);
+
+    scheduler.markRun('api', 15, 15000);
+    assert.strictEqual(scheduler.nextRun('api', 15, 16000), 30000);
+    assert.strictEqual(scheduler.nextRun('service', 60, 16000), 60000);
+  });
+
+  test('restores persisted runs, resets and prunes', () => {
+    const scheduler = new HealthMonitorScheduler({ api: 5000, gone: 1000 });
+    assert.strictEqual(scheduler.isDue('api', 15, 6000), true);
+    scheduler.prune(new Set(['api']));
+    assert.deepStrictEqual(Object.keys(scheduler.getNextRuns()), ['api']);
+    scheduler.reset('api');
+    assert.strictEqual(scheduler.nextRun('api', 30, 10000), 40000);
+  });
+});
+
+describe('Health monitors in the DO', () => {
+  let origins;
+  afterEach(() => {
+    origins?.restore();
+    mock.restoreAll();
+  });
+
+  test('the alarm runs each monitor on its own interval', async () => {
+    const start = Date.UTC(2026, 0, 1);
+    const clock = mock.method(Date, 'now', () => start);
+    const { durableObject, storage } = await createServiceDO(LoadBalancerDO);
+    const [pool] = durableObject.config.pools;
+    const [first, second] = pool.backends;
+    pool.backends = [first];
+    pool.monitor = 'fast';
+    durableObject.config.pools.push({ ...pool, id: 'slow-pool', name: 'Slow', backends: [second], monitor: 'slow' });
+    durableObject.config.activeHealthChecks.enabled = false;
+    durableObject.config.monitors = [
+      { ...apiMonitor, id: 'fast', type: 'http', path: '/health', interval: 15 },
+      { ...apiMonitor, id: 'slow', type: 'http', path: '/health', interval: 60 }
+    ];
+    origins = mockOrigins(() => new Response('ok'));
+
+    await durableObject.scheduleHealthCheckAlarm();
+    assert.strictEqual(await storage.getAlarm(), start + 15000);
+
+    const probedAt = async seconds => {
+      clock.mock.mockImplementation(() => start + seconds * 1000);
+      const before = origins.requests.length;
+      await durableObject.alarm();
+      return origins.hosts().slice(before);
+    };
+    assert.deepStrictEqual(await probedAt(15), ['origin-a.example.com']);
+    assert.strictEqual(await storage.getAlarm(), start + 30000);
+    assert.deepStrictEqual(await probedAt(30), ['origin-a.example.com']);
+    assert.deepStrictEqual(await probedAt(45), ['origin-a.example.com']);
+    assert.deepStrictEqual((await probedAt(60)).sort(), ['origin-a.example.com', 'origin-b.example.com']);
+    assert.deepStrictEqual(await storage.get('healthMonitorSchedule'), { fast: start + 75000, slow: start + 120000 });
+  });
+});
@@ -0,0 +1,161 @@
+import { test, describe, afterEach } from 'node:test';
+import assert from 'node:assert';
+import { HealthCheckTracker, HEALTH_HISTORY_SIZE } from '../src/health-state.ts';
+import { LoadBalancerDO } from '../src/durable-object.ts';
+import { createLoadBalancerDO, createServiceDO } from './helpers/durable-object-state.mjs';
+import { mockOrigins } from './helpers/origins.mjs';
+
+const config = { consecutive_up: 2, consecutive_down: 3 };
+const check = (timestamp, healthy) => ({ timestamp, healthy, attempts: 1 });
+
+describe('HealthCheckTracker', () => {
+  test('marks a backend unhealthy only after consecutive_down failing checks', () => {
+    const tracker = new HealthCheckTracker();
+    const backend = { id: 'b1', healthy: true, consecutiveFailures: 0 };
+
+    assert.strictEqual(tracker.record(backend, config, check(1, false)), false);
+    assert.strictEqual(tracker.record(backend, config, check(2, false)), false);
+    assert.strictEqual(backend.healthy, true);
+    assert.strictEqual(tracker.record(backend, config, check(3, false)), true);
+    assert.strictEqual(backend.healthy, false);
+    assert.strictEqual(backend.lastFailureTimestamp, 3);
+    assert.strictEqual(tracker.getHistory('b1').at(-1).transition, 'down');
+  });
+
+  test('needs consecutive_up passing checks to recover, and a failure resets the count', () => {
+    const tracker = new HealthCheckTracker();
+    const backend = { id: 'b1', healthy: false, consecutiveFailures: 5 };
+
+    tracker.record(backend, config, check(1, true));
+    tracker.record(backend, config, check(2, false));
+    tracker.record(backend, config, check(3, true));
+    assert.strictEqual(backend.healthy, false);
+    assert.strictEqual(tracker.record(backend, config, check(4, true)), true);
+    assert.strictEqual(backend.healthy, true);
+    assert.strictEqual(backend.consecutiveFailures, 0);
+    assert.strictEqual(tracker.getState('b1').lastTransition, 4);
+  });
+
+  test('flapping probes do not flip the backend', () => {
+    const tracker = new HealthCheckTracker();
+    const backend = { id: 'b1', healthy: true, consecutiveFailures: 0 };
+    for (let i = 0; i < 20; i++) {
+      tracker.record(backend, config, check(i, i % 2 === 0));
+    }
+    assert.strictEqual(backend.healthy, true);
+    assert.strictEqual(tracker.getHistory('b1').filter(record => record.transition).length, 0);
+  });
+
+  test('keeps a ring of the newest records and restores persisted state', () => {
+    const tracker = new HealthCheckTracker();
+    const backend = { id: 'b1', healthy: true, consecutiveFailures: 0 };
+    for (let i = 0; i < HEALTH_HISTORY_SIZE + 10; i++) {
+      tracker.record(backend, config, check(i, true));
+    }
+    const history = tracker.getHistory('b1');
+    assert.strictEqual(history.length, HEALTH_HISTORY_SIZE);
+    assert.strictEqual(history[0].timestamp, 10);
+    assert.deepStrictEqual(tracker.getHistory('b1', 2).map(record => record.timestamp), [108, 109]);
+
+    const restored = new HealthCheckTracker(JSON.parse(JSON.stringify(tracker.getStates())));
+    assert.strictEqual(restored.getState('b1').consecutiveUp, HEALTH_HISTORY_SIZE + 10);
+    restored.prune(new Set(['b2']));
+    assert.strictEqual(restored.getStates().length, 0);
+  });
+});
+
+// LOAD_BALANCER_DO that creates real probe objects; regions in `unreachable` answer 503
+function createProbeNamespace(unreachable = []) {
+  const objects = new Map();
+  const locationHints = {};
+  return {
+    locationHints,
+    names: () => [...objects.keys()],
+    idFromName: name => ({ name, toString: () => name }),
+    get: (id, { locationHint } = {}) => ({
+      fetch: async (url, init) => {
+        const region = id.name.split('/')[1];
+        locationHints[region] = locationHint;
+        if (unreachable.includes(region)) {
+          return new Response('unavailable', { status: 503 });
+        }
+        if (!objects.has(id.name)) {
+          objects.set(id.name, (await createLoadBalancerDO(LoadBalancerDO, { hostname: id.name })).durableObject);
+        }
+        return objects.get(id.name).fetch(new Request(url, init));
+      }
+    })
+  };
+}
+
+async function createCheckedDO(activeHealthChecks, env = {}) {
+  const { durableObject } = await createServiceDO(LoadBalancerDO, { env });
+  Object.assign(durableObject.config.activeHealthChecks, {
+    enabled: true, type: 'http', path: '/health', timeout: 2, retries: 0, consecutive_up: 1, consecutive_down: 1, ...activeHealthChecks
+  });
+  return durableObject;
+}
+
+function admin(durableObject, path) {
+  return durableObject.fetch(new Request(`https://app.example.com/__lb_admin__/${path}`));
+}
+
+describe('Active health checks in the DO', () => {
+  let origins;
+  afterEach(() => origins?.restore());
+
+  test('probes from each check region and passes on a majority', async () => {
+    const namespace = createProbeNamespace(['OC']);
+    const durableObject = await createCheckedDO({ check_regions: ['WEU', 'ENAM', 'OC'] }, { LOAD_BALANCER_DO: namespace });
+    let status = 200;
+    origins = mockOrigins(() => new Response('ok', { status }));
+
+    await admin(durableObject, 'health');
+    const [record] = durableObject.healthCheckTracker.getHistory('backend-0', 1);
+    assert.deepStrictEqual([record.healthy, record.regions], [true, { WEU: true, ENAM: true, OC: false }]);
+    assert.strictEqual(record.error, 'OC: Region probe unavailable: status 503');
+    assert.deepStrictEqual(namespace.locationHints, { WEU: 'weur', ENAM: 'enam', OC: 'oc' });
+    assert.deepStrictEqual(namespace.names().sort(), ['__lb_probe__/ENAM/app.example.com', '__lb_probe__/WEU/app.example.com']);
+    assert.strictEqual(origins.requests.length, 4); // Two backends from two reachable regions
+
+    status = 500;
+    await admin(durableObject, 'health');
+    const [failed] = durableObject.healthCheckTracker.getHistory('backend-0', 1);
+    assert.deepStrictEqual([failed.healthy, failed.transition], [false, 'down']);
+    assert.match(failed.error, /^WEU: Unexpected status 500/);
+    assert.strictEqual(durableObject.config.pools[0].backends[0].healthy, false);
+  });
+
+  test('a probe object only runs probes', async () => {
+    const { durableObject } = await createLoadBalancerDO(LoadBalancerDO, { hostname: '__lb_probe__/WEU/app.example.com' });
+    origins = mockOrigins(() => new Response('down', { status: 503 }));
+
+    const rejected = await durableObject.fetch(new Request('https://region-probe/'));
+    assert.strictEqual(rejected.status, 405);
+
+    const response = await durableObject.fetch(new Request('https://region-probe/', {
+      method: 'POST',
+      body: JSON.stringify({ config: { type: 'http', path: '/health', timeout: 2, retries: 1 }, backend: { id: 'backend-0', url: 'https://origin-a.example.com' } })
+    }));
+    const result = await response.json();
+    assert.deepStrictEqual([result.healthy, result.statusCode, result.attempts], [false, 503, 2]);
+    assert.deepStrictEqual(origins.hosts(), ['origin-a.example.com', 'origin-a.example.com']);
+  });
+
+  test('serves the check history per backend with its counters', async () => {
+    const durableObject = await createCheckedDO({ consecutive_down: 2 });
+    origins = mockOrigins(request => new Response('down', { status: new URL(request.url).hostname === 'origin-a.example.com' ? 503 : 200 }));
+    for (let i = 0; i < 3; i++) {
+      await admin(durableObject, 'health');
+    }
+
+    const response = await admin(durableObject, 'health/history?backend=backend-0&limit=2');
+    const { backends } = await response.json();
+    assert.strictEqual(backends.length, 1);
+    const [history] = backends;
+    assert.deepStrictEqual([history.poolId, history.consecutiveDown, history.consecutiveUp, history.transitions], ['simple-pool', 3, 0, 1]);
+    assert.deepStrictEqual(history.healthHistory.map(record => [record.healthy, record.statusCode]), [[false, 503], [false, 503]]);
+
+    assert.strictEqual((await admin(durableObject, 'health/history?limit=0')).status, 400);
+  });
+});
@@ -0,0 +1,126 @@
+import { test, describe, afterEach } from 'node:test';
+import assert from 'node:assert';
+import { LoadBalancerDO } from '../src/durable-object.ts';
+import { createLatencySketch, recordLatency } from '../src/latency-sketch.ts';
+import { createServiceDO } from './helpers/durable-object-state.mjs';
+import { mockOrigins, respondAfter } from './helpers/origins.mjs';
+
+async function createHedgingDO(hedging, retryPolicy = {}) {
+  const { durableObject } = await createServiceDO(LoadBalancerDO);
+  Object.assign(durableObject.config.retryPolicy, { hedging: { enabled: true, ...hedging }, ...retryPolicy });
+  return durableObject;
+}
+
+// The first attempt of every request answers after `slowMs`; a hedge sent while it is pending answers at once
+function slowFirstAttempts(slowMs) {
+  let inFlight = 0;
+  return mockOrigins(async request => {
+    const hedge = inFlight > 0;
+    inFlight++;
+    try {
+      return await respondAfter(request, hedge ? 0 : slowMs, new Response(hedge ? 'hedge' : 'first'));
+    } finally {
+      inFlight--;
+    }
+  });
+}
+
+async function get(durableObject) {
+  const response = await durableObject.fetch(new Request('https://app.example.com/'));
+  return response.text();
+}
+
+describe('Request hedging', () => {
+  let origins;
+  afterEach(() => origins?.restore());
+
+  test('answers from the hedge when it wins and aborts the first attempt', async () => {
+    const durableObject = await createHedgingDO({ delay_ms: 10, max_hedge_percent: 100 });
+    origins = slowFirstAttempts(500);
+
+    assert.strictEqual(await get(durableObject), 'hedge');
+
+    const [first, hedge] = origins.requests;
+    assert.notStrictEqual(new URL(first.url).hostname, new URL(hedge.url).hostname);
+    assert.deepStrictEqual([first.signal.aborted, hedge.signal.aborted], [true, false]);
+    assert.deepStrictEqual([durableObject.metrics.hedgedRequests, durableObject.metrics.hedgeWins], [1, 1]);
+    assert.ok(durableObject.config.pools[0].backends.every(backend => backend.outstandingRequests === 0));
+  });
+
+  test('waits for the hedge when the first attempt fails after it was sent', async () => {
+    const durableObject = await createHedgingDO({ delay_ms: 10, max_hedge_percent: 100 });
+    origins = mockOrigins(async (request, count) => {
+      if (count === 1) {
+        await respondAfter(request, 30, null);
+        throw new TypeError('connection reset');
+      }
+      return respondAfter(request, 60, new Response('hedge'));
+    });
+
+    assert.strictEqual(await get(durableObject), 'hedge');
+    assert.strictEqual(origins.requests.length, 2);
+  });
+
+  test('hedges no more than max_hedge_percent of requests, banking at most the budget cap', async () => {
+    const durableObject = await createHedgingDO({ delay_ms: 10, max_hedge_percent: 50 });
+    origins = slowFirstAttempts(50);
+
+    for (let i = 0; i < 4; i++) {
+      await get(durableObject);
+    }
+    assert.strictEqual(durableObject.metrics.hedgedRequests, 2);
+
+    // 30 quick requests earn 15 hedges, but only 10 are kept
+    durableObject.config.retryPolicy.hedging.max_hedge_percent = 100;
+    origins.restore();
+    origins = mockOrigins(() => new Response('quick'));
+    for (let i = 0; i < 30; i++) {
+      await get(durableObject);
+    }
+    durableObject.config.retryPolicy.hedging.max_hedge_percent = 0;
+    origins.restore();
+    origins = slowFirstAttempts(50);
+    for (let i = 0; i < 12; i++) {
+      await get(durableObject);
+    }
+    assert.strictEqual(durableObject.metrics.hedgedRequests, 2 + 10);
+  });
+
+  test('spends the retry budget on hedges', async () => {
+    const durableObject = await createHedgingDO(
+      { delay_ms: 10, max_hedge_percent: 100 },
+      { retry_budget: { enabled: true, max_retry_ratio: 0, min_retries: 1, window: 60 } }
+    );
+    origins = slowFirstAttempts(50);
+
+    const answers = [];
+    for (let i = 0; i < 3; i++) {
+      answers.push(await get(durableObject));
+    }
+
+    assert.deepStrictEqual(answers, ['hedge', 'first', 'first']);
+    assert.deepStrictEqual([durableObject.metrics.hedgedRequests, durableObject.metrics.retryBudgetExhausted], [1, 2]);
+  });
+
+  test('waits for the p95 of the first backend once it has enough samples', async () => {
+    const durableObject = await createHedgingDO({ delay_ms: 10000, delay_source: 'p95', max_hedge_percent: 100 });
+    origins = slowFirstAttempts(100);
+    const record = count => {
+      for (const backend of durableObject.config.pools[0].backends) {
+        const sketch = createLatencySketch();
+        for (let i = 0; i < count; i++) {
+          recordLatency(sketch, 20);
+        }
+        durableObject.metrics.backendMetrics[backend.id] = { ...durableObject.metrics.backendMetrics[backend.id], latencySketch: sketch };
+      }
+    };
+
+    // Too few samples: the fixed 10s delay applies and the first attempt answers
+    record(19);
+    assert.strictEqual(await get(durableObject), 'first');
+
+    record(20);
+    assert.strictEqual(await get(durableObject), 'hedge');
+    assert.strictEqual(durableObject.metrics.hedgedRequests, 1);
+  });
+});
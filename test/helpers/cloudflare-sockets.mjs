@@ -0,0 +1,14 @@
+// Stand-in for cloudflare:sockets. Tests install a handler with setConnectHandler(); connect() hands it
+// the address and options and returns whatever socket it builds.
+let handler = null;
+
+export function setConnectHandler(next) {
+  handler = next;
+}
+
+export function connect(address, options) {
+  if (!handler) {
+    throw new Error('connect() called without a test connect handler');
+  }
+  return handler(address, options);
+}
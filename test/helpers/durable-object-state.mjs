@@ -0,0 +1,157 @@
+// In-memory DurableObjectState for running LoadBalancerDO under node:test. Storage round-trips values
+// through structuredClone like the real storage API, and `sql` runs on SQLite (sql.js) so the analytics
+// and log stores execute their real queries.
+import initSqlJs from 'sql.js';
+
+const SQL = await initSqlJs();
+
+function toSqlValue(value) {
+  if (value === undefined) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return value;
+}
+
+class SqlCursor {
+  constructor(rows) {
+    this.rows = rows;
+  }
+
+  toArray() {
+    return this.rows;
+  }
+
+  one() {
+    if (this.rows.length !== 1) {
+      throw new Error(`Expected exactly one row, got ${this.rows.length}`);
+    }
+    return this.rows[0];
+  }
+
+  [Symbol.iterator]() {
+    return this.rows[Symbol.iterator]();
+  }
+}
+
+export class FakeSqlStorage {
+  constructor() {
+    this.db = new SQL.Database();
+  }
+
+  // Like SqlStorage.exec: several statements may share a string, bindings apply to a single statement
+  exec(query, ...bindings) {
+    if (bindings.length === 0) {
+      const results = this.db.exec(query);
+      const last = results[results.length - 1];
+      return new SqlCursor(last ? last.values.map(values => Object.fromEntries(last.columns.map((column, i) => [column, values[i]]))) : []);
+    }
+
+    const statement = this.db.prepare(query);
+    try {
+      statement.bind(bindings.map(toSqlValue));
+      const rows = [];
+      while (statement.step()) {
+        rows.push(statement.getAsObject());
+      }
+      return new SqlCursor(rows);
+    } finally {
+      statement.free();
+    }
+  }
+}
+
+export class FakeStorage {
+  constructor() {
+    this.data = new Map();
+    this.alarm = null;
+    this.sql = new FakeSqlStorage();
+  }
+
+  async get(keys) {
+    if (Array.isArray(keys)) {
+      return new Map(keys.filter(key => this.data.has(key)).map(key => [key, structuredClone(this.data.get(key))]));
+    }
+    return this.data.has(keys) ? structuredClone(this.data.get(keys)) : undefined;
+  }
+
+  async put(keyOrEntries, value) {
+    const entries = typeof keyOrEntries === 'string' ? { [keyOrEntries]: value } : keyOrEntries;
+    for (const [key, entry] of Object.entries(entries)) {
+      this.data.set(key, structuredClone(entry));
+    }
+  }
+
+  async delete(keys) {
+    if (Array.isArray(keys)) {
+      return keys.filter(key => this.data.delete(key)).length;
+    }
+    return this.data.delete(keys);
+  }
+
+  async list({ prefix = '', limit = Infinity } = {}) {
+    const keys = [...this.data.keys()].filter(key => key.startsWith(prefix)).sort().slice(0, limit);
+    return new Map(keys.map(key => [key, structuredClone(this.data.get(key))]));
+  }
+
+  async getAlarm() {
+    return this.alarm;
+  }
+
+  async setAlarm(time) {
+    this.alarm = typeof time === 'number' ? time : time.getTime();
+  }
+
+  async deleteAlarm() {
+    this.alarm = null;
+  }
+}
+
+export class FakeDurableObjectState {
+  constructor(name, storage = new FakeStorage()) {
+    this.id = { name, toString: () => name };
+    this.storage = storage;
+    this.pending = [];
+    this.ready = Promise.resolve();
+  }
+
+  waitUntil(promise) {
+    this.pending.push(Promise.resolve(promise).catch(() => {}));
+  }
+
+  blockConcurrencyWhile(callback) {
+    this.ready = callback();
+    return this.ready;
+  }
+
+  /** Wait for everything handed to waitUntil, including work queued while waiting */
+  async settle() {
+    while (this.pending.length > 0) {
+      await Promise.all(this.pending.splice(0));
+    }
+  }
+}
+
+/**
+ * A LoadBalancerDO for `hostname` whose stored config is `config` (a full LoadBalancerServiceConfig).
+ * Pass the storage of an earlier instance to simulate a restart.
+ */
+export async function createLoadBalancerDO(LoadBalancerDO, { hostname = 'app.example.com', config, env = {}, storage } = {}) {
+  const state = new FakeDurableObjectState(hostname, storage);
+  if (config) {
+    await state.storage.put('state', { config: { ...config, serviceId: hostname } });
+  }
+  const durableObject = new LoadBalancerDO(state, env);
+  await state.ready;
+  return { durableObject, state, storage: state.storage };
+}
+
+/**
+ * A LoadBalancerDO for `hostname` set up the way DEFAULT_BACKENDS sets up a service: one round-robin
+ * pool with a backend-<i> per URL. Tests adjust `durableObject.config` from there.
+ */
+export async function createServiceDO(LoadBalancerDO, { hostname = 'app.example.com', backends = ['https://origin-a.example.com', 'https://origin-b.example.com'], env = {}, storage } = {}) {
+  return createLoadBalancerDO(LoadBalancerDO, {
+    hostname,
+    storage,
+    env: { DEFAULT_BACKENDS: JSON.stringify({ hostname, backends }), ...env }
+  });
+}
@@ -0,0 +1,17 @@
+// LoadBalancerEngine config for engine-level tests: the smart defaults for app.example.com with two
+// pools in failover order, pool-1 (backend-1..3) ahead of pool-2 (backend-4).
+import { createSmartDefaults } from '../../src/config.ts';
+
+export function createEngineConfig(loadBalancer = {}) {
+  const config = createSmartDefaults('app.example.com', ['https://backend-1.example.com', 'https://backend-2.example.com', 'https://backend-3.example.com']);
+  const [primary] = config.pools;
+  const secondary = createSmartDefaults('app.example.com', ['https://backend-4.example.com']).pools[0];
+  primary.id = 'pool-1';
+  secondary.id = 'pool-2';
+  secondary.backends[0].id = 'backend-4';
+  config.pools.push(secondary);
+  config.mode = 'advanced';
+  config.load_balancer.default_pool_ids = ['pool-1', 'pool-2'];
+  Object.assign(config.load_balancer, loadBalancer);
+  return config;
+}
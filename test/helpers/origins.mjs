@@ -0,0 +1,29 @@
+// Stand-in for the origins behind the load balancer: replaces global fetch with `handler`, which gets
+// the forwarded Request and returns a Response (or throws, like a failed connection).
+export function mockOrigins(handler) {
+  const original = globalThis.fetch;
+  const requests = [];
+  globalThis.fetch = async (input, init) => {
+    const request = input instanceof Request && init === undefined ? input : new Request(input, init);
+    requests.push(request);
+    return handler(request, requests.length);
+  };
+  return {
+    requests,
+    hosts: () => requests.map(request => new URL(request.url).hostname),
+    restore: () => {
+      globalThis.fetch = original;
+    }
+  };
+}
+
+// A Response that arrives after `ms`, or an AbortError as soon as the request is aborted
+export function respondAfter(request, ms, response) {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => resolve(response), ms);
+    request.signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(request.signal.reason);
+    });
+  });
+}
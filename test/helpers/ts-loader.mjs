@@ -0,0 +1,41 @@
+// Node module hooks that let tests import the TypeScript sources directly. .ts files are transpiled
+// with the project's TypeScript, extensionless relative imports resolve to .ts, and Workers-only
+// modules resolve to the fakes next to this file.
+import { readFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import ts from 'typescript';
+
+const WORKERS_MODULES = {
+  'cloudflare:sockets': new URL('./cloudflare-sockets.mjs', import.meta.url).href
+};
+
+export async function resolve(specifier, context, nextResolve) {
+  if (WORKERS_MODULES[specifier]) {
+    return { url: WORKERS_MODULES[specifier], shortCircuit: true };
+  }
+  if (specifier.startsWith('.') && context.parentURL?.endsWith('.ts') && !/\.[cm]?[jt]s$/.test(specifier)) {
+    const url = new URL(`${specifier}.ts`, context.parentURL);
+    if (existsSync(fileURLToPath(url))) {
+      return { url: url.href, shortCircuit: true };
+    }
+  }
+  return nextResolve(specifier, context);
+}
+
+export async function load(url, context, nextLoad) {
+  if (!url.endsWith('.ts')) {
+    return nextLoad(url, context);
+  }
+  const source = await readFile(fileURLToPath(url), 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    fileName: fileURLToPath(url),
+    compilerOptions: {
+      target: ts.ScriptTarget.ES2022,
+      module: ts.ModuleKind.ES2022,
+      sourceMap: false,
+      inlineSourceMap: true
+    }
+  });
+  return { format: 'module', source: outputText, shortCircuit: true };
+}
@@ -0,0 +1,68 @@
+// Stand-ins for the Workers WebSocket API: WebSocketPair, and a Response that accepts status 101 with a
+// `webSocket`, which Node's Response rejects. Messages and closes are delivered to the peer synchronously.
+class FakeWebSocket extends EventTarget {
+  constructor() {
+    super();
+    this.peer = null;
+    this.accepted = false;
+    this.closed = false;
+    this.received = [];
+  }
+
+  accept() {
+    this.accepted = true;
+  }
+
+  send(data) {
+    if (this.closed) {
+      throw new TypeError('WebSocket is closed');
+    }
+    this.peer.received.push(data);
+    this.peer.dispatchEvent(new MessageEvent('message', { data }));
+  }
+
+  close(code = 1000, reason = '') {
+    if (this.closed) {
+      throw new TypeError('WebSocket is closed');
+    }
+    this.closed = true;
+    this.closeCode = code;
+    if (!this.peer.closed) {
+      this.peer.closed = true;
+      this.peer.closeCode = code;
+      this.peer.dispatchEvent(Object.assign(new Event('close'), { code, reason }));
+    }
+  }
+}
+
+class FakeWebSocketPair {
+  constructor() {
+    const client = new FakeWebSocket();
+    const server = new FakeWebSocket();
+    client.peer = server;
+    server.peer = client;
+    Object.assign(this, { 0: client, 1: server });
+  }
+}
+
+// Installs WebSocketPair and a 101-capable Response on globalThis; returns a function that restores both
+export function installWebSockets() {
+  const OriginalResponse = globalThis.Response;
+  const originalPair = globalThis.WebSocketPair;
+
+  globalThis.WebSocketPair = FakeWebSocketPair;
+  globalThis.Response = class extends OriginalResponse {
+    constructor(body, init = {}) {
+      super(body, init.status === 101 ? { ...init, status: 200 } : init);
+      if (init.status === 101) {
+        Object.defineProperty(this, 'status', { value: 101 });
+      }
+      this.webSocket = init.webSocket ?? null;
+    }
+  };
+
+  return () => {
+    globalThis.Response = OriginalResponse;
+    globalThis.WebSocketPair = originalPair;
+  };
+}
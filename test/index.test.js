@@ -0,0 +1,67 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import worker from '../src/index.ts';
+
+// LOAD_BALANCER_DO binding that records what reaches the Durable Object
+function createEnv(overrides = {}) {
+  const forwarded = [];
+  const env = {
+    API_SECRET: 'api-secret',
+    LOAD_BALANCER_DO: {
+      idFromName: name => name,
+      get: name => ({
+        fetch: async request => {
+          forwarded.push({ name, request });
+          return new Response('from DO');
+        }
+      })
+    },
+    ...overrides
+  };
+  return { env, forwarded };
+}
+
+describe('Worker routing', () => {
+  test('forwards public traffic to the service DO', async () => {
+    const { env, forwarded } = createEnv();
+    const response = await worker.fetch(new Request('https://app.example.com/products'), env, {});
+
+    assert.strictEqual(await response.text(), 'from DO');
+    assert.strictEqual(forwarded[0].name, 'app.example.com');
+  });
+
+  test('does not expose the DO admin operations on service hostnames', async () => {
+    const { env, forwarded } = createEnv();
+
+    for (const path of ['/__lb_admin__/alerts/acknowledge?id=a1', '/__lb_admin__/overrides', '/__lb_admin__']) {
+      const response = await worker.fetch(new Request(`https://app.example.com${path}`, {
+        method: 'POST',
+        headers: { 'X-LB-Admin-User': 'someone-else' }
+      }), env, {});
+      assert.strictEqual(response.status, 404, path);
+    }
+    assert.strictEqual(forwarded.length, 0);
+  });
+
+  test('attributes admin API calls to the authenticated caller, not the client header', async () => {
+    const { env, forwarded } = createEnv();
+    const response = await worker.fetch(new Request('https://lb.example.workers.dev/admin/services/app.example.com/alerts/resolve?id=a1', {
+      method: 'POST',
+      headers: { Authorization: 'Bearer api-secret', 'X-LB-Admin-User': 'someone-else' }
+    }), env, {});
+
+    assert.strictEqual(response.status, 200);
+    assert.strictEqual(new URL(forwarded[0].request.url).pathname, '/__lb_admin__/alerts/resolve');
+    assert.strictEqual(forwarded[0].request.headers.get('X-LB-Admin-User'), 'api');
+  });
+
+  test('rejects admin API calls without valid credentials', async () => {
+    const { env, forwarded } = createEnv();
+    const response = await worker.fetch(new Request('https://lb.example.workers.dev/admin/services/app.example.com/alerts', {
+      headers: { Authorization: 'Bearer wrong' }
+    }), env, {});
+
+    assert.strictEqual(response.status, 401);
+    assert.strictEqual(forwarded.length, 0);
+  });
+});
@@ -0,0 +1,90 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import { createLatencySketch, latencyQuantile, mergeLatencySketches, recordLatency } from '../src/latency-sketch.ts';
+
+function assertWithin(actual, expected, relativeError) {
+  assert.ok(
+    Math.abs(actual - expected) <= expected * relativeError,
+    `expected ${actual} to be within ${relativeError * 100}% of ${expected}`
+  );
+}
+
+describe('Latency Sketch Tests', () => {
+  test('should return 0 for an empty sketch', () => {
+    const sketch = createLatencySketch();
+    assert.strictEqual(latencyQuantile(sketch, 0.5), 0);
+    assert.strictEqual(latencyQuantile(sketch, 0.99), 0);
+  });
+
+  test('should estimate percentiles within the relative accuracy', () => {
+    const sketch = createLatencySketch();
+    for (let ms = 1; ms <= 1000; ms++) {
+      recordLatency(sketch, ms);
+    }
+
+    assert.strictEqual(sketch.count, 1000);
+    assertWithin(latencyQuantile(sketch, 0.5), 500, 0.02);
+    assertWithin(latencyQuantile(sketch, 0.95), 950, 0.02);
+    assertWithin(latencyQuantile(sketch, 0.99), 990, 0.02);
+  });
+
+  test('should surface tail latency that the average hides', () => {
+    const sketch = createLatencySketch();
+    for (let i = 0; i < 980; i++) recordLatency(sketch, 20);
+    for (let i = 0; i < 20; i++) recordLatency(sketch, 3000);
+
+    assertWithin(latencyQuantile(sketch, 0.5), 20, 0.02);
+    assertWithin(latencyQuantile(sketch, 0.99), 3000, 0.02);
+  });
+
+  test('should count zero-duration samples', () => {
+    const sketch = createLatencySketch();
+    recordLatency(sketch, 0);
+    recordLatency(sketch, 0);
+    recordLatency(sketch, 100);
+
+    assert.strictEqual(sketch.zeroCount, 2);
+    assert.strictEqual(latencyQuantile(sketch, 0.5), 0);
+    assertWithin(latencyQuantile(sketch, 1), 100, 0.02);
+  });
+
+  test('should merge sketches losslessly', () => {
+    const a = createLatencySketch();
+    const b = createLatencySketch();
+    const combined = createLatencySketch();
+    for (let ms = 1; ms <= 500; ms++) {
+      recordLatency(a, ms);
+      recordLatency(combined, ms);
+    }
+    for (let ms = 501; ms <= 1000; ms++) {
+      recordLatency(b, ms);
+      recordLatency(combined, ms);
+    }
+
+    const merged = mergeLatencySketches(mergeLatencySketches(createLatencySketch(), a), b);
+    assert.deepStrictEqual(merged, combined);
+  });
+
+  test('should re-bin sketches with a different accuracy', () => {
+    const coarse = createLatencySketch(0.05);
+    for (let ms = 1; ms <= 1000; ms++) {
+      recordLatency(coarse, ms);
+    }
+
+    const merged = mergeLatencySketches(createLatencySketch(), coarse);
+    assert.strictEqual(merged.count, 1000);
+    assert.strictEqual(merged.min, 1);
+    assert.strictEqual(merged.max, 1000);
+    assertWithin(latencyQuantile(merged, 0.5), 500, 0.1);
+  });
+
+  test('should survive a JSON round trip', () => {
+    const sketch = createLatencySketch();
+    [12, 48, 250, 900].forEach(ms => recordLatency(sketch, ms));
+
+    const restored = JSON.parse(JSON.stringify(sketch));
+    recordLatency(restored, 60);
+    assert.strictEqual(restored.count, 5);
+    assertWithin(latencyQuantile(restored, 0.5), 60, 0.02);
+  });
+});
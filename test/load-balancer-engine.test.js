@@ -0,0 +1,157 @@
+import { test, describe, afterEach, mock } from 'node:test';
+import assert from 'node:assert';
+import { LoadBalancerEngine } from '../src/load-balancer-engine.ts';
+import { LoadBalancerDO } from '../src/durable-object.ts';
+import { createServiceDO } from './helpers/durable-object-state.mjs';
+import { mockOrigins, respondAfter } from './helpers/origins.mjs';
+import { createEngineConfig } from './helpers/engine-config.mjs';
+
+describe('Load balancer engine routing', () => {
+  const request = new Request('https://app.example.com/api');
+
+  test('skips excluded backends and moves to the next pool once a pool is used up', async () => {
+    const engine = new LoadBalancerEngine(createEngineConfig());
+
+    const retry = await engine.routeRequest(request, '192.0.2.1', undefined, new Set(['backend-1']));
+    assert.strictEqual(retry.pool.id, 'pool-1');
+    assert.notStrictEqual(retry.backend.id, 'backend-1');
+
+    const failover = await engine.routeRequest(request, '192.0.2.1', undefined, new Set(['backend-1', 'backend-2', 'backend-3']));
+    assert.deepStrictEqual([failover.pool.id, failover.backend.id], ['pool-2', 'backend-4']);
+
+    const everyBackend = new Set(['backend-1', 'backend-2', 'backend-3', 'backend-4']);
+    await assert.rejects(engine.routeRequest(request, '192.0.2.1', undefined, everyBackend));
+  });
+
+  test('does not evaluate rules or count routing metrics again for a retry', async () => {
+    const engine = new LoadBalancerEngine(createEngineConfig());
+    engine.config.customRules = [
+      { id: 'block-api', name: 'Block API', expression: "http.request.uri.path == '/api'", action: 'block', priority: 1, enabled: false }
+    ];
+
+    await engine.routeRequest(request, '192.0.2.1');
+    const before = structuredClone(engine.getMetrics());
+    engine.config.customRules[0].enabled = true;
+
+    const retry = await engine.routeRequest(request, '192.0.2.1', undefined, new Set(['backend-1']), true);
+    assert.notStrictEqual(retry.backend.id, 'backend-1');
+    assert.deepStrictEqual(engine.getMetrics().steeringDecisions, before.steeringDecisions);
+    assert.strictEqual(engine.getMetrics().totalRequests, before.totalRequests);
+    assert.strictEqual(engine.getMetrics().sessionAffinityMisses, before.sessionAffinityMisses);
+
+    await assert.rejects(engine.routeRequest(request, '192.0.2.1'), { name: 'FixedResponseAction' });
+  });
+});
+
+describe('Retries through the DO', () => {
+  let origins;
+  afterEach(() => origins?.restore());
+
+  test('retries a failed attempt on a backend it has not tried yet', async () => {
+    const { durableObject } = await createServiceDO(LoadBalancerDO, {
+      backends: ['https://origin-a.example.com', 'https://origin-b.example.com', 'https://origin-c.example.com']
+    });
+    durableObject.config.retryPolicy.base_delay = 0;
+    origins = mockOrigins((request, count) => new Response(count < 3 ? 'unavailable' : 'ok', { status: count < 3 ? 503 : 200 }));
+
+    const response = await durableObject.fetch(new Request('https://app.example.com/'));
+
+    assert.strictEqual(response.status, 200);
+    assert.strictEqual(new Set(origins.hosts()).size, 3);
+    assert.strictEqual(durableObject.loadBalancerEngine.getMetrics().totalRequests, 1);
+  });
+
+  test('retries a first attempt that timed out even though it took longer than retry_timeout', async () => {
+    const { durableObject } = await createServiceDO(LoadBalancerDO);
+    Object.assign(durableObject.config.retryPolicy, { retry_timeout: 20, base_delay: 0 });
+    durableObject.config.passiveHealthChecks.connection_error_handling = { connection_timeout_ms: 50 };
+    origins = mockOrigins((request, count) => respondAfter(request, count === 1 ? 10000 : 0, new Response('ok')));
+
+    const response = await durableObject.fetch(new Request('https://app.example.com/'));
+
+    assert.deepStrictEqual([response.status, await response.text()], [200, 'ok']);
+    assert.strictEqual(origins.requests.length, 2);
+    assert.ok(origins.requests[0].signal.aborted);
+  });
+});
+
+describe('Retry delays', () => {
+  afterEach(() => mock.restoreAll());
+
+  test('honour Retry-After in seconds or as an HTTP date', async () => {
+    const { durableObject } = await createServiceDO(LoadBalancerDO);
+    mock.method(Date, 'now', () => Date.UTC(2026, 0, 1));
+
+    assert.strictEqual(durableObject.getRetryDelay(0, 1000, '3'), 3000);
+    assert.strictEqual(durableObject.getRetryDelay(0, 1000, new Date(Date.UTC(2026, 0, 1, 0, 0, 2)).toUTCString()), 2000);
+    assert.strictEqual(durableObject.getRetryDelay(0, 1000, new Date(Date.UTC(2025, 0, 1)).toUTCString()), 0);
+  });
+
+  test('jitter between half and all of the backoff, which doubles up to a cap for exponential', async () => {
+    const { durableObject } = await createServiceDO(LoadBalancerDO);
+    durableObject.config.retryPolicy.backoff_strategy = 'exponential';
+    const random = mock.method(Math, 'random', () => 0);
+
+    assert.deepStrictEqual([0, 1, 2].map(attempt => durableObject.getRetryDelay(attempt, 100, 'soon')), [50, 100, 200]);
+    random.mock.mockImplementation(() => 0.999999);
+    assert.ok(Math.abs(durableObject.getRetryDelay(20, 100) - 30000) < 1);
+
+    durableObject.config.retryPolicy.backoff_strategy = 'constant';
+    assert.ok(Math.abs(durableObject.getRetryDelay(5, 100) - 100) < 1);
+  });
+});
+
+describe('Health overrides in the engine', () => {
+  const request = new Request('https://app.example.com/');
+
+  async function routedBackends(engine, times = 6) {
+    const ids = new Set();
+    for (let i = 0; i < times; i++) {
+      ids.add((await engine.routeRequest(request, '192.0.2.1')).backend.id);
+    }
+    return [...ids].sort();
+  }
+
+  test('force_up and force_down win over checked health until they expire', async () => {
+    const engine = new LoadBalancerEngine(createEngineConfig());
+    const [first, second, third] = engine.config.pools[0].backends;
+    first.health_override = { mode: 'force_down' };
+    second.health_override = { mode: 'force_down', expires_at: Date.now() + 60000 };
+    third.healthy = false;
+    third.health_override = { mode: 'force_up', reason: 'checks are wrong' };
+
+    assert.deepStrictEqual(await routedBackends(engine), ['backend-3']);
+
+    second.health_override.expires_at = Date.now() - 1;
+    assert.deepStrictEqual(await routedBackends(engine), ['backend-2', 'backend-3']);
+  });
+
+  test('a backend override beats its pool override, and a pool forced down fails over', async () => {
+    const engine = new LoadBalancerEngine(createEngineConfig());
+    const [pool] = engine.config.pools;
+    pool.health_override = { mode: 'force_down' };
+    pool.minimum_origins = 1;
+    pool.backends[0].health_override = { mode: 'force_up' };
+
+    assert.deepStrictEqual(await routedBackends(engine), ['backend-1']);
+
+    delete pool.backends[0].health_override;
+    assert.deepStrictEqual(await routedBackends(engine), ['backend-4']);
+  });
+
+  test('emergency selection for zero-downtime failover never uses a backend forced down', async () => {
+    const engine = new LoadBalancerEngine(createEngineConfig({ zero_downtime_failover: { enabled: true } }));
+    const [pool] = engine.config.pools;
+    pool.backends.forEach(backend => backend.healthy = false);
+    pool.backends[0].health_override = { mode: 'force_down' };
+
+    const picked = new Set();
+    for (let i = 0; i < 6; i++) {
+      picked.add((await engine.selectBackend(pool, request, '192.0.2.1')).id);
+    }
+    assert.ok(!picked.has('backend-1'));
+
+    pool.backends.slice(1).forEach(backend => backend.health_override = { mode: 'force_down' });
+    assert.strictEqual(await engine.selectBackend(pool, request, '192.0.2.1'), null);
+  });
+});
@@ -0,0 +1,174 @@
+import { test, describe, afterEach, mock } from 'node:test';
+import assert from 'node:assert';
+import { LoadBalancerEngine } from '../src/load-balancer-engine.ts';
+import { LoadBalancerDO } from '../src/durable-object.ts';
+import { createServiceDO } from './helpers/durable-object-state.mjs';
+import { mockOrigins } from './helpers/origins.mjs';
+import { createEngineConfig } from './helpers/engine-config.mjs';
+
+const request = new Request('https://app.example.com/api');
+
+function createSheddingEngine(loadShedding) {
+  const engine = new LoadBalancerEngine(createEngineConfig());
+  engine.config.pools[0].load_shedding = loadShedding;
+  return engine;
+}
+
+// origin-a serves simple-pool and origin-b the overflow pool next in default_pool_ids
+async function createSheddingDO() {
+  const { durableObject, storage } = await createServiceDO(LoadBalancerDO);
+  const [pool] = durableObject.config.pools;
+  const [primary, overflow] = pool.backends;
+  pool.backends = [primary];
+  durableObject.config.pools.push({ ...pool, id: 'overflow-pool', name: 'Overflow', backends: [overflow] });
+  durableObject.config.load_balancer.default_pool_ids = ['simple-pool', 'overflow-pool'];
+  return { durableObject, storage, pool };
+}
+
+function loadShedding(durableObject, method = 'GET', query = '', body) {
+  return durableObject.fetch(new Request(`https://app.example.com/__lb_admin__/load-shedding${query}`, {
+    method,
+    body: body && JSON.stringify(body)
+  }));
+}
+
+describe('Load shedding in the engine', () => {
+  afterEach(() => mock.restoreAll());
+
+  test('sheds the configured share of new requests to the next pool', async () => {
+    const engine = createSheddingEngine({ percent: 40, default_policy: 'shed_new' });
+
+    mock.method(Math, 'random', () => 0.39);
+    const shed = await engine.routeRequest(request, '192.0.2.1');
+    assert.deepStrictEqual([shed.pool.id, shed.backend.id, shed.shedFrom], ['pool-2', 'backend-4', 'pool-1']);
+
+    mock.method(Math, 'random', () => 0.4);
+    const kept = await engine.routeRequest(request, '192.0.2.1');
+    assert.deepStrictEqual([kept.pool.id, kept.shedFrom], ['pool-1', undefined]);
+  });
+
+  test('does not shed with the none policy or a zero percent', async () => {
+    for (const settings of [{ percent: 100, default_policy: 'none' }, { percent: 0, default_policy: 'shed_new' }]) {
+      const result = await createSheddingEngine(settings).routeRequest(request, '192.0.2.1');
+      assert.deepStrictEqual([result.pool.id, result.shedFrom], ['pool-1', undefined]);
+    }
+  });
+
+  test('keeps the request on its pool when the next pool cannot take it', async () => {
+    const unusable = [
+      engine => { engine.config.pools[1].enabled = false; },
+      engine => { engine.config.pools[1].backends[0].health_override = { mode: 'force_down' }; }
+    ];
+    for (const makeUnusable of unusable) {
+      const engine = createSheddingEngine({ percent: 100, default_policy: 'shed_new' });
+      makeUnusable(engine);
+      const result = await engine.routeRequest(request, '192.0.2.1');
+      assert.deepStrictEqual([result.pool.id, result.shedFrom], ['pool-1', undefined]);
+    }
+
+    const excluded = await createSheddingEngine({ percent: 100, default_policy: 'shed_new' })
+      .routeRequest(request, '192.0.2.1', undefined, new Set(['backend-4']));
+    assert.deepStrictEqual([excluded.pool.id, excluded.shedFrom], ['pool-1', undefined]);
+
+    // Still healthy enough to be picked as the target, but the only backend left to try is forced down
+    const engine = createSheddingEngine({ percent: 100, default_policy: 'shed_new' });
+    engine.config.pools[1].backends.push({ ...engine.config.pools[1].backends[0], id: 'backend-5', health_override: { mode: 'force_down' } });
+    const retry = await engine.routeRequest(request, '192.0.2.1', undefined, new Set(['backend-4']), true);
+    assert.deepStrictEqual([retry.pool.id, retry.shedFrom], ['pool-1', undefined]);
+  });
+
+  test('wraps around default_pool_ids to find the target pool', async () => {
+    const engine = new LoadBalancerEngine(createEngineConfig());
+    engine.config.pools[1].load_shedding = { percent: 100, default_policy: 'shed_new' };
+
+    const result = await engine.routeRequest(request, '192.0.2.1', undefined, new Set(['backend-1', 'backend-2']));
+    assert.deepStrictEqual([result.pool.id, result.backend.id], ['pool-1', 'backend-3']);
+    assert.strictEqual(engine.getShedTargetPool(engine.config.pools[1], new Set()).id, 'pool-1');
+  });
+});
+
+describe('Load shedding through the DO', () => {
+  let origins;
+  afterEach(() => origins?.restore());
+
+  test('serves shed requests from the overflow pool and counts them on the shedding pool', async () => {
+    const { durableObject, pool } = await createSheddingDO();
+    pool.load_shedding = { percent: 100, default_policy: 'shed_new' };
+    origins = mockOrigins(() => new Response('ok'));
+
+    for (let i = 0; i < 2; i++) {
+      assert.strictEqual((await durableObject.fetch(new Request('https://app.example.com/'))).status, 200);
+    }
+
+    assert.deepStrictEqual(origins.hosts(), ['origin-b.example.com', 'origin-b.example.com']);
+    assert.strictEqual(durableObject.metrics.poolMetrics['simple-pool'].shedRequests, 2);
+    assert.strictEqual(durableObject.metrics.poolMetrics['overflow-pool'].shedRequests, undefined);
+  });
+
+  test('answers 503 when neither the shedding pool nor a target can take the request', async () => {
+    const { durableObject, pool } = await createSheddingDO();
+    pool.load_shedding = { percent: 100, default_policy: 'shed_new' };
+    durableObject.config.pools[1].enabled = false;
+    pool.backends[0].health_override = { mode: 'force_down' };
+    origins = mockOrigins(() => new Response('ok'));
+
+    const response = await durableObject.fetch(new Request('https://app.example.com/'));
+
+    assert.deepStrictEqual([response.status, await response.text()], [503, 'No healthy backends available']);
+    assert.strictEqual(origins.requests.length, 0);
+  });
+});
+
+describe('Load shedding admin API', () => {
+  test('lists every pool, or one pool by id, with its settings and shed counter', async () => {
+    const { durableObject, pool } = await createSheddingDO();
+    pool.load_shedding = { percent: 25, default_policy: 'shed_new' };
+    durableObject.getPoolMetrics(pool).shedRequests = 3;
+
+    const all = await (await loadShedding(durableObject)).json();
+    assert.deepStrictEqual(all.pools, [
+      { poolId: 'simple-pool', load_shedding: { percent: 25, default_policy: 'shed_new' }, shedRequests: 3 },
+      { poolId: 'overflow-pool', load_shedding: { default_policy: 'none' }, shedRequests: 0 }
+    ]);
+
+    const one = await (await loadShedding(durableObject, 'GET', '?id=simple-pool')).json();
+    assert.strictEqual(one.shedRequests, 3);
+    assert.strictEqual((await loadShedding(durableObject, 'GET', '?id=missing')).status, 404);
+  });
+
+  test('merges PUT settings into the pool and persists them', async () => {
+    const { durableObject, storage, pool } = await createSheddingDO();
+    pool.load_shedding = { percent: 25, default_policy: 'shed_new' };
+
+    const response = await loadShedding(durableObject, 'PUT', '?id=simple-pool', { percent: 60, session_affinity_policy: 'shed' });
+
+    assert.strictEqual(response.status, 200);
+    const expected = { percent: 60, default_policy: 'shed_new', session_affinity_policy: 'shed' };
+    assert.deepStrictEqual((await response.json()).load_shedding, expected);
+    assert.deepStrictEqual(pool.load_shedding, expected);
+    const saved = (await storage.get('state')).config.pools.find(p => p.id === 'simple-pool');
+    assert.deepStrictEqual(saved.load_shedding, expected);
+
+    assert.strictEqual((await loadShedding(durableObject, 'DELETE', '?id=simple-pool')).status, 200);
+    assert.strictEqual(pool.load_shedding, undefined);
+  });
+
+  test('rejects invalid settings and a PUT without a pool id', async () => {
+    const { durableObject, pool } = await createSheddingDO();
+    const invalid = [
+      [{ percent: 150 }, 'percent must be between 0 and 100'],
+      [{ percent: -1 }, 'percent must be between 0 and 100'],
+      [{ default_policy: 'shed_all' }, 'default_policy must be none, shed_new or shed_new_and_existing'],
+      [{ session_affinity_policy: 'drop' }, 'session_affinity_policy must be honor or shed']
+    ];
+
+    for (const [settings, error] of invalid) {
+      const response = await loadShedding(durableObject, 'PUT', '?id=simple-pool', settings);
+      assert.deepStrictEqual([response.status, (await response.json()).error], [400, error]);
+    }
+    assert.strictEqual(pool.load_shedding, undefined);
+
+    const withoutId = await loadShedding(durableObject, 'PUT', '', { percent: 10 });
+    assert.deepStrictEqual([withoutId.status, (await withoutId.json()).error], [400, 'Pool ID is required']);
+  });
+});
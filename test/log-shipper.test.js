@@ -0,0 +1,129 @@
+import { test, describe, afterEach } from 'node:test';
+import assert from 'node:assert';
+import { LogShipper, validateLogSinks } from '../src/log-shipper.ts';
+import { LoadBalancerDO } from '../src/durable-object.ts';
+import { createServiceDO } from './helpers/durable-object-state.mjs';
+import { mockOrigins } from './helpers/origins.mjs';
+
+function entry(i, fields = {}) {
+  return { id: `log-${i}`, timestamp: Date.UTC(2026, 0, 1) + i, level: 'info', category: 'request', message: `request ${i}`, ...fields };
+}
+
+function createShipper(sinks) {
+  const pending = [];
+  const shipper = new LogShipper('app.example.com', () => sinks, promise => pending.push(promise));
+  return { shipper, settle: () => Promise.all(pending) };
+}
+
+describe('Log shipper', () => {
+  let sink;
+  afterEach(() => sink?.restore());
+
+  test('ships a full batch as NDJSON with the sink headers', async () => {
+    sink = mockOrigins(() => new Response(null, { status: 204 }));
+    const { shipper, settle } = createShipper([
+      { id: 'http', type: 'http', enabled: true, url: 'https://logs.example.com/ingest', batchSize: 2, flushInterval: 0, headers: { Authorization: 'Bearer token' } }
+    ]);
+
+    shipper.enqueue(entry(0));
+    shipper.enqueue(entry(1));
+    await settle();
+
+    assert.strictEqual(sink.requests.length, 1);
+    const [request] = sink.requests;
+    assert.strictEqual(request.headers.get('Content-Type'), 'application/x-ndjson');
+    assert.strictEqual(request.headers.get('Authorization'), 'Bearer token');
+    const lines = (await request.text()).trim().split('\n').map(line => JSON.parse(line));
+    assert.deepStrictEqual(lines.map(line => [line.service, line.id]), [['app.example.com', 'log-0'], ['app.example.com', 'log-1']]);
+  });
+
+  test('groups Loki entries into one stream per level and category', async () => {
+    sink = mockOrigins(() => new Response(null, { status: 204 }));
+    const { shipper, settle } = createShipper([
+      { id: 'loki', type: 'loki', enabled: true, url: 'https://loki.example.com/loki/api/v1/push', batchSize: 3, flushInterval: 0, labels: { env: 'prod' } }
+    ]);
+
+    shipper.enqueue(entry(0));
+    shipper.enqueue(entry(1, { level: 'error' }));
+    shipper.enqueue(entry(2));
+    await settle();
+
+    const { streams } = await sink.requests[0].json();
+    assert.deepStrictEqual(streams.map(stream => [stream.stream.level, stream.stream.env, stream.values.length]), [['info', 'prod', 2], ['error', 'prod', 1]]);
+    assert.strictEqual(streams[0].values[0][0], `${entry(0).timestamp}000000`);
+  });
+
+  test('counts entries dropped by a rejecting sink and by buffer overflow', async () => {
+    sink = mockOrigins(request => new URL(request.url).hostname === 'rejects.example.com'
+      ? new Response('bad batch', { status: 400 })
+      : new Response(null, { status: 204 }));
+    const { shipper, settle } = createShipper([
+      { id: 'rejects', type: 'http', enabled: true, url: 'https://rejects.example.com/', batchSize: 2, flushInterval: 0 },
+      { id: 'small', type: 'http', enabled: true, url: 'https://small.example.com/', batchSize: 10, maxBufferSize: 1, flushInterval: 0 }
+    ]);
+
+    shipper.enqueue(entry(0));
+    shipper.enqueue(entry(1));
+    await settle();
+
+    assert.deepStrictEqual(shipper.getDroppedCounts(), { rejects: 2, small: 1 });
+    assert.strictEqual(sink.hosts().filter(host => host === 'rejects.example.com').length, 1);
+  });
+});
+
+describe('Log sink credentials', () => {
+  test('never appear on the metrics pages', async () => {
+    const { durableObject } = await createServiceDO(LoadBalancerDO);
+    durableObject.config.logSinks = [
+      { id: 'http', type: 'http', enabled: true, url: 'https://logs.example.com/ingest', headers: { Authorization: 'Bearer sink-token' } }
+    ];
+
+    const publicPage = await (await durableObject.fetch(new Request('https://app.example.com/metrics'))).text();
+    assert.doesNotMatch(publicPage, /sink-token|Current Configuration/);
+
+    const adminPage = await (await durableObject.fetch(new Request('https://app.example.com/__lb_admin__/metrics'))).text();
+    assert.match(adminPage, /Current Configuration/);
+    assert.match(adminPage, /&#34;Authorization&#34;: &#34;\[redacted\]&#34;/);
+    assert.doesNotMatch(adminPage, /sink-token/);
+  });
+});
+
+describe('Log sink validation', () => {
+  const sink = { id: 'loki', type: 'loki', enabled: true, url: 'https://loki.example.com/loki/api/v1/push' };
+
+  test('accepts complete sinks and reports the first problem otherwise', () => {
+    assert.strictEqual(validateLogSinks([sink, { ...sink, id: 'es', type: 'elasticsearch', levels: ['error', 'critical'], batchSize: 50 }]), null);
+
+    const invalid = [
+      [[{ ...sink, id: '' }], 'Each log sink needs an id'],
+      [[sink, sink], "Log sink id 'loki' is used twice"],
+      [[{ ...sink, type: 'kafka' }], "type of log sink 'loki' must be one of http, syslog, loki, elasticsearch"],
+      [[{ ...sink, url: 'loki.example.com' }], "url of log sink 'loki' must be an http or https URL"],
+      [[{ ...sink, url: 'ftp://loki.example.com/' }], "url of log sink 'loki' must be an http or https URL"],
+      [[{ ...sink, headers: { Authorization: 42 } }], "headers of log sink 'loki' must be strings"],
+      [[{ ...sink, batchSize: 0 }], "batchSize of log sink 'loki' must be an integer of at least 1"],
+      [[{ ...sink, maxRetries: -1 }], "maxRetries of log sink 'loki' must be a non-negative integer"],
+      [[{ ...sink, flushInterval: -5 }], "flushInterval of log sink 'loki' must be a non-negative number of milliseconds"],
+      [[{ ...sink, levels: ['warning'] }], "levels of log sink 'loki' include unknown level 'warning'"]
+    ];
+    for (const [sinks, error] of invalid) {
+      assert.strictEqual(validateLogSinks(sinks), error);
+    }
+  });
+
+  test('rejects invalid sinks in a config update and keeps the current ones', async () => {
+    const { durableObject } = await createServiceDO(LoadBalancerDO);
+    durableObject.config.logSinks = [sink];
+    const postConfig = logSinks => durableObject.fetch(new Request('https://app.example.com/__lb_admin__/config', {
+      method: 'POST',
+      body: JSON.stringify({ logSinks })
+    }));
+
+    const rejected = await postConfig([{ ...sink, url: 'not a url' }]);
+    assert.deepStrictEqual([rejected.status, (await rejected.json()).error], [400, "url of log sink 'loki' must be an http or https URL"]);
+    assert.deepStrictEqual(durableObject.config.logSinks, [sink]);
+
+    assert.strictEqual((await postConfig([{ ...sink, type: 'http' }])).status, 200);
+    assert.strictEqual(durableObject.config.logSinks[0].type, 'http');
+  });
+});
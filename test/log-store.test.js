@@ -0,0 +1,81 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import { LogStore } from '../src/log-store.ts';
+import { LoadBalancerDO } from '../src/durable-object.ts';
+import { FakeSqlStorage, createServiceDO } from './helpers/durable-object-state.mjs';
+
+const DAY = 24 * 60 * 60 * 1000;
+const start = Date.UTC(2026, 0, 1);
+
+function entry(i, fields = {}) {
+  return { id: `log-${i}`, timestamp: start + i * 1000, level: 'info', category: 'request', message: `request ${i}`, ...fields };
+}
+
+describe('Log store', () => {
+  test('pages newest first with a cursor and filters on metadata columns', () => {
+    const store = new LogStore(new FakeSqlStorage());
+    for (let i = 0; i < 5; i++) {
+      store.append(entry(i, { metadata: { backendId: i % 2 === 0 ? 'backend-0' : 'backend-1', statusCode: 200 } }));
+    }
+    store.append(entry(5, { level: 'error', message: 'upstream reset', metadata: { backendId: 'backend-1', statusCode: 502 } }));
+
+    const first = store.query({ limit: 4 });
+    const second = store.query({ limit: 4, cursor: first.nextCursor });
+    assert.deepStrictEqual(first.logs.map(log => log.id), ['log-5', 'log-4', 'log-3', 'log-2']);
+    assert.deepStrictEqual(second.logs.map(log => log.id), ['log-1', 'log-0']);
+    assert.strictEqual(second.nextCursor, null);
+    assert.deepStrictEqual([first.total, second.total], [6, 6]);
+
+    const byOffset = store.query({ limit: 2, offset: 3 });
+    assert.deepStrictEqual(byOffset.logs.map(log => log.id), ['log-2', 'log-1']);
+
+    assert.deepStrictEqual(store.query({ backendId: 'backend-0' }).logs.map(log => log.id), ['log-4', 'log-2', 'log-0']);
+    assert.deepStrictEqual(store.query({ statusCode: 502 }).logs.map(log => log.id), ['log-5']);
+    assert.deepStrictEqual(store.query({ search: 'reset' }).logs[0].metadata, { backendId: 'backend-1', statusCode: 502 });
+  });
+
+  test('drops entries older than the retention period', () => {
+    const store = new LogStore(new FakeSqlStorage());
+    store.setRetentionDays(1);
+    store.append(entry(0));
+    store.append(entry(1, { timestamp: start + 2 * DAY }));
+
+    assert.deepStrictEqual(store.query().logs.map(log => log.id), ['log-1']);
+  });
+
+  test('exports every matching entry as NDJSON, oldest first', async () => {
+    const store = new LogStore(new FakeSqlStorage());
+    for (let i = 0; i < 3; i++) {
+      store.append(entry(i));
+    }
+
+    const lines = (await new Response(store.exportNdjson()).text()).trim().split('\n');
+    assert.deepStrictEqual(lines.map(line => JSON.parse(line).id), ['log-0', 'log-1', 'log-2']);
+  });
+});
+
+describe('Logs endpoint', () => {
+  test('serves persisted logs after a restart', async () => {
+    const { durableObject, storage } = await createServiceDO(LoadBalancerDO);
+    durableObject.addLogEntry('warn', 'backend-0 is slow', 'health', { backendId: 'backend-0' });
+
+    const restarted = (await createServiceDO(LoadBalancerDO, { storage })).durableObject;
+    const response = await restarted.fetch(new Request('https://app.example.com/__lb_admin__/logs?backendId=backend-0'));
+    const body = await response.json();
+
+    assert.deepStrictEqual(body.logs.map(log => log.message), ['backend-0 is slow']);
+  });
+
+  test('keeps total, limit and offset next to the cursor', async () => {
+    const { durableObject } = await createServiceDO(LoadBalancerDO);
+    for (let i = 0; i < 5; i++) {
+      durableObject.addLogEntry('error', `failure ${i}`, 'error');
+    }
+
+    const response = await durableObject.fetch(new Request('https://app.example.com/__lb_admin__/logs?level=error&limit=2&offset=1'));
+    const body = await response.json();
+
+    assert.deepStrictEqual(body.logs.map(log => log.message), ['failure 3', 'failure 2']);
+    assert.deepStrictEqual([body.total, body.limit, body.offset, typeof body.nextCursor], [5, 2, 1, 'string']);
+  });
+});
@@ -0,0 +1,154 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import { getHealthOverride, validateHealthOverride, validateHealthOverrides, clearExpiredOverrides, nextOverrideExpiry, validateMaintenanceWindows, withoutWindowState, advanceMaintenanceWindow, nextMaintenanceEvent, isAlertSuppressed, parseCron, nextCronTime } from '../src/maintenance.ts';
+
+const HOUR = 60 * 60 * 1000;
+
+function makePools() {
+  return [
+    { id: 'api', backends: [{ id: 'api-1' }, { id: 'api-2' }] },
+    { id: 'web', backends: [{ id: 'web-1' }] }
+  ];
+}
+
+describe('getHealthOverride', () => {
+  test('prefers the backend override, then the pool override, and ignores expired ones', () => {
+    const pool = { id: 'api', health_override: { mode: 'force_down' }, backends: [] };
+    assert.strictEqual(getHealthOverride(pool, { id: 'api-1' }, 0), 'force_down');
+    assert.strictEqual(getHealthOverride(pool, { id: 'api-1', health_override: { mode: 'force_up' } }, 0), 'force_up');
+    assert.strictEqual(getHealthOverride(pool, { id: 'api-1', health_override: { mode: 'auto' } }, 0), 'force_down');
+    assert.strictEqual(getHealthOverride(undefined, { id: 'api-1', health_override: { mode: 'force_up', expires_at: 1000 } }, 1000), 'auto');
+    assert.strictEqual(getHealthOverride(undefined, { id: 'api-1' }, 0), 'auto');
+  });
+
+  test('validates modes and expiries', () => {
+    assert.strictEqual(validateHealthOverride({ mode: 'force_up', expires_at: 5 }), null);
+    assert.match(validateHealthOverride({ mode: 'up' }), /must be one of/);
+    assert.match(validateHealthOverride({ mode: 'force_down', expires_at: 'soon' }), /Unix timestamp/);
+    assert.match(validateHealthOverrides([{ id: 'api', backends: [{ id: 'api-1', health_override: { mode: 'off' } }] }]), /Backend 'api-1'/);
+  });
+
+  test('clears expired overrides and reports the next expiry', () => {
+    const pools = makePools();
+    pools[0].health_override = { mode: 'force_down', expires_at: 1000 };
+    pools[0].backends[1].health_override = { mode: 'force_up', expires_at: 5000 };
+    assert.strictEqual(nextOverrideExpiry(pools), 1000);
+    assert.deepStrictEqual(clearExpiredOverrides(pools, 2000), ['pool api']);
+    assert.strictEqual(pools[0].health_override, undefined);
+    assert.strictEqual(nextOverrideExpiry(pools), 5000);
+  });
+});
+
+describe('cron', () => {
+  test('finds the next matching minute in UTC', () => {
+    const wednesday = Date.UTC(2026, 9, 14, 12, 0);
+    assert.strictEqual(nextCronTime('0 3 * * 0', wednesday), Date.UTC(2026, 9, 18, 3, 0));
+    assert.strictEqual(nextCronTime('*/15 * * * *', Date.UTC(2026, 9, 14, 12, 0)), Date.UTC(2026, 9, 14, 12, 15));
+    assert.strictEqual(nextCronTime('30 1 1 1,7 *', wednesday), Date.UTC(2027, 0, 1, 1, 30));
+    assert.strictEqual(nextCronTime('0 0 29 2 *', wednesday), Date.UTC(2028, 1, 29, 0, 0));
+    assert.strictEqual(nextCronTime('0 0 30 2 *', wednesday), null);
+  });
+
+  test('matches either day field when both are restricted', () => {
+    // The 20th, or any Sunday
+    assert.strictEqual(nextCronTime('0 0 20 * 7', Date.UTC(2026, 9, 14, 12, 0)), Date.UTC(2026, 9, 18, 0, 0));
+    assert.strictEqual(nextCronTime('0 0 20 * 7', Date.UTC(2026, 9, 18, 1, 0)), Date.UTC(2026, 9, 20, 0, 0));
+  });
+
+  test('rejects malformed expressions', () => {
+    assert.throws(() => parseCron('0 3 * *'), /5 fields/);
+    assert.throws(() => parseCron('60 3 * * *'), /out of range/);
+    assert.throws(() => parseCron('0 3 * * mon'), /Invalid cron field/);
+  });
+});
+
+describe('validateMaintenanceWindows', () => {
+  const pools = makePools();
+
+  test('accepts one-off and cron windows', () => {
+    assert.strictEqual(validateMaintenanceWindows([
+      { id: 'once', enabled: true, backend_ids: ['api-1'], start: 1000, end: 2000 },
+      { id: 'weekly', enabled: true, pool_ids: ['web'], cron: '0 3 * * 0', duration: 3600 }
+    ], pools), null);
+  });
+
+  test('rejects duplicates, missing or unknown targets and bad schedules', () => {
+    const once = { id: 'once', enabled: true, pool_ids: ['api'], start: 1000, end: 2000 };
+    assert.match(validateMaintenanceWindows([once, once], pools), /Duplicate/);
+    assert.match(validateMaintenanceWindows([{ ...once, pool_ids: [] }], pools), /needs pool_ids or backend_ids/);
+    assert.match(validateMaintenanceWindows([{ ...once, pool_ids: ['db'] }], pools), /unknown pool 'db'/);
+    assert.match(validateMaintenanceWindows([{ ...once, backend_ids: ['db-1'] }], pools), /unknown backend 'db-1'/);
+    assert.match(validateMaintenanceWindows([{ ...once, end: 500 }], pools), /start before its end/);
+    assert.match(validateMaintenanceWindows([{ ...once, cron: '0 3 * * 0', duration: 60 }], pools), /not both/);
+    assert.match(validateMaintenanceWindows([{ id: 'w', enabled: true, pool_ids: ['api'], cron: '0 3 * * 0' }], pools), /positive duration/);
+    assert.match(validateMaintenanceWindows([{ id: 'w', enabled: true, pool_ids: ['api'], cron: '0 25 * * *', duration: 60 }], pools), /out of range/);
+  });
+});
+
+describe('advanceMaintenanceWindow', () => {
+  test('runs a one-off window once', () => {
+    const window = { id: 'once', enabled: true, backend_ids: ['api-1'], start: 10 * HOUR, end: 12 * HOUR };
+    assert.deepStrictEqual(advanceMaintenanceWindow(window, 0), { changed: true });
+    assert.strictEqual(window.next_start, 10 * HOUR);
+    assert.strictEqual(nextMaintenanceEvent([window]), 10 * HOUR);
+
+    assert.deepStrictEqual(advanceMaintenanceWindow(window, 10 * HOUR), { changed: true, phase: 'start' });
+    assert.strictEqual(window.status, 'in_progress');
+    assert.strictEqual(nextMaintenanceEvent([window]), 12 * HOUR);
+    assert.deepStrictEqual(advanceMaintenanceWindow(window, 11 * HOUR), { changed: false });
+
+    assert.deepStrictEqual(advanceMaintenanceWindow(window, 12 * HOUR), { changed: true, phase: 'end' });
+    assert.strictEqual(window.status, 'completed');
+    assert.strictEqual(nextMaintenanceEvent([window]), null);
+    assert.deepStrictEqual(advanceMaintenanceWindow(window, 20 * HOUR), { changed: false });
+  });
+
+  test('repeats a cron window and skips occurrences missed entirely', () => {
+    const wednesday = Date.UTC(2026, 9, 14, 12, 0);
+    const sunday = Date.UTC(2026, 9, 18, 3, 0);
+    const window = { id: 'weekly', enabled: true, pool_ids: ['api'], cron: '0 3 * * 0', duration: 3600 };
+
+    advanceMaintenanceWindow(window, wednesday);
+    assert.strictEqual(window.next_start, sunday);
+    assert.deepStrictEqual(advanceMaintenanceWindow(window, sunday + 60000), { changed: true, phase: 'start' });
+    assert.strictEqual(window.current_end, sunday + HOUR);
+    assert.deepStrictEqual(advanceMaintenanceWindow(window, sunday + HOUR), { changed: true, phase: 'end' });
+    assert.strictEqual(window.status, 'scheduled');
+    assert.strictEqual(window.next_start, sunday + 7 * 24 * HOUR);
+
+    // The DO slept through the next occurrence
+    assert.deepStrictEqual(advanceMaintenanceWindow(window, sunday + 7 * 24 * HOUR + 2 * HOUR), { changed: true });
+    assert.strictEqual(window.next_start, sunday + 14 * 24 * HOUR);
+  });
+
+  test('ends a window in progress once it is disabled', () => {
+    const window = { id: 'once', enabled: true, backend_ids: ['api-1'], start: 0, end: 10 * HOUR };
+    assert.strictEqual(advanceMaintenanceWindow(window, HOUR).phase, 'start');
+    window.enabled = false;
+    assert.deepStrictEqual(advanceMaintenanceWindow(window, 2 * HOUR), { changed: true, phase: 'end' });
+  });
+
+  test('strips the state the DO maintains', () => {
+    const window = { id: 'once', enabled: true, backend_ids: ['api-1'], start: 0, end: HOUR, status: 'in_progress', current_end: HOUR, disabled_backend_ids: ['api-1'] };
+    assert.deepStrictEqual(withoutWindowState(window), { id: 'once', enabled: true, backend_ids: ['api-1'], start: 0, end: HOUR });
+  });
+});
+
+describe('isAlertSuppressed', () => {
+  const pools = makePools();
+  const windows = [{ id: 'once', enabled: true, backend_ids: ['api-1'], status: 'in_progress' }];
+  const alert = metadata => ({ id: 'a', type: 'backend_down', severity: 'high', message: 'down', timestamp: 0, metadata });
+
+  test('holds back firing alerts about backends and pools in a window in progress', () => {
+    assert.strictEqual(isAlertSuppressed(alert({ backendId: 'api-1' }), windows, pools), true);
+    assert.strictEqual(isAlertSuppressed(alert({ poolId: 'api' }), windows, pools), true);
+    assert.strictEqual(isAlertSuppressed(alert({ backendId: 'api-2', poolId: 'api' }), windows, pools), false);
+    assert.strictEqual(isAlertSuppressed(alert({ poolId: 'web' }), windows, pools), false);
+  });
+
+  test('lets resolutions through and respects suppress_alerts and the window status', () => {
+    assert.strictEqual(isAlertSuppressed({ ...alert({ backendId: 'api-1' }), resolved: true }, windows, pools), false);
+    assert.strictEqual(isAlertSuppressed(alert({ backendId: 'api-1' }), [{ ...windows[0], suppress_alerts: false }], pools), false);
+    assert.strictEqual(isAlertSuppressed(alert({ backendId: 'api-1' }), [{ ...windows[0], status: 'scheduled' }], pools), false);
+  });
+});
@@ -0,0 +1,76 @@
+import { test, describe, afterEach } from 'node:test';
+import assert from 'node:assert';
+import { LoadBalancerDO } from '../src/durable-object.ts';
+import { createServiceDO } from './helpers/durable-object-state.mjs';
+import { mockOrigins } from './helpers/origins.mjs';
+
+// origin-a serves the traffic; origin-b and origin-c form the shadow pool it is mirrored to
+async function createMirroredDO() {
+  const { durableObject, state } = await createServiceDO(LoadBalancerDO, {
+    backends: ['https://origin-a.example.com', 'https://origin-b.example.com', 'https://origin-c.example.com']
+  });
+  const [pool] = durableObject.config.pools;
+  const [primary, ...shadow] = pool.backends;
+  pool.backends = [primary];
+  pool.mirror = { pool_id: 'shadow-pool', percent: 100 };
+  durableObject.config.pools.push({ ...pool, id: 'shadow-pool', name: 'Shadow', backends: shadow, mirror: undefined });
+  return { durableObject, state, pool };
+}
+
+function postConfig(durableObject, pools) {
+  return durableObject.fetch(new Request('https://app.example.com/__lb_admin__/config', {
+    method: 'POST',
+    body: JSON.stringify({ pools })
+  }));
+}
+
+describe('Request mirroring', () => {
+  let origins;
+  afterEach(() => origins?.restore());
+
+  test('answers from the primary and only counts the shadow status codes', async () => {
+    const { durableObject, state } = await createMirroredDO();
+    origins = mockOrigins(request => new URL(request.url).hostname === 'origin-a.example.com'
+      ? new Response('primary')
+      : new Response('shadow failure', { status: 500 }));
+
+    for (let i = 0; i < 2; i++) {
+      const response = await durableObject.fetch(new Request('https://app.example.com/api'));
+      assert.deepStrictEqual([response.status, await response.text()], [200, 'primary']);
+    }
+    await state.settle();
+
+    const shadowRequests = origins.requests.filter(request => request.headers.get('X-LB-Shadow') === '1');
+    assert.strictEqual(shadowRequests.length, 2);
+    assert.deepStrictEqual(shadowRequests.map(request => new URL(request.url).pathname), ['/api', '/api']);
+    const shadowMetrics = durableObject.metrics.shadowMetrics['shadow-pool'];
+    assert.deepStrictEqual([shadowMetrics.requests, shadowMetrics.statusCodes], [2, { 500: 2 }]);
+    assert.strictEqual(durableObject.metrics.backendMetrics['backend-1'].failedRequests, 0);
+  });
+
+  test('skips shadow backends that are forced down or draining', async () => {
+    const { durableObject, state } = await createMirroredDO();
+    const [forcedDown, draining] = durableObject.config.pools[1].backends;
+    forcedDown.health_override = { mode: 'force_down' };
+    Object.assign(draining, { enabled: false, draining: true });
+    origins = mockOrigins(() => new Response('ok'));
+
+    await durableObject.fetch(new Request('https://app.example.com/'));
+    await state.settle();
+
+    assert.deepStrictEqual(origins.hosts(), ['origin-a.example.com']);
+    assert.strictEqual(durableObject.metrics.shadowMetrics['shadow-pool'].skippedRequests, 1);
+  });
+
+  test('rejects a mirror to an unknown pool or with a percent outside 0-100', async () => {
+    const { durableObject, pool } = await createMirroredDO();
+    const shadowPool = durableObject.config.pools[1];
+
+    for (const mirror of [{ pool_id: 'missing', percent: 10 }, { pool_id: pool.id, percent: 10 }, { pool_id: 'shadow-pool', percent: 150 }]) {
+      const response = await postConfig(durableObject, [{ ...pool, mirror }, shadowPool]);
+      assert.strictEqual(response.status, 400);
+      assert.match((await response.json()).error, /^mirror\.(pool_id|percent) of pool 'simple-pool'/);
+    }
+    assert.deepStrictEqual(durableObject.config.pools[0].mirror, { pool_id: 'shadow-pool', percent: 100 });
+  });
+});
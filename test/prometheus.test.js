@@ -0,0 +1,83 @@
+import { test, describe, afterEach } from 'node:test';
+import assert from 'node:assert';
+import { LoadBalancerDO } from '../src/durable-object.ts';
+import { createServiceDO } from './helpers/durable-object-state.mjs';
+import { mockOrigins } from './helpers/origins.mjs';
+
+// A service that has proxied four successful requests, so every backend has a latency sketch
+async function createServedDO() {
+  const { durableObject } = await createServiceDO(LoadBalancerDO);
+  for (let i = 0; i < 4; i++) {
+    await durableObject.fetch(new Request('https://app.example.com/'));
+  }
+  return durableObject;
+}
+
+function getMetrics(durableObject, query = '', headers = {}) {
+  return durableObject.fetch(new Request(`https://app.example.com/__lb_admin__/metrics${query}`, { headers }));
+}
+
+describe('Prometheus metrics', () => {
+  let origins;
+  afterEach(() => origins?.restore());
+
+  test('serves the 0.0.4 text format with _total counter families and per-backend summaries', async () => {
+    origins = mockOrigins(() => new Response('ok'));
+    const durableObject = await createServedDO();
+
+    const response = await getMetrics(durableObject, '?format=prometheus');
+    const body = await response.text();
+
+    assert.strictEqual(response.headers.get('Content-Type'), 'text/plain; version=0.0.4; charset=utf-8');
+    assert.ok(body.includes('# TYPE lb_requests_total counter\n'));
+    assert.ok(body.includes('lb_requests_total{service="app.example.com",outcome="success"} 4\n'));
+    assert.ok(body.includes('lb_requests_total{service="app.example.com",outcome="failure"} 0\n'));
+    assert.ok(body.includes('# TYPE lb_backend_response_time_seconds summary\n'));
+    for (const backend of ['backend-0', 'backend-1']) {
+      const labels = `service="app.example.com",pool="simple-pool",backend="${backend}"`;
+      for (const quantile of ['0.5', '0.95', '0.99']) {
+        assert.match(body, new RegExp(`^lb_backend_response_time_seconds\\{${labels},quantile="${quantile}"\\} \\d`, 'm'));
+      }
+      assert.match(body, new RegExp(`^lb_backend_response_time_seconds_sum\\{${labels}\\} \\d`, 'm'));
+      assert.ok(body.includes(`lb_backend_response_time_seconds_count{${labels}} 2\n`));
+      assert.ok(body.includes(`lb_backend_healthy{${labels}} 1\n`));
+      assert.ok(body.includes(`lb_backend_circuit_breaker_state{${labels},state="closed"} 1\n`));
+    }
+    assert.match(body, /^lb_pool_response_time_seconds\{service="app.example.com",pool="simple-pool",quantile="0.99"\} \d/m);
+    assert.ok(!body.includes('# EOF'));
+  });
+
+  test('serves OpenMetrics with bare counter family names and an # EOF terminator', async () => {
+    origins = mockOrigins(() => new Response('ok'));
+    const durableObject = await createServedDO();
+
+    const response = await getMetrics(durableObject, '?format=openmetrics');
+    const body = await response.text();
+
+    assert.strictEqual(response.headers.get('Content-Type'), 'application/openmetrics-text; version=1.0.0; charset=utf-8');
+    assert.ok(body.includes('# TYPE lb_requests counter\n'));
+    assert.ok(!body.includes('# TYPE lb_requests_total'));
+    assert.ok(body.includes('lb_requests_total{service="app.example.com",outcome="success"} 4\n'));
+    assert.ok(body.endsWith('\n# EOF\n'));
+  });
+
+  test('escapes quotes and backslashes in label values', async () => {
+    const { durableObject } = await createServiceDO(LoadBalancerDO);
+    durableObject.config.pools[0].id = 'pool "a"\\b';
+
+    const body = await (await getMetrics(durableObject, '?format=prometheus')).text();
+
+    assert.ok(body.includes('lb_pool_healthy_backends{service="app.example.com",pool="pool \\"a\\"\\\\b"} 2\n'));
+  });
+
+  test('falls back to JSON or HTML without a text format', async () => {
+    const { durableObject } = await createServiceDO(LoadBalancerDO);
+
+    const json = await getMetrics(durableObject, '', { Accept: 'application/json' });
+    assert.strictEqual(json.headers.get('Content-Type'), 'application/json');
+    assert.strictEqual((await json.json()).totalRequests, 0);
+
+    const html = await getMetrics(durableObject, '?format=unknown');
+    assert.match(html.headers.get('Content-Type'), /^text\/html/);
+  });
+});
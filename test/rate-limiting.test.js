@@ -0,0 +1,74 @@
+import { test, describe, afterEach } from 'node:test';
+import assert from 'node:assert';
+import { LoadBalancerDO } from '../src/durable-object.ts';
+import { createServiceDO } from './helpers/durable-object-state.mjs';
+import { mockOrigins } from './helpers/origins.mjs';
+
+function clientRequest(ip) {
+  return new Request('https://app.example.com/', { headers: { 'CF-Connecting-IP': ip } });
+}
+
+describe('Rate limiting', () => {
+  let origins;
+  afterEach(() => origins?.restore());
+
+  test('answers 429 with Retry-After once a client has spent its burst', async () => {
+    const { durableObject } = await createServiceDO(LoadBalancerDO);
+    durableObject.config.rateLimiting = { enabled: true, requestsPerMinute: 60, burstSize: 2 };
+    origins = mockOrigins(() => new Response('ok'));
+
+    const first = await durableObject.fetch(clientRequest('192.0.2.1'));
+    const second = await durableObject.fetch(clientRequest('192.0.2.1'));
+    const limited = await durableObject.fetch(clientRequest('192.0.2.1'));
+    const otherClient = await durableObject.fetch(clientRequest('192.0.2.2'));
+
+    assert.deepStrictEqual([first.status, second.status, limited.status, otherClient.status], [200, 200, 429, 200]);
+    assert.strictEqual(first.headers.get('RateLimit-Remaining'), '1');
+    assert.strictEqual(limited.headers.get('Retry-After'), '1');
+    assert.strictEqual(origins.requests.length, 3);
+  });
+
+  test('keeps buckets in memory and persists them from the alarm', async () => {
+    const { durableObject, state, storage } = await createServiceDO(LoadBalancerDO);
+    durableObject.config.rateLimiting = { enabled: true, requestsPerMinute: 60, burstSize: 2 };
+    origins = mockOrigins(() => new Response('ok'));
+
+    await durableObject.fetch(clientRequest('192.0.2.1'));
+    await durableObject.fetch(clientRequest('192.0.2.1'));
+    await state.settle();
+    assert.strictEqual(await storage.get('ratelimit:ip:192.0.2.1'), undefined);
+    assert.ok(storage.alarm !== null);
+
+    await durableObject.alarm();
+    assert.ok((await storage.get('ratelimit:ip:192.0.2.1')).tokens < 1);
+
+    const restarted = (await createServiceDO(LoadBalancerDO, { storage })).durableObject;
+    restarted.config.rateLimiting = { enabled: true, requestsPerMinute: 60, burstSize: 2 };
+    assert.strictEqual((await restarted.fetch(clientRequest('192.0.2.1'))).status, 429);
+  });
+
+  test('rejects invalid rate limiting in a config update and keeps the current settings', async () => {
+    const { durableObject } = await createServiceDO(LoadBalancerDO);
+    durableObject.config.rateLimiting = { enabled: true, requestsPerMinute: 60 };
+    const postConfig = rateLimiting => durableObject.fetch(new Request('https://app.example.com/__lb_admin__/config', {
+      method: 'POST',
+      body: JSON.stringify({ rateLimiting })
+    }));
+
+    const invalid = [
+      [{ requestsPerMinute: -1 }, 'rateLimiting.requestsPerMinute must be a non-negative number'],
+      [{ requestsPerMinute: '60' }, 'rateLimiting.requestsPerMinute must be a non-negative number'],
+      [{ burstSize: 0 }, 'rateLimiting.burstSize must be at least 1'],
+      [{ keyBy: 'cookie' }, 'rateLimiting.keyBy must be ip, header or api_key'],
+      [{ keyBy: 'header' }, 'rateLimiting.keyHeader is required when keying by header']
+    ];
+    for (const [rateLimiting, error] of invalid) {
+      const response = await postConfig(rateLimiting);
+      assert.deepStrictEqual([response.status, (await response.json()).error], [400, error]);
+    }
+    assert.deepStrictEqual(durableObject.config.rateLimiting, { enabled: true, requestsPerMinute: 60 });
+
+    assert.strictEqual((await postConfig({ keyBy: 'header', keyHeader: 'X-Tenant' })).status, 200);
+    assert.deepStrictEqual(durableObject.config.rateLimiting, { enabled: true, requestsPerMinute: 60, keyBy: 'header', keyHeader: 'X-Tenant' });
+  });
+});
@@ -0,0 +1,43 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import { RetryBudget } from '../src/retry-budget.ts';
+
+const start = Date.UTC(2026, 0, 1);
+
+function recordRequests(budget, config, count, now) {
+  for (let i = 0; i < count; i++) {
+    budget.recordRequest(config, now);
+  }
+}
+
+describe('Retry budget', () => {
+  test('allows max_retry_ratio of the requests in the window, and min_retries without traffic', () => {
+    const budget = new RetryBudget();
+    const config = { enabled: true, max_retry_ratio: 0.1, min_retries: 2, window: 10 };
+
+    assert.deepStrictEqual([budget.tryAcquire(config, start), budget.tryAcquire(config, start), budget.tryAcquire(config, start)], [true, true, false]);
+
+    recordRequests(budget, config, 50, start + 1000);
+    const granted = Array.from({ length: 5 }, () => budget.tryAcquire(config, start + 1000)).filter(Boolean).length;
+    assert.strictEqual(granted, 3); // 10% of 50 requests, less the 2 spent a second earlier
+  });
+
+  test('forgets requests and retries once they leave the window', () => {
+    const budget = new RetryBudget();
+    const config = { enabled: true, max_retry_ratio: 0.5, min_retries: 0, window: 2 };
+    recordRequests(budget, config, 2, start);
+    assert.strictEqual(budget.tryAcquire(config, start), true);
+    assert.strictEqual(budget.tryAcquire(config, start + 1000), false);
+
+    assert.strictEqual(budget.tryAcquire(config, start + 2000), false);
+    recordRequests(budget, config, 2, start + 2000);
+    assert.strictEqual(budget.tryAcquire(config, start + 2000), true);
+  });
+
+  test('never refuses a retry when the budget is disabled', () => {
+    const budget = new RetryBudget();
+    for (const config of [undefined, { enabled: false, max_retry_ratio: 0, min_retries: 0 }]) {
+      assert.ok(Array.from({ length: 20 }, () => budget.tryAcquire(config, start)).every(Boolean));
+    }
+  });
+});
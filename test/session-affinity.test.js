@@ -0,0 +1,66 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import { LoadBalancerEngine } from '../src/load-balancer-engine.ts';
+import { createEngineConfig } from './helpers/engine-config.mjs';
+
+const HOUR = 60 * 60 * 1000;
+
+function createEngine(secret = 'affinity-secret') {
+  const engine = new LoadBalancerEngine(createEngineConfig({ session_affinity: { type: 'cookie', enabled: true, ttl: 3600 } }));
+  engine.setEnvironment({ JWT_SECRET: secret });
+  return engine;
+}
+
+function withCookie(cookie) {
+  return new Request('https://app.example.com/', { headers: { Cookie: cookie } });
+}
+
+// Route once with `cookie` and report whether the engine honoured it as a pin
+async function routeWith(engine, cookie) {
+  const hits = engine.getMetrics().sessionAffinityHits;
+  const result = await engine.routeRequest(withCookie(cookie), '192.0.2.1');
+  return { backendId: result.backend.id, pinned: engine.getMetrics().sessionAffinityHits === hits + 1 };
+}
+
+function cookieValue(setCookie) {
+  return setCookie.split(';')[0];
+}
+
+describe('Session affinity cookies', () => {
+  test('pins later requests to the backend named in a valid cookie', async () => {
+    const engine = createEngine();
+    const first = await engine.routeRequest(new Request('https://app.example.com/'), '192.0.2.1');
+    const setCookie = first.headers['Set-Cookie'];
+    assert.match(setCookie, /^lb_affinity=[^;]+; Path=\/; Max-Age=\d+; SameSite=Lax; Secure; HttpOnly$/);
+
+    for (let i = 0; i < 4; i++) {
+      assert.deepStrictEqual(await routeWith(engine, cookieValue(setCookie)), { backendId: first.backend.id, pinned: true });
+    }
+  });
+
+  test('rejects a cookie whose backend was swapped', async () => {
+    const engine = createEngine();
+    const cookie = cookieValue(await engine.buildAffinityCookie(engine.config.load_balancer.session_affinity, 'pool-1', 'backend-1', Date.now() + HOUR));
+    const [pool, , expires, signature] = cookie.slice('lb_affinity='.length).split('.');
+    const forged = `lb_affinity=${pool}.${Buffer.from('backend-3').toString('base64url')}.${expires}.${signature}`;
+
+    assert.strictEqual((await routeWith(engine, forged)).pinned, false);
+  });
+
+  test('rejects an expired cookie and one signed with another secret', async () => {
+    const engine = createEngine();
+    const sessionConfig = engine.config.load_balancer.session_affinity;
+    const expired = cookieValue(await engine.buildAffinityCookie(sessionConfig, 'pool-1', 'backend-2', Date.now() - 1));
+    const foreign = cookieValue(await createEngine('other-secret').buildAffinityCookie(sessionConfig, 'pool-1', 'backend-2', Date.now() + HOUR));
+
+    assert.strictEqual((await routeWith(engine, expired)).pinned, false);
+    assert.strictEqual((await routeWith(engine, foreign)).pinned, false);
+  });
+
+  test('rejects a signed cookie that pins a backend to a pool it is not in', async () => {
+    const engine = createEngine();
+    const wrongPool = cookieValue(await engine.buildAffinityCookie(engine.config.load_balancer.session_affinity, 'pool-2', 'backend-1', Date.now() + HOUR));
+
+    assert.strictEqual((await routeWith(engine, wrongPool)).pinned, false);
+  });
+});
@@ -0,0 +1,133 @@
+import { test, describe, afterEach } from 'node:test';
+import assert from 'node:assert';
+import { LoadBalancerDO } from '../src/durable-object.ts';
+import { createServiceDO } from './helpers/durable-object-state.mjs';
+import { mockOrigins, respondAfter } from './helpers/origins.mjs';
+import { installWebSockets } from './helpers/websockets.mjs';
+
+function activeConnections(durableObject) {
+  return Object.values(durableObject.metrics.backendMetrics).reduce((sum, metric) => sum + (metric.connectionsActive || 0), 0);
+}
+
+// An SSE origin that sends one event at once and keeps the stream open until the test closes it
+function eventStream() {
+  let controller;
+  const body = new ReadableStream({
+    start(c) {
+      controller = c;
+      c.enqueue(new TextEncoder().encode('data: one\n\n'));
+    }
+  });
+  return {
+    response: () => new Response(body, { headers: { 'Content-Type': 'text/event-stream' } }),
+    close: () => controller.close()
+  };
+}
+
+describe('WebSocket proxying', () => {
+  let origins;
+  let restoreWebSockets;
+  afterEach(() => {
+    origins?.restore();
+    restoreWebSockets?.();
+  });
+
+  test('relays messages both ways through a WebSocketPair and counts the connection until it closes', async () => {
+    restoreWebSockets = installWebSockets();
+    const { durableObject } = await createServiceDO(LoadBalancerDO);
+    durableObject.config.observability.add_backend_header = true;
+    let origin;
+    origins = mockOrigins(() => {
+      const [backendSocket, originSocket] = Object.values(new WebSocketPair());
+      origin = originSocket;
+      return new Response(null, { status: 101, webSocket: backendSocket });
+    });
+
+    const response = await durableObject.fetch(new Request('https://app.example.com/chat', { headers: { Upgrade: 'websocket' } }));
+
+    assert.strictEqual(response.status, 101);
+    assert.ok(response.headers.get('X-Backend-Used'));
+    const client = response.webSocket;
+    assert.strictEqual(origins.requests[0].headers.get('Upgrade'), 'websocket');
+    assert.strictEqual(activeConnections(durableObject), 1);
+
+    client.send('hello');
+    assert.deepStrictEqual(origin.received, ['hello']);
+    origin.send('welcome');
+    assert.deepStrictEqual(client.received, ['welcome']);
+
+    origin.close(1001, 'going away');
+    assert.deepStrictEqual([client.closed, client.closeCode], [true, 1001]);
+    assert.strictEqual(activeConnections(durableObject), 0);
+    const backendMetric = durableObject.metrics.backendMetrics[response.headers.get('X-Backend-Used')];
+    assert.deepStrictEqual([backendMetric.connectionsTotal, backendMetric.successfulRequests], [1, 1]);
+  });
+
+  test('returns the backend response and counts a failure when the upgrade is refused', async () => {
+    restoreWebSockets = installWebSockets();
+    const { durableObject } = await createServiceDO(LoadBalancerDO);
+    origins = mockOrigins(() => new Response('no upgrade', { status: 426 }));
+
+    const response = await durableObject.fetch(new Request('https://app.example.com/chat', { headers: { Upgrade: 'websocket' } }));
+
+    assert.deepStrictEqual([response.status, await response.text()], [426, 'no upgrade']);
+    assert.strictEqual(activeConnections(durableObject), 0);
+    const failed = Object.values(durableObject.metrics.backendMetrics).reduce((sum, metric) => sum + metric.failedRequests, 0);
+    assert.strictEqual(failed, 1);
+  });
+});
+
+describe('Server-sent event streams', () => {
+  let origins;
+  afterEach(() => origins?.restore());
+
+  async function createStreamingDO() {
+    const created = await createServiceDO(LoadBalancerDO);
+    created.durableObject.config.passiveHealthChecks.connection_error_handling.connection_timeout_ms = 20;
+    created.durableObject.config.retryPolicy.max_retries = 0;
+    return created;
+  }
+
+  test('exempts event-stream requests from the connection timeout', async () => {
+    const { durableObject } = await createStreamingDO();
+    origins = mockOrigins(request => respondAfter(request, 60, new Response('late', {
+      headers: { 'Content-Type': request.headers.get('Accept') || 'text/plain' }
+    })));
+
+    const plain = await durableObject.fetch(new Request('https://app.example.com/events'));
+    assert.ok(plain.status >= 500, `expected a timeout, got ${plain.status}`);
+    assert.ok(origins.requests[0].signal.aborted);
+
+    const stream = await durableObject.fetch(new Request('https://app.example.com/events', { headers: { Accept: 'text/event-stream' } }));
+    assert.deepStrictEqual([stream.status, await stream.text()], [200, 'late']);
+    assert.strictEqual(origins.requests.at(-1).signal.aborted, false);
+  });
+
+  test('counts the stream as an active connection until the origin ends it', async () => {
+    const { durableObject, state } = await createStreamingDO();
+    const origin = eventStream();
+    origins = mockOrigins(origin.response);
+
+    const response = await durableObject.fetch(new Request('https://app.example.com/events', { headers: { Accept: 'text/event-stream' } }));
+    const reader = response.body.getReader();
+    assert.strictEqual(new TextDecoder().decode((await reader.read()).value), 'data: one\n\n');
+    assert.strictEqual(activeConnections(durableObject), 1);
+
+    origin.close();
+    assert.strictEqual((await reader.read()).done, true);
+    await state.settle();
+    assert.strictEqual(activeConnections(durableObject), 0);
+  });
+
+  test('releases the connection when the client cancels the stream', async () => {
+    const { durableObject, state } = await createStreamingDO();
+    origins = mockOrigins(eventStream().response);
+
+    const response = await durableObject.fetch(new Request('https://app.example.com/events', { headers: { Accept: 'text/event-stream' } }));
+    assert.strictEqual(activeConnections(durableObject), 1);
+
+    await response.body.cancel();
+    await state.settle();
+    assert.strictEqual(activeConnections(durableObject), 0);
+  });
+});
@@ -0,0 +1,149 @@
+import { test, describe, afterEach } from 'node:test';
+import assert from 'node:assert';
+import { TrafficSplitController } from '../src/traffic-split.ts';
+import { LoadBalancerDO } from '../src/durable-object.ts';
+import { createServiceDO } from './helpers/durable-object-state.mjs';
+import { mockOrigins } from './helpers/origins.mjs';
+
+const start = Date.UTC(2026, 0, 1);
+
+function createSplit(fields = {}) {
+  return {
+    enabled: true,
+    baseline: { pool_id: 'stable' },
+    canary: { pool_id: 'canary' },
+    percent: 0,
+    steps: [{ percent: 10, duration: 60 }, { percent: 50, duration: 60 }, { percent: 100, duration: 60 }],
+    rollback: { enabled: true, min_requests: 10 },
+    ...fields
+  };
+}
+
+function recordMany(controller, side, count, { failed = 0, responseTimeMs = 100 } = {}) {
+  for (let i = 0; i < count; i++) {
+    controller.record(side, i < failed, responseTimeMs);
+  }
+}
+
+describe('Traffic split controller', () => {
+  test('walks through its steps and completes at 100%', () => {
+    const controller = new TrafficSplitController();
+    const split = createSplit();
+    controller.start(split, start);
+    assert.deepStrictEqual([split.status, split.current_step, split.percent], ['active', 0, 10]);
+
+    assert.strictEqual(controller.evaluate(split, start + 59 * 1000).changed, false);
+    recordMany(controller, 'canary', 5);
+    assert.match(controller.evaluate(split, start + 60 * 1000).message, /advanced to 50% \(step 2 of 3\)/);
+    assert.strictEqual(controller.getCounters().canary.requests, 0);
+
+    controller.evaluate(split, start + 120 * 1000);
+    assert.strictEqual(split.percent, 100);
+    controller.evaluate(split, start + 180 * 1000);
+    assert.strictEqual(split.status, 'completed');
+    assert.strictEqual(controller.nextEvaluation(split, 60000, start + 180 * 1000), null);
+  });
+
+  test('rolls back when the canary error rate exceeds the baseline by more than the allowed increase', () => {
+    const controller = new TrafficSplitController();
+    const split = createSplit();
+    controller.start(split, start);
+    recordMany(controller, 'baseline', 100, { failed: 1 });
+    recordMany(controller, 'canary', 10, { failed: 1 });
+
+    const { changed, alert } = controller.evaluate(split, start + 1000);
+
+    assert.strictEqual(changed, true);
+    assert.deepStrictEqual([split.status, split.percent, split.rolled_back_at], ['rolled_back', 0, start + 1000]);
+    assert.match(split.rollback_reason, /error rate 10\.0% vs\. baseline 1\.0%/);
+    assert.deepStrictEqual([alert.type, alert.metadata.poolId, alert.metadata.percent], ['canary_rollback', 'canary', 10]);
+  });
+
+  test('rolls back on latency only once there is baseline traffic to compare with', () => {
+    const controller = new TrafficSplitController();
+    const split = createSplit({ rollback: { enabled: true, min_requests: 10, max_latency_ratio: 2 } });
+    controller.start(split, start);
+    recordMany(controller, 'canary', 10, { responseTimeMs: 500 });
+    assert.strictEqual(controller.evaluate(split, start + 1000).changed, false);
+
+    recordMany(controller, 'baseline', 10, { responseTimeMs: 200 });
+    controller.evaluate(split, start + 2000);
+    assert.match(split.rollback_reason, /average latency 500ms vs\. baseline 200ms \(max 2x\)/);
+  });
+
+  test('waits for min_requests before judging the canary', () => {
+    const controller = new TrafficSplitController();
+    const split = createSplit();
+    controller.start(split, start);
+    recordMany(controller, 'canary', 9, { failed: 9 });
+
+    assert.strictEqual(controller.evaluate(split, start + 1000).changed, false);
+    assert.strictEqual(split.status, 'active');
+  });
+});
+
+describe('Traffic split in the DO', () => {
+  let origins;
+  afterEach(() => origins?.restore());
+
+  test('rolls back a canary that answers 5xx, judging it by first attempts only', async () => {
+    const { durableObject } = await createServiceDO(LoadBalancerDO);
+    const [pool] = durableObject.config.pools;
+    const [stable, canary] = pool.backends;
+    pool.backends = [stable];
+    durableObject.config.pools.push({ ...pool, id: 'canary-pool', name: 'Canary', backends: [canary] });
+    durableObject.config.retryPolicy.base_delay = 0;
+    origins = mockOrigins(request => new URL(request.url).hostname === canary.ip
+      ? new Response('broken', { status: 503 })
+      : new Response('ok'));
+
+    const started = await durableObject.fetch(new Request('https://app.example.com/__lb_admin__/traffic-split', {
+      method: 'POST',
+      body: JSON.stringify(createSplit({ baseline: { pool_id: pool.id }, canary: { pool_id: 'canary-pool' }, steps: [{ percent: 100, duration: 3600 }], rollback: { enabled: true, min_requests: 3 } }))
+    }));
+    assert.strictEqual(started.status, 200);
+
+    for (let i = 0; i < 3; i++) {
+      // The retry lands on the baseline, which must not count as baseline traffic
+      assert.strictEqual((await durableObject.fetch(new Request('https://app.example.com/'))).status, 200);
+    }
+    assert.strictEqual(durableObject.trafficSplit.getCounters().baseline.requests, 0);
+    assert.strictEqual(durableObject.trafficSplit.getCounters().canary.failedRequests, 3);
+
+    await durableObject.alarm();
+    const split = durableObject.config.load_balancer.traffic_split;
+    assert.deepStrictEqual([split.status, split.percent], ['rolled_back', 0]);
+
+    const hostsBefore = origins.hosts().length;
+    await durableObject.fetch(new Request('https://app.example.com/'));
+    assert.deepStrictEqual(origins.hosts().slice(hostsBefore), [stable.ip]);
+  });
+
+  test('validates a split in a config update against the pools of that update', async () => {
+    const { durableObject } = await createServiceDO(LoadBalancerDO);
+    const [pool] = durableObject.config.pools;
+    const canaryPool = { ...pool, id: 'canary-pool', name: 'Canary' };
+    const postConfig = update => durableObject.fetch(new Request('https://app.example.com/__lb_admin__/config', {
+      method: 'POST',
+      body: JSON.stringify(update)
+    }));
+    const split = fields => createSplit({ baseline: { pool_id: pool.id }, canary: { pool_id: 'canary-pool' }, ...fields });
+
+    const invalid = [
+      [{ load_balancer: { traffic_split: split() } }, 'canary.pool_id must name an existing pool'],
+      [{ pools: [pool, canaryPool], load_balancer: { traffic_split: split({ percent: 150 }) } }, 'percent must be between 0 and 100'],
+      [{ pools: [pool, canaryPool], load_balancer: { traffic_split: split({ steps: [{ percent: 10 }] }) } }, 'steps must each have a percent between 0 and 100 and a duration in seconds'],
+      [{ pools: [pool, canaryPool], load_balancer: { traffic_split: split({ rollback: { enabled: true, max_latency_ratio: 0.5 } }) } },
+        'rollback thresholds must be min_requests >= 1, max_error_rate_increase >= 0 and max_latency_ratio >= 1']
+    ];
+    for (const [update, error] of invalid) {
+      const response = await postConfig(update);
+      assert.deepStrictEqual([response.status, (await response.json()).error], [400, error]);
+    }
+    assert.strictEqual(durableObject.config.load_balancer.traffic_split, undefined);
+    assert.strictEqual(durableObject.config.pools.length, 1);
+
+    assert.strictEqual((await postConfig({ pools: [pool, canaryPool], load_balancer: { traffic_split: split() } })).status, 200);
+    assert.strictEqual(durableObject.config.load_balancer.traffic_split.canary.pool_id, 'canary-pool');
+  });
+});